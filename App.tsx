@@ -1,23 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Layout } from './components/Layout';
 import { Library } from './pages/Library';
 import { Architect } from './pages/Architect';
 import { Lab } from './pages/Lab';
+import { Evaluate } from './pages/Evaluate';
+import { Personas } from './pages/Personas';
 import { useStore } from './store';
+import { DEFAULT_PROVIDER_SETTINGS } from './types';
 import { GeminiService } from './services/geminiService';
-import { X, Key, Moon, Sun, Monitor, Cpu } from 'lucide-react';
+import { RoleModelSelect } from './components/RoleModelSelect';
+import { RecoveryScreen } from './components/RecoveryScreen';
+import { StorageUsage } from './components/StorageUsage';
+import { AnalysisProfilesSettings } from './components/AnalysisProfileEditor';
+import { GenerationDefaultsSettings } from './components/GenerationConfigEditor';
+import { X, Key, Moon, Sun, Monitor, Cpu, Server, Gauge, AlertTriangle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 function App() {
   const { 
     theme, setTheme, 
     primaryModel, setPrimaryModel, 
+    primaryProvider, setPrimaryProvider,
     personaModel, setPersonaModel,
-    availableModels, setAvailableModels 
+    personaProvider, setPersonaProvider,
+    providerSettings, setProviderSettings,
+    availableModels, setAvailableModels,
+    quarantinedPrompts, hydrationError, storageError,
+    processingConcurrency, setProcessingConcurrency,
+    analysisProfiles
   } = useStore();
-  const [activeView, setActiveView] = useState<'library' | 'architect' | 'lab'>('library');
+  const [activeView, setActiveView] = useState<'library' | 'architect' | 'personas' | 'lab' | 'evaluate'>('library');
   const [editingPromptId, setEditingPromptId] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [recoveryDismissed, setRecoveryDismissed] = useState(false);
 
   // Apply theme class to document
   useEffect(() => {
@@ -32,15 +47,33 @@ function App() {
   useEffect(() => {
     const fetchModels = async () => {
       const gemini = new GeminiService();
-      const models = await gemini.listModels();
+      const models = await gemini.listModels('gemini');
       if (models && models.length > 0) {
-        setAvailableModels(models);
+        setAvailableModels('gemini', models);
         // Ensure defaults are valid if possible, otherwise keep defaults
       }
+      setAvailableModels('mock', await gemini.listModels('mock'));
     };
     fetchModels();
   }, [setAvailableModels]);
 
+  // Query the OpenAI-compatible endpoint once it is set up or picked for a role, and again whenever it
+  // is reconfigured. Untouched defaults are never probed, so a missing local server stays quiet.
+  const openAIInUse = [primaryProvider, personaProvider, ...Object.values(analysisProfiles).map(p => p.provider)]
+    .includes('openai-compatible');
+  const openAIConfigured = providerSettings.openaiBaseUrl !== DEFAULT_PROVIDER_SETTINGS.openaiBaseUrl || !!providerSettings.openaiApiKey;
+  const loadedProviderSettings = useRef(providerSettings);
+  useEffect(() => {
+    if (!providerSettings.openaiBaseUrl) return;
+    const reconfigured = providerSettings !== loadedProviderSettings.current;
+    if (!openAIInUse && !openAIConfigured && !reconfigured) return;
+    const timer = setTimeout(async () => {
+      const service = new GeminiService(providerSettings);
+      setAvailableModels('openai-compatible', await service.listModels('openai-compatible'));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [providerSettings, openAIInUse, openAIConfigured, setAvailableModels]);
+
   const handleEdit = (id: string) => {
     setEditingPromptId(id);
     setActiveView('architect');
@@ -56,6 +89,10 @@ function App() {
     setEditingPromptId(null);
   };
 
+  if (!recoveryDismissed && (hydrationError || quarantinedPrompts.length > 0)) {
+    return <RecoveryScreen onContinue={() => setRecoveryDismissed(true)} />;
+  }
+
   return (
     <>
       <Layout 
@@ -76,6 +113,15 @@ function App() {
               <Library onEdit={handleEdit} onCreate={handleCreate} />
             </motion.div>
           )}
+          {activeView === 'personas' && (
+             <motion.div 
+             key="personas"
+             initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+             className="h-full"
+           >
+             <Personas onEdit={handleEdit} />
+           </motion.div>
+          )}
           {activeView === 'lab' && (
              <motion.div 
              key="lab"
@@ -85,6 +131,15 @@ function App() {
              <Lab />
            </motion.div>
           )}
+          {activeView === 'evaluate' && (
+             <motion.div 
+             key="evaluate"
+             initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+             className="h-full"
+           >
+             <Evaluate />
+           </motion.div>
+          )}
         </AnimatePresence>
         
         {/* Architect Overlay */}
@@ -97,7 +152,7 @@ function App() {
               exit={{ opacity: 0, scale: 0.95 }}
               className="absolute inset-0 z-40"
             >
-              <Architect promptId={editingPromptId} onClose={handleCloseArchitect} />
+              <Architect promptId={editingPromptId} onClose={handleCloseArchitect} onOpenPrompt={handleEdit} />
             </motion.div>
           )}
         </AnimatePresence>
@@ -111,7 +166,7 @@ function App() {
               initial={{ opacity: 0, y: 20 }} 
               animate={{ opacity: 1, y: 0 }} 
               exit={{ opacity: 0, y: 20 }}
-              className="bg-white dark:bg-stone-900 dark:text-stone-100 rounded-2xl shadow-2xl p-8 w-full max-w-md relative border border-stone-100 dark:border-stone-800"
+              className="bg-white dark:bg-stone-900 dark:text-stone-100 rounded-2xl shadow-2xl p-8 w-full max-w-md max-h-[90vh] overflow-y-auto relative border border-stone-100 dark:border-stone-800"
             >
               <button 
                 onClick={() => setShowSettings(false)}
@@ -155,39 +210,28 @@ function App() {
                    </div>
                    
                    <div className="space-y-4">
-                     <div>
-                       <label className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Primary Model (Generation & Execution)</label>
-                       <select 
-                         value={primaryModel}
-                         onChange={(e) => setPrimaryModel(e.target.value)}
-                         className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
-                       >
-                         {availableModels.length > 0 ? (
-                            availableModels.map(m => <option key={m} value={m}>{m}</option>)
-                         ) : (
-                            <option value={primaryModel}>{primaryModel}</option>
-                         )}
-                       </select>
-                     </div>
-
-                     <div>
-                       <label className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Persona Analysis Model</label>
-                       <select 
-                         value={personaModel}
-                         onChange={(e) => setPersonaModel(e.target.value)}
-                         className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
-                       >
-                         {availableModels.length > 0 ? (
-                            availableModels.map(m => <option key={m} value={m}>{m}</option>)
-                         ) : (
-                            <option value={personaModel}>{personaModel}</option>
-                         )}
-                       </select>
-                       <p className="text-[10px] text-stone-400 mt-1">Use 'gemini-3-pro-preview' for large files to avoid token limits.</p>
-                     </div>
+                     <RoleModelSelect
+                       label="Primary Model (Generation & Execution)"
+                       provider={primaryProvider}
+                       model={primaryModel}
+                       availableModels={availableModels}
+                       onProviderChange={(p) => { setPrimaryProvider(p); setPrimaryModel(availableModels[p][0] || ''); }}
+                       onModelChange={setPrimaryModel}
+                     />
+                     <RoleModelSelect
+                       label="Persona Analysis Model"
+                       provider={personaProvider}
+                       model={personaModel}
+                       availableModels={availableModels}
+                       onProviderChange={(p) => { setPersonaProvider(p); setPersonaModel(availableModels[p][0] || ''); }}
+                       onModelChange={setPersonaModel}
+                       hint="Use 'gemini-3-pro-preview' for large files to avoid token limits."
+                     />
                    </div>
                 </div>
 
+                <GenerationDefaultsSettings />
+
                 {/* API Config */}
                 <div>
                   <div className="flex items-center gap-2 mb-3">
@@ -195,9 +239,61 @@ function App() {
                      <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase">API Key</label>
                   </div>
                   <div className="text-sm text-stone-500 dark:text-stone-400 bg-stone-50 dark:bg-stone-800 p-3 rounded-lg border border-stone-100 dark:border-stone-700">
-                    <span className="text-green-600 dark:text-green-500">● Configured</span> via environment
+                    <span className="text-green-600 dark:text-green-500">● Gemini configured</span> via environment
                   </div>
                 </div>
+
+                {/* OpenAI-compatible Endpoint */}
+                <div>
+                  <div className="flex items-center gap-2 mb-3">
+                     <Server size={16} className="text-stone-400"/>
+                     <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase">OpenAI-compatible Endpoint</label>
+                  </div>
+                  <div className="space-y-2">
+                    <input
+                      value={providerSettings.openaiBaseUrl}
+                      onChange={(e) => setProviderSettings({ openaiBaseUrl: e.target.value })}
+                      placeholder="http://localhost:11434/v1"
+                      className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+                    />
+                    <input
+                      type="password"
+                      value={providerSettings.openaiApiKey}
+                      onChange={(e) => setProviderSettings({ openaiApiKey: e.target.value })}
+                      placeholder="API key (optional for local servers)"
+                      className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+                    />
+                    <p className="text-[10px] text-stone-400">
+                      {availableModels['openai-compatible'].length > 0
+                        ? `${availableModels['openai-compatible'].length} models found.`
+                        : 'No models found at this endpoint.'} The key is stored in this browser only.
+                    </p>
+                  </div>
+                </div>
+
+                {/* Attachment Processing */}
+                <div>
+                  <div className="flex items-center gap-2 mb-3">
+                     <Gauge size={16} className="text-stone-400"/>
+                     <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase">Attachment Processing</label>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-stone-600 dark:text-stone-300">
+                    <span>Files analyzed at once</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={8}
+                      value={processingConcurrency}
+                      onChange={(e) => setProcessingConcurrency(Number(e.target.value))}
+                      className="w-16 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+                    />
+                  </div>
+                  <p className="text-[10px] text-stone-400 mt-1">Lower this if the provider reports rate limits. Failed requests are retried with backoff.</p>
+                </div>
+
+                <AnalysisProfilesSettings />
+
+                <StorageUsage />
               </div>
               
               <div className="mt-8 pt-6 border-t border-stone-100 dark:border-stone-800 flex justify-end">
@@ -212,6 +308,20 @@ function App() {
           </div>
         )}
       </AnimatePresence>
+
+      {/* Storage full: edits live in memory until space is freed */}
+      {storageError && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[150] max-w-lg w-[calc(100%-2rem)] flex items-start gap-3 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 shadow-lg">
+          <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+          <p className="text-sm leading-relaxed flex-1">{storageError}</p>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="shrink-0 text-xs font-medium underline hover:text-amber-900 dark:hover:text-amber-100"
+          >
+            Storage
+          </button>
+        </div>
+      )}
     </>
   );
 }
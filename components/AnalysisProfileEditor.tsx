@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ScanEye } from 'lucide-react';
+import { useStore } from '../store';
+import { RoleModelSelect } from './RoleModelSelect';
+import { DEFAULT_ANALYSIS_PROFILES, MEDIA_KIND_LABELS, OUTPUT_SHAPES } from '../services/analysisProfiles';
+import { AnalysisOutputShape, AnalysisProfile, MediaKind } from '../types';
+
+interface AnalysisProfileEditorProps {
+  profile: AnalysisProfile;
+  kind: MediaKind;
+  onChange: (profile: AnalysisProfile) => void;
+}
+
+// Model, instruction and output shape for one kind of media
+export const AnalysisProfileEditor: React.FC<AnalysisProfileEditorProps> = ({ profile, kind, onChange }) => {
+  const { availableModels } = useStore();
+
+  return (
+    <div className="space-y-3">
+      {kind === 'pdf' && (
+        <label className="flex items-start gap-2 text-xs text-stone-600 dark:text-stone-300">
+          <input
+            type="checkbox"
+            checked={profile.useTextLayer !== false}
+            onChange={(e) => onChange({ ...profile, useTextLayer: e.target.checked })}
+            className="mt-0.5 accent-amber-600"
+          />
+          <span>
+            Read the text layer locally when the PDF has one
+            <span className="block text-[10px] text-stone-400">The model below is only used for scans and other PDFs without text.</span>
+          </span>
+        </label>
+      )}
+      <RoleModelSelect
+        label="Model"
+        provider={profile.provider}
+        model={profile.model}
+        availableModels={availableModels}
+        onProviderChange={(provider) => onChange({ ...profile, provider, model: availableModels[provider][0] || '' })}
+        onModelChange={(model) => onChange({ ...profile, model })}
+      />
+      <div>
+        <label className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Output shape</label>
+        <select
+          value={profile.outputShape}
+          onChange={(e) => onChange({ ...profile, outputShape: e.target.value as AnalysisOutputShape })}
+          className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+        >
+          {(Object.keys(OUTPUT_SHAPES) as AnalysisOutputShape[]).map(shape => (
+            <option key={shape} value={shape}>{OUTPUT_SHAPES[shape].label}</option>
+          ))}
+        </select>
+        {OUTPUT_SHAPES[profile.outputShape].directive && (
+          <p className="text-[10px] text-stone-400 mt-1">{OUTPUT_SHAPES[profile.outputShape].directive}</p>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Instruction</label>
+        <textarea
+          value={profile.instruction}
+          onChange={(e) => onChange({ ...profile, instruction: e.target.value })}
+          rows={3}
+          className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none resize-none"
+        />
+      </div>
+    </div>
+  );
+};
+
+// Preferences section with one workspace profile per media type
+export const AnalysisProfilesSettings: React.FC = () => {
+  const { analysisProfiles, setAnalysisProfile } = useStore();
+  const [kind, setKind] = useState<MediaKind>('audio');
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <ScanEye size={16} className="text-stone-400"/>
+        <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase">Media Analysis</label>
+      </div>
+      <div className="flex gap-1 mb-3">
+        {(Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).map(k => (
+          <button
+            key={k}
+            onClick={() => setKind(k)}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${kind === k ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800'}`}
+          >
+            {MEDIA_KIND_LABELS[k]}
+          </button>
+        ))}
+      </div>
+      <AnalysisProfileEditor profile={analysisProfiles[kind]} kind={kind} onChange={(profile) => setAnalysisProfile(kind, profile)} />
+      <button
+        onClick={() => setAnalysisProfile(kind, DEFAULT_ANALYSIS_PROFILES[kind])}
+        className="mt-2 text-[10px] text-stone-400 hover:text-stone-700 dark:hover:text-stone-200"
+      >
+        Reset {MEDIA_KIND_LABELS[kind].toLowerCase()} to default
+      </button>
+    </div>
+  );
+};
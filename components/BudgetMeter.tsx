@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { BudgetReport, formatTokens } from '../services/tokenBudget';
+
+interface BudgetMeterProps {
+  report: BudgetReport;
+  model: string;
+  onRemoveAttachment?: (id: string) => void;
+  onSummarizeAttachment?: (id: string) => void;
+  canSummarize?: (id: string) => boolean;
+}
+
+const BAR_COLORS = {
+  ok: 'bg-stone-400 dark:bg-stone-500',
+  tight: 'bg-amber-500',
+  over: 'bg-red-500'
+};
+
+// Estimated size of the compiled prompt against the selected model's context window
+export const BudgetMeter: React.FC<BudgetMeterProps> = ({ report, model, onRemoveAttachment, onSummarizeAttachment, canSummarize }) => {
+  const [expanded, setExpanded] = useState(false);
+  const showDetails = expanded || report.status === 'over';
+
+  return (
+    <div className="px-4 py-2 border-b border-stone-100 dark:border-stone-800 bg-stone-50/50 dark:bg-stone-950/30 text-[10px] text-stone-400 dark:text-stone-500">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center gap-3" title={`Context window of ${model}, less room for the response`}>
+        <div className="flex-1 h-1.5 bg-stone-200 dark:bg-stone-800 rounded-full overflow-hidden">
+          <div className={`h-full ${BAR_COLORS[report.status]}`} style={{ width: `${Math.min(100, Math.max(report.share * 100, 1))}%` }} />
+        </div>
+        <span className={`font-mono whitespace-nowrap ${report.status === 'over' ? 'text-red-500' : report.status === 'tight' ? 'text-amber-600 dark:text-amber-500' : ''}`}>
+          ~{formatTokens(report.promptTokens)} / {formatTokens(report.usable)} tokens
+        </span>
+        {report.attachments.length > 0 && (expanded ? <ChevronUp size={10} /> : <ChevronDown size={10} />)}
+      </button>
+
+      {showDetails && report.attachments.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {report.suggestions.length > 0 && (
+            <p className="flex items-center gap-1 text-amber-700 dark:text-amber-500">
+              <AlertTriangle size={10} />
+              {report.status === 'over' ? 'Too large for this model.' : 'Close to the limit.'} Consider trimming:
+            </p>
+          )}
+          {report.attachments.map(cost => {
+            const suggestion = report.suggestions.find(s => s.id === cost.id);
+            return (
+              <div key={cost.id} className="flex items-center justify-between gap-2">
+                <span className={`truncate ${suggestion ? 'text-stone-600 dark:text-stone-300' : ''}`}>{cost.name}</span>
+                <span className="flex items-center gap-2 whitespace-nowrap">
+                  {suggestion && (
+                    <span className="text-amber-700 dark:text-amber-500">{suggestion.action === 'summarize' ? 'summarize' : 'remove'}</span>
+                  )}
+                  <span className="font-mono">~{formatTokens(cost.tokens)}</span>
+                  {suggestion?.action === 'summarize' && onSummarizeAttachment && canSummarize?.(cost.id) ? (
+                    <button onClick={() => onSummarizeAttachment(cost.id)} className="hover:text-stone-700 dark:hover:text-stone-200">Use summary</button>
+                  ) : suggestion && onRemoveAttachment && (
+                    <button onClick={() => onRemoveAttachment(cost.id)} className="hover:text-red-500">Remove</button>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { MessagesSquare, X, Send, Save, Plus, Trash2, Download, RefreshCw, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { useStore } from '../store';
+import { GeminiService } from '../services/geminiService';
+import { compilePrompt } from '../services/compileTargets';
+import { bindVariables } from '../services/templateVariables';
+import { requestConfigFor } from '../services/structuredOutput';
+import { appendTurn, chatContext, contextFingerprint, createChatSession, transcriptToMarkdown } from '../services/chatSession';
+import { downloadText, fileSlug } from '../services/download';
+import { ChatSession, ModelTarget, PromptSFL } from '../types';
+import { VariableInputs } from './VariableInputs';
+import { RoleModelSelect } from './RoleModelSelect';
+
+interface ChatConsoleProps {
+  draft: PromptSFL; // The Architect's current, possibly unsaved, state
+  onClose: () => void;
+}
+
+// A running conversation under the compiled narrative. Sessions remember a fingerprint of the
+// context they started under; a saved session keeps saving as the conversation goes on.
+export const ChatConsole: React.FC<ChatConsoleProps> = ({ draft, onClose }) => {
+  const { prompts, saveChatSession, deleteChatSession, primaryModel, primaryProvider, providerSettings, availableModels, generationDefaults } = useStore();
+
+  const saved = prompts.find(p => p.id === draft.id);
+  const sessions = saved?.chatSessions || [];
+  const [target, setTarget] = useState<ModelTarget>({ provider: primaryProvider, model: primaryModel });
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [session, setSession] = useState<ChatSession>(() => createChatSession('', target));
+  const [message, setMessage] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showContext, setShowContext] = useState(false);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  const isSaved = sessions.some(s => s.id === session.id);
+  const started = session.turns.length > 0;
+
+  let currentContext = '';
+  let contextError: string | null = null;
+  try {
+    const bound = bindVariables({ field: draft.sflField, tenor: draft.sflTenor, mode: draft.sflMode }, draft.variables || [], inputs);
+    currentContext = chatContext(compilePrompt(draft.compileTarget, bound.field, bound.tenor, bound.mode, draft.attachments, draft.examples));
+  } catch (e) {
+    contextError = (e as Error).message;
+  }
+  // Saved sessions hold no copy of their context, so a reopened one continues under the current wording
+  const contextChanged = started && !contextError && session.contextHash !== contextFingerprint(currentContext);
+
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight });
+  }, [session.turns.length, pending]);
+
+  const handleSend = async () => {
+    const text = message.trim();
+    if (!text || pending !== null) return;
+    if (!started && contextError) {
+      setError(`Cannot compile the narrative. ${contextError}`);
+      return;
+    }
+    const contextHash = started ? session.contextHash : contextFingerprint(currentContext);
+    const asked = appendTurn({ ...session, contextHash, provider: target.provider, model: target.model }, 'user', text);
+    setSession(asked);
+    setMessage('');
+    setError(null);
+    setPending('');
+    try {
+      let reply = '';
+      const config = requestConfigFor(generationDefaults, draft);
+      for await (const chunk of new GeminiService(providerSettings).chatStream(asked.turns, target, currentContext, config)) {
+        reply += chunk;
+        setPending(reply);
+      }
+      const answered = appendTurn(asked, 'model', reply);
+      setSession(answered);
+      if (isSaved) saveChatSession(draft.id, answered);
+    } catch (e) {
+      // Put the message back so it can be sent again
+      setSession(session);
+      setMessage(text);
+      setError((e as Error).message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const openSession = (next: ChatSession) => {
+    setSession(next);
+    setTarget({ provider: next.provider, model: next.model });
+    setError(null);
+  };
+
+  const handleDelete = (s: ChatSession) => {
+    if (!confirm(`Delete the conversation "${s.title}"?`)) return;
+    deleteChatSession(draft.id, s.id);
+    if (s.id === session.id) setSession(createChatSession('', target));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="absolute inset-0 z-50 bg-white dark:bg-stone-900 flex flex-col transition-colors"
+    >
+      <header className="px-6 py-4 border-b border-stone-200 dark:border-stone-800 flex justify-between items-center bg-stone-50/50 dark:bg-stone-950/30">
+        <span className="text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase flex items-center gap-2">
+          <MessagesSquare size={14} /> Colloquy · Chat Console
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => downloadText(transcriptToMarkdown(session, draft.title), `${fileSlug(draft.title)}-chat.md`, 'text/markdown')}
+            disabled={!started}
+            className="text-xs flex items-center gap-1 text-stone-500 dark:text-stone-400 px-3 py-1 rounded-full hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors disabled:opacity-40"
+          >
+            <Download size={12} /> Transcript
+          </button>
+          <button
+            onClick={() => saveChatSession(draft.id, session)}
+            disabled={!saved || !started || isSaved || pending !== null}
+            title={saved ? undefined : 'Save the narrative to keep its conversations.'}
+            className="text-xs flex items-center gap-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-500 px-3 py-1 rounded-full hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors disabled:opacity-50"
+          >
+            <Save size={12} /> {isSaved ? 'SAVED' : 'SAVE SESSION'}
+          </button>
+          <button onClick={onClose} className="p-1 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        <aside className="w-64 shrink-0 border-r border-stone-100 dark:border-stone-800 flex flex-col">
+          <div className="p-4 border-b border-stone-100 dark:border-stone-800 space-y-3">
+            <button
+              onClick={() => openSession(createChatSession('', target))}
+              disabled={pending !== null}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-full text-sm bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 hover:bg-stone-800 dark:hover:bg-white transition-colors disabled:opacity-50"
+            >
+              <Plus size={14} /> New conversation
+            </button>
+            <RoleModelSelect
+              label="Model"
+              provider={target.provider}
+              model={target.model}
+              availableModels={availableModels}
+              onProviderChange={(provider) => setTarget({ provider, model: availableModels[provider][0] || '' })}
+              onModelChange={(model) => setTarget({ ...target, model })}
+            />
+          </div>
+          <div className="flex-1 overflow-y-auto p-2">
+            <span className="block px-2 py-1 text-[10px] font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase">Saved sessions</span>
+            {!saved ? (
+              <p className="px-2 text-xs text-stone-400 italic">Save the narrative to keep its conversations.</p>
+            ) : sessions.length === 0 ? (
+              <p className="px-2 text-xs text-stone-400 italic">None yet.</p>
+            ) : sessions.map(s => (
+              <div
+                key={s.id}
+                className={`group flex items-start gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors ${s.id === session.id ? 'bg-stone-100 dark:bg-stone-800' : 'hover:bg-stone-50 dark:hover:bg-stone-800/50'}`}
+                onClick={() => pending === null && openSession(s)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-stone-800 dark:text-stone-200 truncate">{s.title}</p>
+                  <p className="text-[10px] text-stone-400 dark:text-stone-500">
+                    {s.turns.length} turn{s.turns.length === 1 ? '' : 's'} · {s.model} · {new Date(s.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(s); }}
+                  className="opacity-0 group-hover:opacity-100 p-1 text-stone-400 hover:text-red-500 transition-all"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </aside>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          {(draft.variables || []).length > 0 && (
+            <div className="px-6 py-4 border-b border-stone-100 dark:border-stone-800 max-h-48 overflow-y-auto">
+              <VariableInputs variables={draft.variables || []} values={inputs} onValuesChange={setInputs} />
+            </div>
+          )}
+
+          <div className="border-b border-stone-100 dark:border-stone-800">
+            <button
+              onClick={() => setShowContext(!showContext)}
+              className="w-full px-6 py-2 flex items-center gap-2 text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase hover:text-stone-600 dark:hover:text-stone-300"
+            >
+              {showContext ? <ChevronDown size={12} /> : <ChevronRight size={12} />} System context
+            </button>
+            {showContext && (
+              <div className="px-6 pb-4 max-h-56 overflow-y-auto font-mono text-xs text-stone-600 dark:text-stone-400 whitespace-pre-wrap">
+                {currentContext || contextError}
+              </div>
+            )}
+            {contextChanged && (
+              <p className="px-6 pb-2 flex items-center gap-2 text-[10px] text-amber-700 dark:text-amber-400">
+                <AlertTriangle size={12} /> The narrative or its inputs have changed since this conversation started. New replies use the current wording.
+              </p>
+            )}
+          </div>
+
+          <div ref={transcriptRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+            {!started && pending === null && (
+              <div className="h-full flex flex-col items-center justify-center text-stone-300 dark:text-stone-700 italic text-sm">
+                <MessagesSquare size={24} className="mb-2 opacity-50" />
+                <span>Say something to the narrative...</span>
+              </div>
+            )}
+            {session.turns.map((turn, idx) => (
+              <div key={`${turn.at}-${idx}`} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                {turn.role === 'user' ? (
+                  <div className="max-w-[75%] px-4 py-2 rounded-2xl rounded-br-sm bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 text-sm whitespace-pre-wrap">
+                    {turn.text}
+                  </div>
+                ) : (
+                  <div className="max-w-[85%] px-4 py-2 rounded-2xl rounded-bl-sm bg-stone-50 dark:bg-stone-800 prose prose-stone dark:prose-invert prose-sm">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{turn.text}</ReactMarkdown>
+                  </div>
+                )}
+              </div>
+            ))}
+            {pending !== null && (
+              <div className="flex justify-start">
+                <div className="max-w-[85%] px-4 py-2 rounded-2xl rounded-bl-sm bg-stone-50 dark:bg-stone-800 prose prose-stone dark:prose-invert prose-sm">
+                  {pending ? <ReactMarkdown remarkPlugins={[remarkGfm]}>{pending}</ReactMarkdown> : <RefreshCw size={14} className="animate-spin text-stone-400" />}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="px-6 py-2 text-xs text-red-500 border-t border-stone-100 dark:border-stone-800">{error}</p>}
+
+          <div className="p-4 border-t border-stone-200 dark:border-stone-800 flex items-end gap-2">
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              rows={2}
+              placeholder="Message (Enter to send, Shift+Enter for a new line)"
+              className="flex-1 resize-none bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl p-3 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+            />
+            <button
+              onClick={handleSend}
+              disabled={!message.trim() || pending !== null}
+              className="p-3 rounded-full bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-500 hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors disabled:opacity-50"
+            >
+              {pending !== null ? <RefreshCw size={16} className="animate-spin" /> : <Send size={16} />}
+            </button>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
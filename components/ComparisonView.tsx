@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Columns2, X, Play, RefreshCw, Trophy, Scale, ChevronDown, ChevronRight } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { useStore } from '../store';
+import { GeminiService } from '../services/geminiService';
+import { compilePrompt } from '../services/compileTargets';
+import { bindVariables } from '../services/templateVariables';
+import { requestConfigFor } from '../services/structuredOutput';
+import { diffLines, hasChanges } from '../services/diff';
+import { ComparisonSide, ComparisonVote, PromptSFL, PromptVariable, ProviderId } from '../types';
+import { DiffView } from './DiffView';
+import { VariableInputs } from './VariableInputs';
+import { RoleModelSelect } from './RoleModelSelect';
+
+type SideKey = 'a' | 'b';
+
+interface SideConfig {
+  source: string; // 'draft' or a saved prompt id
+  provider: ProviderId;
+  model: string;
+}
+
+interface SideRun {
+  status: 'idle' | 'running' | 'done' | 'error';
+  output: string;
+  error?: string;
+  latencyMs?: number;
+}
+
+interface ComparisonViewProps {
+  draft: PromptSFL; // The Architect's current, possibly unsaved, state
+  onClose: () => void;
+}
+
+const IDLE: SideRun = { status: 'idle', output: '' };
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ draft, onClose }) => {
+  const { prompts, recordVote, primaryModel, primaryProvider, providerSettings, availableModels, generationDefaults } = useStore();
+
+  const saved = prompts.find(p => p.id === draft.id);
+  const [sides, setSides] = useState<Record<SideKey, SideConfig>>({
+    a: { source: 'draft', provider: primaryProvider, model: primaryModel },
+    b: { source: saved ? saved.id : 'draft', provider: primaryProvider, model: primaryModel }
+  });
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [runs, setRuns] = useState<Record<SideKey, SideRun>>({ a: IDLE, b: IDLE });
+  const [votedWinner, setVotedWinner] = useState<ComparisonVote['winner'] | null>(null);
+  const [showDiff, setShowDiff] = useState(true);
+
+  const resolve = (config: SideConfig) => config.source === 'draft' ? draft : prompts.find(p => p.id === config.source);
+  const promptA = resolve(sides.a);
+  const promptB = resolve(sides.b);
+
+  // One set of inputs feeds both sides, so offer the union of their variables
+  const variables: PromptVariable[] = [...(promptA?.variables || [])];
+  (promptB?.variables || []).forEach(v => { if (!variables.some(existing => existing.name === v.name)) variables.push(v); });
+
+  const compiledOf = (prompt?: PromptSFL) =>
+    prompt ? compilePrompt(prompt.compileTarget, prompt.sflField, prompt.sflTenor, prompt.sflMode, prompt.attachments, prompt.examples).text : '';
+  const promptOps = diffLines(compiledOf(promptA), compiledOf(promptB));
+
+  const isRunning = runs.a.status === 'running' || runs.b.status === 'running';
+  // A vote needs at least one saved narrative to live on
+  const recordable = [promptA, promptB].some(p => p && prompts.some(s => s.id === p.id));
+  const canVote = recordable && runs.a.status === 'done' && runs.b.status === 'done' && !votedWinner;
+  const votes = saved?.votes || [];
+
+  const updateSide = (key: SideKey, updates: Partial<SideConfig>) => {
+    setSides(prev => ({ ...prev, [key]: { ...prev[key], ...updates } }));
+    setVotedWinner(null);
+  };
+
+  const runSide = async (key: SideKey, prompt: PromptSFL, config: SideConfig, service: GeminiService) => {
+    const started = performance.now();
+    setRuns(prev => ({ ...prev, [key]: { status: 'running', output: '' } }));
+    try {
+      const bound = bindVariables({ field: prompt.sflField, tenor: prompt.sflTenor, mode: prompt.sflMode }, prompt.variables || [], inputs);
+      const compiled = compilePrompt(prompt.compileTarget, bound.field, bound.tenor, bound.mode, prompt.attachments, prompt.examples);
+      const generation = requestConfigFor(generationDefaults, prompt);
+      for await (const chunk of service.executePromptStream(compiled.prompt, { provider: config.provider, model: config.model }, compiled.system, generation)) {
+        setRuns(prev => ({ ...prev, [key]: { ...prev[key], output: prev[key].output + chunk } }));
+      }
+      setRuns(prev => ({ ...prev, [key]: { ...prev[key], status: 'done', latencyMs: performance.now() - started } }));
+    } catch (e) {
+      setRuns(prev => ({ ...prev, [key]: { ...prev[key], status: 'error', error: (e as Error).message } }));
+    }
+  };
+
+  const handleRun = async () => {
+    if (!promptA || !promptB) return;
+    setVotedWinner(null);
+    const service = new GeminiService(providerSettings);
+    await Promise.all([runSide('a', promptA, sides.a, service), runSide('b', promptB, sides.b, service)]);
+  };
+
+  const handleVote = (winner: ComparisonVote['winner']) => {
+    if (!promptA || !promptB) return;
+    const side = (prompt: PromptSFL, config: SideConfig): ComparisonSide => ({
+      promptId: prompt.id,
+      promptTitle: prompt.title,
+      ...(config.source === 'draft' ? { draft: true } : {}),
+      provider: config.provider,
+      model: config.model
+    });
+    recordVote({
+      id: uuidv4(),
+      votedAt: Date.now(),
+      a: side(promptA, sides.a),
+      b: side(promptB, sides.b),
+      winner,
+      ...(Object.keys(inputs).length ? { inputs } : {})
+    });
+    setVotedWinner(winner);
+  };
+
+  const sideLabel = (s: ComparisonSide) => `${s.promptTitle}${s.draft ? ' (draft)' : ''} · ${s.model}`;
+
+  const renderSide = (key: SideKey, prompt?: PromptSFL) => {
+    const config = sides[key];
+    const run = runs[key];
+    return (
+      <div className="flex-1 min-w-0 flex flex-col border-r last:border-r-0 border-stone-100 dark:border-stone-800">
+        <div className="p-4 border-b border-stone-100 dark:border-stone-800 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="w-6 h-6 rounded-full bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 text-xs font-bold flex items-center justify-center uppercase">{key}</span>
+            <select
+              value={config.source}
+              onChange={(e) => updateSide(key, { source: e.target.value })}
+              disabled={isRunning}
+              className="flex-1 min-w-0 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+            >
+              <option value="draft">Current draft · {draft.title}</option>
+              {prompts.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+            </select>
+          </div>
+          <RoleModelSelect
+            label="Model"
+            provider={config.provider}
+            model={config.model}
+            availableModels={availableModels}
+            onProviderChange={(p) => updateSide(key, { provider: p, model: availableModels[p][0] || '' })}
+            onModelChange={(model) => updateSide(key, { model })}
+          />
+        </div>
+        <div className="px-4 py-2 text-[10px] text-stone-400 dark:text-stone-500 flex justify-between border-b border-stone-100 dark:border-stone-800">
+          <span>{run.status === 'running' ? 'Streaming...' : run.status === 'done' ? 'Complete' : run.status === 'error' ? 'Failed' : 'Idle'}</span>
+          <span>{run.latencyMs !== undefined ? `${Math.round(run.latencyMs)} ms · ${run.output.length} chars` : ''}</span>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6">
+          {!prompt ? (
+            <p className="text-xs text-red-500">This narrative no longer exists.</p>
+          ) : run.error ? (
+            <p className="text-xs text-red-500">{run.error}</p>
+          ) : run.output ? (
+            <div className="prose prose-stone dark:prose-invert prose-sm max-w-none">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{run.output}</ReactMarkdown>
+            </div>
+          ) : (
+            <div className="h-full flex items-center justify-center text-stone-300 dark:text-stone-700 italic text-sm">
+              Waiting for invocation...
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="absolute inset-0 z-50 bg-white dark:bg-stone-900 flex flex-col transition-colors"
+    >
+      <header className="px-6 py-4 border-b border-stone-200 dark:border-stone-800 flex justify-between items-center bg-stone-50/50 dark:bg-stone-950/30">
+        <span className="text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase flex items-center gap-2">
+          <Columns2 size={14} /> Duet · A/B Comparison
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleRun}
+            disabled={isRunning || !promptA || !promptB}
+            className="text-xs flex items-center gap-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-500 px-3 py-1 rounded-full hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? <RefreshCw size={12} className="animate-spin" /> : <Play size={12} />}
+            INVOKE BOTH
+          </button>
+          <button onClick={onClose} className="p-1 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      </header>
+
+      {variables.length > 0 && (
+        <div className="px-6 py-4 border-b border-stone-100 dark:border-stone-800 max-h-48 overflow-y-auto">
+          <VariableInputs variables={variables} values={inputs} onValuesChange={setInputs} />
+        </div>
+      )}
+
+      <div className="border-b border-stone-100 dark:border-stone-800">
+        <button
+          onClick={() => setShowDiff(!showDiff)}
+          className="w-full px-6 py-2 flex items-center gap-2 text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase hover:text-stone-600 dark:hover:text-stone-300"
+        >
+          {showDiff ? <ChevronDown size={12} /> : <ChevronRight size={12} />} Compiled prompt diff (A → B)
+        </button>
+        {showDiff && (
+          <div className="px-6 pb-4 max-h-56 overflow-y-auto">
+            {hasChanges(promptOps) ? (
+              <DiffView ops={promptOps} className="font-mono text-xs text-stone-700 dark:text-stone-300" />
+            ) : (
+              <p className="text-xs text-stone-400 italic">Both sides compile to the same prompt; only the model differs.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {renderSide('a', promptA)}
+        {renderSide('b', promptB)}
+      </div>
+
+      <footer className="px-6 py-3 border-t border-stone-200 dark:border-stone-800 flex flex-wrap items-center gap-4 bg-stone-50/50 dark:bg-stone-950/30">
+        <div className="flex items-center gap-2">
+          {(['a', 'tie', 'b'] as const).map(winner => (
+            <button
+              key={winner}
+              onClick={() => handleVote(winner)}
+              disabled={!canVote}
+              className={`text-xs flex items-center gap-1 px-3 py-1 rounded-full border transition-colors disabled:opacity-40 ${votedWinner === winner ? 'bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 border-transparent' : 'border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-800'}`}
+            >
+              {winner === 'tie' ? <Scale size={12} /> : <Trophy size={12} />}
+              {winner === 'tie' ? 'Tie' : `${winner.toUpperCase()} wins`}
+            </button>
+          ))}
+        </div>
+        <div className="ml-auto text-[10px] text-stone-400 dark:text-stone-500 text-right">
+          {!saved ? (
+            'Save the narrative to keep a record of votes.'
+          ) : votes.length === 0 ? (
+            'No votes recorded yet.'
+          ) : (
+            <>
+              {votes.length} vote{votes.length === 1 ? '' : 's'} recorded · last: {sideLabel(votes[0].a)} vs {sideLabel(votes[0].b)} → {votes[0].winner === 'tie' ? 'tie' : votes[0].winner.toUpperCase()}
+            </>
+          )}
+        </div>
+      </footer>
+    </motion.div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { DiffOp } from '../services/diff';
+
+const opClass = (type: DiffOp['type']) => {
+  switch (type) {
+    case 'insert':
+      return 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300';
+    case 'delete':
+      return 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 line-through';
+    default:
+      return '';
+  }
+};
+
+export const DiffView: React.FC<{ ops: DiffOp[]; className?: string }> = ({ ops, className = '' }) => (
+  <div className={`whitespace-pre-wrap break-words ${className}`}>
+    {ops.map((op, idx) => (
+      <span key={idx} className={opClass(op.type)}>{op.value}</span>
+    ))}
+  </div>
+);
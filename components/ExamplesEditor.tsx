@@ -0,0 +1,79 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, BookMarked } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { PromptExample } from '../types';
+
+interface ExamplesEditorProps {
+  examples: PromptExample[];
+  onChange: (examples: PromptExample[]) => void;
+}
+
+const textareaClass = 'w-full bg-stone-50 dark:bg-stone-900 text-stone-900 dark:text-stone-100 border border-stone-200 dark:border-stone-800 rounded-lg p-3 text-sm focus:border-stone-500 focus:outline-none transition-colors placeholder-stone-300 dark:placeholder-stone-700 resize-y';
+
+// Ordered few-shot examples; they compile in this order
+export const ExamplesEditor: React.FC<ExamplesEditorProps> = ({ examples, onChange }) => {
+  const update = (id: string, updates: Partial<PromptExample>) =>
+    onChange(examples.map(e => e.id === id ? { ...e, ...updates } : e));
+
+  const move = (idx: number, by: number) => {
+    const next = [...examples];
+    [next[idx], next[idx + by]] = [next[idx + by], next[idx]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {examples.length === 0 && (
+        <div className="p-8 text-center border-2 border-dashed border-stone-200 dark:border-stone-800 rounded-xl text-stone-400 dark:text-stone-500">
+          <BookMarked size={24} className="mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No examples yet. Add one here, or keep a good answer from the Oracle.</p>
+        </div>
+      )}
+      {examples.map((example, idx) => (
+        <div key={example.id} className="p-4 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl space-y-3 transition-colors">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">Example {idx + 1}</span>
+            <div className="flex items-center gap-1">
+              <button onClick={() => move(idx, -1)} disabled={idx === 0} title="Move up" className="p-1 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-30">
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => move(idx, 1)} disabled={idx === examples.length - 1} title="Move down" className="p-1 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-30">
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => onChange(examples.filter(e => e.id !== example.id))} title="Delete" className="p-1 text-stone-400 hover:text-red-500">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase mb-1">Input (optional)</span>
+            <textarea
+              value={example.input || ''}
+              onChange={(e) => update(example.id, { input: e.target.value || undefined })}
+              rows={2}
+              placeholder="What the user asks or provides..."
+              className={textareaClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-stone-400 dark:text-stone-500 uppercase mb-1">Ideal Output</span>
+            <textarea
+              value={example.output}
+              onChange={(e) => update(example.id, { output: e.target.value })}
+              rows={5}
+              placeholder="The answer you would want back..."
+              className={`${textareaClass} font-serif`}
+            />
+          </label>
+          {!example.output.trim() && <p className="text-[10px] text-amber-600 dark:text-amber-500">Examples without an output are left out of the manuscript.</p>}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...examples, { id: uuidv4(), output: '' }])}
+        className="w-full flex items-center justify-center gap-2 p-3 border-2 border-dashed border-stone-200 dark:border-stone-800 rounded-xl text-sm text-stone-500 dark:text-stone-400 hover:border-stone-400 dark:hover:border-stone-600 hover:text-stone-800 dark:hover:text-stone-200 transition-colors"
+      >
+        <Plus size={16} /> Add Example
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { useStore } from '../store';
+import { HARM_CATEGORY_LABELS, MAX_STOP_SEQUENCES, SAFETY_THRESHOLD_LABELS } from '../services/generationConfig';
+import { GenerationConfig, HarmCategoryId, SafetyThreshold } from '../types';
+
+interface GenerationConfigEditorProps {
+  config: GenerationConfig;
+  inherited?: GenerationConfig; // Shown in place of unset values
+  onChange: (config: GenerationConfig) => void;
+}
+
+type NumericKey = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+
+const NUMERIC_FIELDS: { key: NumericKey; label: string; min: number; max?: number; step: number; hint: string }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, hint: '0 to 2. Higher is more varied.' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, hint: '0 to 1. Lower keeps to likelier words.' },
+  { key: 'maxOutputTokens', label: 'Max Output Tokens', min: 1, step: 1, hint: 'Caps the length of the answer.' },
+  { key: 'thinkingBudget', label: 'Thinking Budget', min: -1, step: 128, hint: 'Tokens. 0 turns thinking off, -1 lets the model decide. Gemini only.' }
+];
+
+const inputClass = 'w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none placeholder-stone-400 dark:placeholder-stone-500';
+
+const parseStops = (text: string) => text.split('\n').filter(line => line !== '');
+
+// Empty fields fall through to `inherited`, then to the provider's default
+export const GenerationConfigEditor: React.FC<GenerationConfigEditorProps> = ({ config, inherited = {}, onChange }) => {
+  // Kept as text so a new, still empty line survives until something is typed on it
+  const [stopText, setStopText] = useState((config.stopSequences || []).join('\n'));
+
+  useEffect(() => {
+    if (parseStops(stopText).join('\n') !== (config.stopSequences || []).join('\n')) {
+      setStopText((config.stopSequences || []).join('\n'));
+    }
+  }, [config.stopSequences]);
+
+  const setNumber = (key: NumericKey, raw: string) => {
+    const value = raw === '' ? undefined : Number(raw);
+    onChange({ ...config, [key]: Number.isFinite(value) ? value : undefined });
+  };
+
+  const setSafety = (category: HarmCategoryId, threshold: string) => {
+    const safety = { ...config.safety };
+    if (threshold) safety[category] = threshold as SafetyThreshold;
+    else delete safety[category];
+    onChange({ ...config, safety: Object.keys(safety).length ? safety : undefined });
+  };
+
+  const inheritedLabel = (value: unknown) => value === undefined ? 'Model default' : `Default: ${value}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(field => (
+          <label key={field.key} className="block" title={field.hint}>
+            <span className="block text-xs text-stone-500 dark:text-stone-400 mb-1">{field.label}</span>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={config[field.key] ?? ''}
+              onChange={(e) => setNumber(field.key, e.target.value)}
+              placeholder={inheritedLabel(inherited[field.key])}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="block">
+        <span className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Stop Sequences</span>
+        <textarea
+          value={stopText}
+          onChange={(e) => {
+            setStopText(e.target.value);
+            const stops = parseStops(e.target.value).slice(0, MAX_STOP_SEQUENCES);
+            onChange({ ...config, stopSequences: stops.length ? stops : undefined });
+          }}
+          rows={2}
+          placeholder={inherited.stopSequences?.length ? `Default: ${inherited.stopSequences.join(', ')}` : 'One per line, up to five'}
+          className={`${inputClass} font-mono resize-y`}
+        />
+      </label>
+
+      <div>
+        <span className="block text-xs text-stone-500 dark:text-stone-400 mb-1">Safety Thresholds <span className="text-[10px] text-stone-400">(Gemini only)</span></span>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(HARM_CATEGORY_LABELS) as HarmCategoryId[]).map(category => {
+            const fallback = inherited.safety?.[category];
+            return (
+              <label key={category} className="block">
+                <span className="block text-[10px] text-stone-400 mb-0.5">{HARM_CATEGORY_LABELS[category]}</span>
+                <select
+                  value={config.safety?.[category] || ''}
+                  onChange={(e) => setSafety(category, e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">{fallback ? `Default (${SAFETY_THRESHOLD_LABELS[fallback]})` : 'Model default'}</option>
+                  {(Object.keys(SAFETY_THRESHOLD_LABELS) as SafetyThreshold[]).map(threshold => (
+                    <option key={threshold} value={threshold}>{SAFETY_THRESHOLD_LABELS[threshold]}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Workspace-wide defaults, edited in Preferences
+export const GenerationDefaultsSettings: React.FC = () => {
+  const { generationDefaults, setGenerationDefaults } = useStore();
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <SlidersHorizontal size={16} className="text-stone-400"/>
+        <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase">Generation Defaults</label>
+      </div>
+      <GenerationConfigEditor config={generationDefaults} onChange={setGenerationDefaults} />
+      <p className="text-[10px] text-stone-400 mt-2">Used by every run. A narrative's own settings in its Form chapter take precedence.</p>
+    </div>
+  );
+};
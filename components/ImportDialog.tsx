@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, X, AlertTriangle } from 'lucide-react';
+import { useStore } from '../store';
+import { CollisionStrategy, ParsedBundle, planImport } from '../services/libraryBundle';
+
+interface ImportDialogProps {
+  fileName: string;
+  parsed: ParsedBundle;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: CollisionStrategy; label: string; hint: string }[] = [
+  { value: 'merge', label: 'Merge', hint: 'Keep the most recently edited wording and combine history, votes, chat sessions and tags' },
+  { value: 'duplicate', label: 'Duplicate', hint: 'Import as separate copies with new ids' },
+  { value: 'skip', label: 'Skip', hint: 'Keep the narratives already in the library' }
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, parsed, onClose }) => {
+  const { prompts, importPrompts } = useStore();
+  const [strategy, setStrategy] = useState<CollisionStrategy>('merge');
+
+  const collisions = parsed.prompts.filter(p => prompts.some(existing => existing.id === p.id));
+  const plan = planImport(prompts, parsed.prompts, strategy);
+
+  const handleImport = () => {
+    importPrompts(plan.prompts);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white dark:bg-stone-900 dark:text-stone-100 rounded-2xl shadow-2xl p-8 w-full max-w-md max-h-[90vh] overflow-y-auto relative border border-stone-100 dark:border-stone-800"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 transition-colors">
+          <X size={20} />
+        </button>
+        <h2 className="text-2xl font-serif mb-1 text-stone-900 dark:text-stone-50">Import Narratives</h2>
+        <p className="text-xs text-stone-400 dark:text-stone-500 mb-6 truncate">
+          {fileName}{parsed.sourceVersion === 0 ? ' · legacy format, upgraded' : ` · bundle v${parsed.sourceVersion}`}
+        </p>
+
+        <p className="text-sm text-stone-600 dark:text-stone-300 mb-4">
+          {parsed.prompts.length} narrative{parsed.prompts.length === 1 ? '' : 's'} ready to import.
+        </p>
+
+        {parsed.issues.length > 0 && (
+          <div className="mb-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/50 text-xs text-amber-800 dark:text-amber-300">
+            <div className="flex items-center gap-2 font-medium mb-1">
+              <AlertTriangle size={12} /> {parsed.issues.length} entr{parsed.issues.length === 1 ? 'y' : 'ies'} left out
+            </div>
+            <ul className="list-disc ml-4 space-y-0.5 max-h-32 overflow-y-auto">
+              {parsed.issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {collisions.length > 0 && (
+          <div className="mb-6">
+            <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase mb-2">
+              {collisions.length} already in your library
+            </label>
+            <div className="space-y-2">
+              {STRATEGIES.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${strategy === option.value ? 'border-stone-400 dark:border-stone-500 bg-stone-50 dark:bg-stone-800' : 'border-stone-200 dark:border-stone-700'}`}
+                >
+                  <input type="radio" name="strategy" checked={strategy === option.value} onChange={() => setStrategy(option.value)} className="mt-1" />
+                  <span>
+                    <span className="block text-sm text-stone-800 dark:text-stone-200">{option.label}</span>
+                    <span className="block text-xs text-stone-400 dark:text-stone-500">{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={handleImport}
+          disabled={plan.prompts.length === 0}
+          className="w-full flex items-center justify-center gap-2 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors disabled:opacity-50"
+        >
+          <Upload size={16} />
+          Import {plan.added + plan.merged + plan.duplicated}{plan.skipped ? ` · skip ${plan.skipped}` : ''}
+        </button>
+      </motion.div>
+    </div>
+  );
+};
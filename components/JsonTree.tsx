@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+  value: unknown;
+  name?: string;
+  depth?: number;
+  openDepth?: number; // Levels expanded on first render
+}
+
+const Primitive: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null) return <span className="text-stone-400">null</span>;
+  if (typeof value === 'string') return <span className="text-emerald-700 dark:text-emerald-400 break-words">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-sky-700 dark:text-sky-400">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-violet-700 dark:text-violet-400">{String(value)}</span>;
+  return <span>{String(value)}</span>;
+};
+
+// Objects and arrays fold; the summary shows the size while folded
+export const JsonTree: React.FC<JsonTreeProps> = ({ value, name, depth = 0, openDepth = 2 }) => {
+  const [open, setOpen] = useState(depth < openDepth);
+  const label = name !== undefined && <span className="text-stone-500 dark:text-stone-400">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return <div className="pl-4 font-mono text-xs leading-relaxed">{label}<Primitive value={value} /></div>;
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? (value as unknown[]).map((v, i) => [String(i), v] as const) : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div className="font-mono text-xs leading-relaxed">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-0.5 hover:text-stone-900 dark:hover:text-stone-100 text-stone-700 dark:text-stone-300">
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        {label}
+        <span className="text-stone-400">{summary}</span>
+      </button>
+      {open && (
+        <div className="ml-1.5 pl-2 border-l border-stone-200 dark:border-stone-800">
+          {entries.length === 0 ? (
+            <div className="pl-4 text-stone-400 italic">empty</div>
+          ) : entries.map(([key, child]) => (
+            <JsonTree key={key} name={key} value={child} depth={depth + 1} openDepth={openDepth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,19 @@
 import React from 'react';
-import { Home, Feather, Settings, Boxes } from 'lucide-react';
+import { Home, Feather, Settings, Boxes, FlaskConical, Loader2, UserRound } from 'lucide-react';
+import { useStore } from '../store';
 
 interface LayoutProps {
   children: React.ReactNode;
-  activeView: 'library' | 'architect' | 'lab';
-  setActiveView: (view: 'library' | 'architect' | 'lab') => void;
+  activeView: 'library' | 'architect' | 'personas' | 'lab' | 'evaluate';
+  setActiveView: (view: 'library' | 'architect' | 'personas' | 'lab' | 'evaluate') => void;
   toggleSettings: () => void;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveView, toggleSettings }) => {
+  const activeJobs = useStore((state) =>
+    Object.values(state.processingJobs).filter((job) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying').length
+  );
+
   return (
     <div className="min-h-screen flex bg-stone-50 dark:bg-stone-950 text-stone-800 dark:text-stone-200 font-sans selection:bg-amber-100 dark:selection:bg-amber-900 selection:text-amber-900 dark:selection:text-amber-100 transition-colors duration-300">
       {/* Dock / Navigation */}
@@ -31,6 +36,12 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
             onClick={() => setActiveView('architect')}
             icon={<Feather size={22} />}
             label="Architect"
+          />
+          <NavButton 
+            active={activeView === 'personas'} 
+            onClick={() => setActiveView('personas')}
+            icon={<UserRound size={22} />}
+            label="Personas"
           />
            <NavButton 
             active={activeView === 'lab'} 
@@ -38,9 +49,24 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeView, setActiveV
             icon={<Boxes size={22} />}
             label="Lab"
           />
+          <NavButton 
+            active={activeView === 'evaluate'} 
+            onClick={() => setActiveView('evaluate')}
+            icon={<FlaskConical size={22} />}
+            label="Evaluate"
+          />
         </div>
 
-        <div className="mt-auto">
+        <div className="mt-auto flex flex-col items-center gap-4">
+          {activeJobs > 0 && (
+            <div className="group relative p-3 text-amber-600 dark:text-amber-500">
+              <Loader2 size={18} className="animate-spin" />
+              <span className="absolute -top-0.5 -right-0.5 text-[9px] font-bold">{activeJobs}</span>
+              <span className="absolute left-14 top-1/2 -translate-y-1/2 bg-stone-800 dark:bg-stone-200 text-stone-50 dark:text-stone-900 text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Processing {activeJobs} attachment{activeJobs === 1 ? '' : 's'}
+              </span>
+            </div>
+          )}
           <button 
             onClick={toggleSettings}
             className="p-3 rounded-xl hover:bg-stone-100 dark:hover:bg-stone-800 text-stone-400 dark:text-stone-500 hover:text-stone-600 dark:hover:text-stone-300 transition-all duration-300"
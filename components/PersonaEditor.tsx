@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Mic, Loader2, FileText } from 'lucide-react';
+import { useStore } from '../store';
+import { Persona } from '../types';
+import { GeminiService } from '../services/geminiService';
+import { analyzeVoiceFiles } from '../services/personaLibrary';
+import { formatBytes } from '../services/blobStore';
+import { VoiceFingerprint } from './VoiceFingerprint';
+
+interface PersonaEditorProps {
+  persona: Persona;
+  isNew: boolean;
+  onSave: (persona: Persona) => void;
+  onClose: () => void;
+}
+
+const VOICE_ACCEPT = 'audio/*,video/*,image/*,.pdf,.doc,.docx,.odt,.rtf,.epub,.html,.htm,.csv,.txt,.md';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const inputClass = 'w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none';
+
+// Create or edit a library persona. "Analyze Voice" fills the Tenor from files and
+// records them as sources; the store drops originals a saved persona no longer lists.
+export const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, isNew, onSave, onClose }) => {
+  const { personaProvider, personaModel, providerSettings } = useStore();
+  const [draft, setDraft] = useState<Persona>(persona);
+  const [utterances, setUtterances] = useState(persona.sampleUtterances.join('\n'));
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tenor = draft.tenor;
+  const setTenor = (updates: Partial<Persona['tenor']>) => setDraft(prev => ({ ...prev, tenor: { ...prev.tenor, ...updates } }));
+
+  const handleAnalyze = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!files.length) return;
+    setIsAnalyzing(true);
+    try {
+      const { result, sourceFiles } = await analyzeVoiceFiles(new GeminiService(providerSettings), files, { provider: personaProvider, model: personaModel });
+      setDraft(prev => ({
+        ...prev,
+        name: prev.name || result?.data.aiPersona || '',
+        tenor: result ? { ...prev.tenor, ...result.data, voice: result.data.voice } : prev.tenor,
+        sourceFiles: [...prev.sourceFiles, ...sourceFiles]
+      }));
+      // Verbatim excerpts make a good first set of sample utterances
+      if (!utterances.trim() && result?.data.voice?.excerpts.length) setUtterances(result.data.voice.excerpts.join('\n'));
+      setNotice(result?.issues.length ? `The voice analysis did not match the schema: ${result.issues.join('; ')}` : null);
+    } catch (err) {
+      alert(`Could not analyze files: ${(err as Error).message}`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      name: draft.name.trim() || tenor.aiPersona,
+      sampleUtterances: utterances.split('\n').map(line => line.trim()).filter(Boolean)
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-stone-900/20 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white dark:bg-stone-900 dark:text-stone-100 rounded-2xl shadow-2xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto relative border border-stone-100 dark:border-stone-800"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 transition-colors">
+          <X size={20} />
+        </button>
+        <h2 className="text-2xl font-serif mb-6 text-stone-900 dark:text-stone-50">{isNew ? 'New Persona' : 'Edit Persona'}</h2>
+
+        <div className="space-y-4">
+          <Field label="Name">
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={tenor.aiPersona || 'Newsletter voice'} className={inputClass} />
+          </Field>
+          <Field label="Description">
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              rows={3}
+              placeholder="Who this voice belongs to and when to use it..."
+              className={`${inputClass} resize-none`}
+            />
+          </Field>
+
+          <div className="p-4 rounded-xl bg-violet-50 dark:bg-violet-900/10 border border-violet-100 dark:border-violet-900/30 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-violet-900 dark:text-violet-200 uppercase">Tenor</span>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isAnalyzing}
+                className="flex items-center gap-2 bg-violet-600 dark:bg-violet-500 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-violet-700 dark:hover:bg-violet-400 transition-colors disabled:opacity-50"
+              >
+                {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Mic size={14} />}
+                <span>Analyze Voice</span>
+              </button>
+              <input ref={fileInputRef} type="file" multiple accept={VOICE_ACCEPT} className="hidden" onChange={handleAnalyze} />
+            </div>
+            {notice && <p className="text-[10px] text-amber-700 dark:text-amber-400">{notice}</p>}
+            <Field label="AI Persona">
+              <input value={tenor.aiPersona} onChange={(e) => setTenor({ aiPersona: e.target.value })} className={inputClass} />
+            </Field>
+            <Field label="Target Audience">
+              <input
+                value={tenor.targetAudience.join(', ')}
+                onChange={(e) => setTenor({ targetAudience: e.target.value.split(',').map(s => s.trim()) })}
+                placeholder="Beginners, Experts, Kids..."
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Desired Tone">
+              <input value={tenor.desiredTone} onChange={(e) => setTenor({ desiredTone: e.target.value })} className={inputClass} />
+            </Field>
+            <Field label="Interpersonal Stance">
+              <input value={tenor.interpersonalStance} onChange={(e) => setTenor({ interpersonalStance: e.target.value })} className={inputClass} />
+            </Field>
+            {tenor.voice && <VoiceFingerprint voice={tenor.voice} onClear={() => setTenor({ voice: undefined })} />}
+          </div>
+
+          <Field label="Sample Utterances">
+            <textarea
+              value={utterances}
+              onChange={(e) => setUtterances(e.target.value)}
+              rows={4}
+              placeholder="One line each, in the persona's own words"
+              className={`${inputClass} font-serif`}
+            />
+          </Field>
+
+          <div>
+            <span className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase mb-1">Source Files</span>
+            {draft.sourceFiles.length === 0 ? (
+              <p className="text-xs text-stone-400 dark:text-stone-500 italic">None yet. Files passed to Analyze Voice are listed here.</p>
+            ) : (
+              <ul className="space-y-1">
+                {draft.sourceFiles.map((file, idx) => (
+                  <li key={`${file.name}-${idx}`} className="group flex items-center gap-2 text-xs text-stone-600 dark:text-stone-300">
+                    <FileText size={12} className="text-stone-400 shrink-0" />
+                    <span className="flex-1 truncate">{file.name}</span>
+                    <span className="text-[10px] text-stone-400">{file.size !== undefined ? formatBytes(file.size) : ''}{file.blobId ? '' : ' · name only'}</span>
+                    <button
+                      onClick={() => setDraft(prev => ({ ...prev, sourceFiles: prev.sourceFiles.filter((_, i) => i !== idx) }))}
+                      className="opacity-0 group-hover:opacity-100 text-stone-400 hover:text-red-500 transition-all"
+                    >
+                      <X size={12} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-stone-100 dark:border-stone-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim() && !tenor.aiPersona.trim()}
+            className="bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-6 py-2 rounded-full font-medium hover:bg-stone-800 dark:hover:bg-white transition-colors disabled:opacity-40"
+          >
+            {isNew ? 'Add to Library' : 'Save Persona'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
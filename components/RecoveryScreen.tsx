@@ -0,0 +1,83 @@
+import React from 'react';
+import { LifeBuoy, Download, ArrowRight, Trash2 } from 'lucide-react';
+import { useStore } from '../store';
+import { BACKUP_KEY } from '../services/storeMigrations';
+import { downloadText } from '../services/download';
+
+interface RecoveryScreenProps {
+  onContinue: () => void;
+}
+
+// Shown when saved data could not be fully loaded. Nothing here deletes
+// anything until the user explicitly discards it.
+export const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ onContinue }) => {
+  const { prompts, quarantinedPrompts, hydrationError, clearQuarantine } = useStore();
+
+  const handleDownload = () => {
+    const payload = {
+      exportedAt: new Date().toISOString(),
+      hydrationError,
+      rawBackup: localStorage.getItem(BACKUP_KEY),
+      quarantinedPrompts
+    };
+    downloadText(JSON.stringify(payload, null, 2), `sfl-recovery-${Date.now()}.json`, 'application/json');
+  };
+
+  const handleDiscard = () => {
+    if (!confirm('Discard the unreadable data? Download it first if you might need it.')) return;
+    clearQuarantine();
+    onContinue();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-stone-50 dark:bg-stone-950 flex items-center justify-center p-6 transition-colors">
+      <div className="max-w-xl w-full bg-white dark:bg-stone-900 rounded-3xl border border-stone-100 dark:border-stone-800 shadow-xl p-10">
+        <div className="w-14 h-14 bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-500 rounded-full flex items-center justify-center mb-6">
+          <LifeBuoy size={24} />
+        </div>
+        <h1 className="text-3xl font-serif text-stone-900 dark:text-stone-50 mb-2">Some pages could not be read</h1>
+        <p className="text-stone-500 dark:text-stone-400 mb-6 leading-relaxed">
+          {hydrationError
+            ? hydrationError
+            : `${quarantinedPrompts.length} saved narrative${quarantinedPrompts.length === 1 ? '' : 's'} did not match the expected shape and ${quarantinedPrompts.length === 1 ? 'was' : 'were'} set aside.`}
+          {' '}Your other {prompts.length} narrative{prompts.length === 1 ? '' : 's'} loaded normally.
+        </p>
+
+        {quarantinedPrompts.length > 0 && (
+          <ul className="mb-6 max-h-48 overflow-y-auto space-y-2 text-xs">
+            {quarantinedPrompts.map((item, idx) => {
+              const title = (item.raw as { title?: unknown } | null)?.title;
+              return (
+                <li key={idx} className="p-3 rounded-lg bg-stone-50 dark:bg-stone-800 text-stone-600 dark:text-stone-300">
+                  <span className="font-medium">{typeof title === 'string' ? title : `Entry ${idx + 1}`}</span>
+                  <span className="block text-stone-400 dark:text-stone-500 font-mono mt-1">{item.reason}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <button
+            onClick={handleDownload}
+            className="flex items-center justify-center gap-2 py-3 bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 rounded-xl hover:bg-stone-800 dark:hover:bg-white transition-colors"
+          >
+            <Download size={16} /> Download raw data
+          </button>
+          <button
+            onClick={onContinue}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-300 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors"
+          >
+            <ArrowRight size={16} /> Continue and decide later
+          </button>
+          <button
+            onClick={handleDiscard}
+            className="flex items-center justify-center gap-2 py-2 text-xs text-stone-400 hover:text-red-500 transition-colors"
+          >
+            <Trash2 size={12} /> Discard unreadable data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { PROVIDER_LABELS } from '../services/providers/modelProvider';
+import { ProviderId } from '../types';
+
+export const RoleModelSelect: React.FC<{
+  label: string;
+  provider: ProviderId;
+  model: string;
+  availableModels: Record<ProviderId, string[]>;
+  onProviderChange: (provider: ProviderId) => void;
+  onModelChange: (model: string) => void;
+  hint?: string;
+}> = ({ label, provider, model, availableModels, onProviderChange, onModelChange, hint }) => {
+  const models = availableModels[provider];
+  return (
+    <div>
+      <label className="block text-xs text-stone-500 dark:text-stone-400 mb-1">{label}</label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={provider}
+          onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+          className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+        >
+          {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+        </select>
+        {models.length > 0 ? (
+          <select
+            value={model}
+            onChange={(e) => onModelChange(e.target.value)}
+            className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+          >
+            {!models.includes(model) && <option value={model}>{model || 'Select a model...'}</option>}
+            {models.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        ) : (
+          // No listing available (e.g. endpoint offline): allow typing the model name
+          <input
+            value={model}
+            onChange={(e) => onModelChange(e.target.value)}
+            placeholder="Model name"
+            className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+          />
+        )}
+      </div>
+      {hint && <p className="text-[10px] text-stone-400 mt-1">{hint}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, Loader2 } from 'lucide-react';
+import { useStore } from '../store';
+import { collectGarbage, formatBytes, getStorageReport, LOCAL_STORAGE_LIMIT, StorageReport } from '../services/blobStore';
+
+// Preferences section reporting how much space the saved library and stored attachment originals take
+export const StorageUsage: React.FC = () => {
+  const { prompts, personas } = useStore();
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = () => {
+    getStorageReport()
+      .then(r => { setReport(r); setError(null); })
+      .catch(e => setError((e as Error).message));
+  };
+
+  useEffect(refresh, []);
+
+  const handleCleanup = async () => {
+    setIsCleaning(true);
+    try {
+      const removed = await collectGarbage(prompts, personas);
+      setNotice(removed ? `Removed ${removed} unused file${removed === 1 ? '' : 's'}.` : 'Nothing to clean up.');
+      refresh();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const share = report?.usage !== undefined && report.quota ? Math.min(1, report.usage / report.quota) : null;
+  const libraryShare = report ? Math.min(1, report.libraryChars / LOCAL_STORAGE_LIMIT) : 0;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <HardDrive size={16} className="text-stone-400"/>
+        <label className="block text-xs font-bold text-stone-500 dark:text-stone-400 uppercase">Storage</label>
+      </div>
+      <div className="text-sm text-stone-500 dark:text-stone-400 bg-stone-50 dark:bg-stone-800 p-3 rounded-lg border border-stone-100 dark:border-stone-700 space-y-2">
+        {error ? (
+          <p className="text-red-500 text-xs">{error}</p>
+        ) : !report ? (
+          <p className="text-xs">Measuring…</p>
+        ) : (
+          <>
+            <div>
+              <p>Library · {formatBytes(report.libraryChars)} of about {formatBytes(LOCAL_STORAGE_LIMIT)}</p>
+              <div className="h-1.5 mt-1 bg-stone-200 dark:bg-stone-700 rounded-full overflow-hidden">
+                <div className={`h-full ${libraryShare > 0.8 ? 'bg-red-500' : 'bg-stone-500'}`} style={{ width: `${Math.max(libraryShare * 100, 1)}%` }} />
+              </div>
+              <p className="text-[10px] text-stone-400 mt-1">
+                Narratives, versions, analyses and chat sessions. Saving stops when this is full.
+              </p>
+            </div>
+            <p>
+              {report.blobCount} original{report.blobCount === 1 ? '' : 's'} · {formatBytes(report.blobBytes)}
+            </p>
+            {share !== null && (
+              <div>
+                <div className="h-1.5 bg-stone-200 dark:bg-stone-700 rounded-full overflow-hidden">
+                  <div className={`h-full ${share > 0.9 ? 'bg-red-500' : 'bg-stone-500'}`} style={{ width: `${Math.max(share * 100, 1)}%` }} />
+                </div>
+                <p className="text-[10px] text-stone-400 mt-1">
+                  {formatBytes(report.usage!)} of {formatBytes(report.quota!)} available to this site
+                </p>
+              </div>
+            )}
+          </>
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-stone-400">{notice}</span>
+          <button
+            onClick={handleCleanup}
+            disabled={isCleaning || !!error}
+            title="Removes originals that no saved narrative uses, including uploads in unsaved drafts"
+            className="text-xs text-stone-600 dark:text-stone-300 hover:text-stone-900 dark:hover:text-white flex items-center gap-1 disabled:opacity-50"
+          >
+            {isCleaning && <Loader2 size={10} className="animate-spin" />}
+            Clean up unused files
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Quote } from 'lucide-react';
+import { StructuredAnalysis } from '../types';
+import { CitableUnit, citableUnits, formatTimestamp } from '../services/structuredAnalysis';
+
+interface StructuredAnalysisViewProps {
+  structured: StructuredAnalysis;
+  analysis?: string; // Holds the text of outline sections stored as offsets
+  citations: string[];
+  onToggleCitation: (unitId: string) => void;
+}
+
+// Rows shown before "Show all"
+const PREVIEW_ROWS = 4;
+
+const CiteToggle: React.FC<{ unit: CitableUnit; cited: boolean; onToggle: () => void }> = ({ unit, cited, onToggle }) => (
+  <button
+    onClick={onToggle}
+    title={cited ? `Stop citing ${unit.id}` : `Cite ${unit.id} in the prompt`}
+    className={`shrink-0 font-mono text-[9px] px-1 rounded border transition-colors ${cited ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' : 'border-stone-200 dark:border-stone-700 text-stone-400 hover:border-amber-400'}`}
+  >
+    {unit.id}
+  </button>
+);
+
+// Transcript segments, image text and objects, or a document outline. Every unit
+// can be ticked for citation; cited units are what 'cited' inclusion compiles.
+export const StructuredAnalysisView: React.FC<StructuredAnalysisViewProps> = ({ structured, analysis, citations, onToggleCitation }) => {
+  const [expanded, setExpanded] = useState(false);
+  const units = citableUnits(structured, analysis);
+  const cited = new Set(citations);
+  const visible = <T,>(rows: T[]) => expanded ? rows : rows.slice(0, PREVIEW_ROWS);
+
+  const rowCount = structured.kind === 'image' ? Math.max(structured.text.length, 1) : units.length;
+
+  return (
+    <div className="mt-2 text-xs text-stone-600 dark:text-stone-300">
+      {structured.kind === 'transcript' && (
+        <ol className="space-y-1">
+          {visible(structured.segments).map((segment, idx) => (
+            <li key={units[idx].id} className="flex items-start gap-2">
+              <CiteToggle unit={units[idx]} cited={cited.has(units[idx].id)} onToggle={() => onToggleCitation(units[idx].id)} />
+              <span className="font-mono text-[10px] text-stone-400 dark:text-stone-500 whitespace-nowrap pt-px">{formatTimestamp(segment.start)}</span>
+              <span className="min-w-0">
+                {segment.speaker && <span className="font-medium text-stone-800 dark:text-stone-200">{segment.speaker}: </span>}
+                {segment.text}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {structured.kind === 'image' && (
+        <div className="space-y-2">
+          {structured.caption && <p className="italic text-stone-500 dark:text-stone-400">{structured.caption}</p>}
+          {structured.text.length > 0 && (
+            <ul className="space-y-1">
+              {visible(units.filter(u => u.id.startsWith('T'))).map(unit => (
+                <li key={unit.id} className="flex items-start gap-2">
+                  <CiteToggle unit={unit} cited={cited.has(unit.id)} onToggle={() => onToggleCitation(unit.id)} />
+                  <span className="font-mono text-[11px] min-w-0">{unit.text}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {structured.objects.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {units.filter(u => u.id.startsWith('O')).map((unit, idx) => (
+                <button
+                  key={unit.id}
+                  onClick={() => onToggleCitation(unit.id)}
+                  title={structured.objects[idx].description || unit.id}
+                  className={`px-2 py-0.5 rounded-full border text-[10px] transition-colors ${cited.has(unit.id) ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' : 'border-stone-200 dark:border-stone-700 text-stone-500 dark:text-stone-400 hover:border-amber-400'}`}
+                >
+                  {structured.objects[idx].label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {structured.kind === 'outline' && (
+        <ul className="space-y-1">
+          {visible(structured.sections).map((section, idx) => (
+            <li key={units[idx].id} className="flex items-start gap-2" style={{ paddingLeft: `${(Math.max(section.level, 1) - 1) * 12}px` }}>
+              <CiteToggle unit={units[idx]} cited={cited.has(units[idx].id)} onToggle={() => onToggleCitation(units[idx].id)} />
+              <span className="min-w-0">
+                <span className="font-medium text-stone-800 dark:text-stone-200">{section.heading}</span>
+                {section.page !== undefined && <span className="text-[10px] text-stone-400 dark:text-stone-500"> · p. {section.page}</span>}
+                {units[idx].text && <span className="block text-stone-500 dark:text-stone-400 line-clamp-2">{units[idx].text}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between mt-1 text-[10px] text-stone-400 dark:text-stone-500">
+        {rowCount > PREVIEW_ROWS ? (
+          <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-1 hover:text-stone-700 dark:hover:text-stone-200">
+            {expanded ? <ChevronUp size={10} /> : <ChevronDown size={10} />}
+            {expanded ? 'Show less' : `Show all ${rowCount}`}
+          </button>
+        ) : <span />}
+        {citations.length > 0 && (
+          <span className="flex items-center gap-1 text-amber-700 dark:text-amber-500">
+            <Quote size={10} /> {citations.length} cited
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
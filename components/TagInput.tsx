@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { normalizeTags } from '../services/librarySearch';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({ tags, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    if (!draft.trim()) return;
+    onChange(normalizeTags([...tags, ...draft.split(',')]));
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <Tag size={12} className="text-stone-400 dark:text-stone-500" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-xs px-2 py-0.5 bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-300 rounded-full">
+          {tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-stone-400 hover:text-red-500 transition-colors">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); commit(); }
+          else if (e.key === 'Backspace' && !draft && tags.length) onChange(tags.slice(0, -1));
+        }}
+        onBlur={commit}
+        placeholder={tags.length ? '' : 'Add tags...'}
+        className="bg-transparent text-xs text-stone-600 dark:text-stone-300 focus:outline-none min-w-[6rem] flex-1 placeholder-stone-400 dark:placeholder-stone-600"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Braces } from 'lucide-react';
+import { PromptVariable } from '../types';
+
+interface VariableInputsProps {
+  variables: PromptVariable[];
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  onVariablesChange?: (variables: PromptVariable[]) => void; // Omit to hide type/required/default editing
+}
+
+export const VariableInputs: React.FC<VariableInputsProps> = ({ variables, values, onValuesChange, onVariablesChange }) => {
+  if (variables.length === 0) return null;
+
+  const updateVariable = (name: string, updates: Partial<PromptVariable>) =>
+    onVariablesChange?.(variables.map(v => v.name === name ? { ...v, ...updates } : v));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase">
+        <Braces size={12} /> Runtime Inputs
+      </div>
+      {variables.map(variable => {
+        const inputClass = "w-full bg-stone-50 dark:bg-stone-950 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none focus:ring-1 focus:ring-amber-500";
+        const placeholder = variable.defaultValue ? `Default: ${variable.defaultValue}` : variable.required ? 'Required' : 'Optional';
+        return (
+          <div key={variable.name}>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs font-mono text-stone-600 dark:text-stone-300">
+                {`{{${variable.name}}}`}{variable.required && <span className="text-amber-600 ml-0.5">*</span>}
+              </label>
+              {onVariablesChange && (
+                <div className="flex items-center gap-2 text-[10px] text-stone-400 dark:text-stone-500">
+                  <select
+                    value={variable.type}
+                    onChange={(e) => updateVariable(variable.name, { type: e.target.value as PromptVariable['type'] })}
+                    className="bg-transparent focus:outline-none cursor-pointer"
+                  >
+                    <option value="text">text</option>
+                    <option value="multiline">multiline</option>
+                    <option value="number">number</option>
+                  </select>
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={variable.required}
+                      onChange={(e) => updateVariable(variable.name, { required: e.target.checked })}
+                    />
+                    required
+                  </label>
+                </div>
+              )}
+            </div>
+            {variable.type === 'multiline' ? (
+              <textarea
+                value={values[variable.name] || ''}
+                onChange={(e) => onValuesChange({ ...values, [variable.name]: e.target.value })}
+                placeholder={placeholder}
+                rows={3}
+                className={`${inputClass} resize-y`}
+              />
+            ) : (
+              <input
+                type={variable.type === 'number' ? 'number' : 'text'}
+                value={values[variable.name] || ''}
+                onChange={(e) => onValuesChange({ ...values, [variable.name]: e.target.value })}
+                placeholder={placeholder}
+                className={inputClass}
+              />
+            )}
+            {onVariablesChange && (
+              <input
+                value={variable.defaultValue || ''}
+                onChange={(e) => updateVariable(variable.name, { defaultValue: e.target.value || undefined })}
+                placeholder="Default value (saved with the narrative)"
+                className="mt-1 w-full bg-transparent text-[10px] text-stone-400 dark:text-stone-500 focus:outline-none border-b border-dashed border-stone-200 dark:border-stone-800"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, RotateCcw, GitBranch, X } from 'lucide-react';
+import { PromptVersion } from '../types';
+import { compileSFLPrompt } from '../services/compileTargets';
+import { diffLines, diffWords, hasChanges } from '../services/diff';
+import { DiffView } from './DiffView';
+
+type Snapshot = Omit<PromptVersion, 'id' | 'savedAt'>;
+
+interface VersionHistoryProps {
+  versions: PromptVersion[];
+  current: Snapshot;
+  onRestore: (versionId: string) => void;
+  onFork: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const SLOTS: { section: string; label: string; read: (s: Snapshot) => string }[] = [
+  { section: 'Title', label: 'Title', read: s => s.title },
+  { section: 'Title', label: 'Description', read: s => s.description },
+  { section: 'Title', label: 'Tags', read: s => (s.tags || []).join(', ') },
+  { section: 'Field', label: 'Topic', read: s => s.sflField.topic },
+  { section: 'Field', label: 'Task Type', read: s => s.sflField.taskType },
+  { section: 'Field', label: 'Domain Specifics', read: s => s.sflField.domainSpecifics },
+  { section: 'Field', label: 'Keywords', read: s => s.sflField.keywords },
+  { section: 'Field', label: 'Attachments', read: s => (s.attachments || []).map(a => a.name).join(', ') },
+  { section: 'Tenor', label: 'AI Persona', read: s => s.sflTenor.aiPersona },
+  { section: 'Tenor', label: 'Target Audience', read: s => s.sflTenor.targetAudience.join(', ') },
+  { section: 'Tenor', label: 'Desired Tone', read: s => s.sflTenor.desiredTone },
+  { section: 'Tenor', label: 'Interpersonal Stance', read: s => s.sflTenor.interpersonalStance },
+  { section: 'Mode', label: 'Output Format', read: s => s.sflMode.outputFormat },
+  { section: 'Mode', label: 'Rhetorical Structure', read: s => s.sflMode.rhetoricalStructure },
+  { section: 'Mode', label: 'Length Constraint', read: s => s.sflMode.lengthConstraint },
+  { section: 'Mode', label: 'Textual Directives', read: s => s.sflMode.textualDirectives },
+  { section: 'Mode', label: 'Variables', read: s => (s.variables || []).map(v => v.name).join(', ') },
+  { section: 'Mode', label: 'Compile Target', read: s => s.compileTarget || 'markdown' },
+  { section: 'Examples', label: 'Examples', read: s => (s.examples || []).map(e => [e.input, e.output].filter(Boolean).join(' → ')).join('\n') },
+];
+
+const compiledOf = (s: Snapshot) =>
+  s.compiledPrompt ?? compileSFLPrompt(s.sflField, s.sflTenor, s.sflMode, s.attachments, s.examples);
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, current, onRestore, onFork, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(versions[0]?.id || null);
+  const selected = versions.find(v => v.id === selectedId) || null;
+
+  const slotDiffs = selected
+    ? SLOTS.map(slot => ({ ...slot, ops: diffWords(slot.read(selected), slot.read(current)) })).filter(d => hasChanges(d.ops))
+    : [];
+  const compiledOps = selected ? diffLines(compiledOf(selected), compiledOf(current)) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="absolute inset-0 z-30 bg-white dark:bg-stone-900 flex flex-col transition-colors"
+    >
+      <div className="p-4 border-b border-stone-100 dark:border-stone-800 bg-stone-50/50 dark:bg-stone-950/30 flex justify-between items-center">
+        <span className="text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase flex items-center gap-2">
+          <History size={14} /> Chronicle
+        </span>
+        <button onClick={onClose} className="p-1 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200 transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      {versions.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-stone-300 dark:text-stone-700 italic p-6 text-center">
+          <History size={24} className="mb-2 opacity-50" />
+          <span>No earlier drafts yet. Each save records the previous wording here.</span>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col overflow-hidden">
+          {/* Timeline */}
+          <div className="max-h-48 overflow-y-auto border-b border-stone-100 dark:border-stone-800 p-2">
+            {versions.map((v, idx) => (
+              <button
+                key={v.id}
+                onClick={() => setSelectedId(v.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm flex justify-between items-center transition-colors ${v.id === selectedId ? 'bg-stone-100 dark:bg-stone-800 text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800/50'}`}
+              >
+                <span className="truncate font-serif">{v.title}</span>
+                <span className="text-[10px] text-stone-400 dark:text-stone-500 whitespace-nowrap ml-2">
+                  v{versions.length - idx} · {new Date(v.savedAt).toLocaleString()}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <>
+              <div className="px-4 py-3 flex gap-2 border-b border-stone-100 dark:border-stone-800">
+                <button
+                  onClick={() => onRestore(selected.id)}
+                  className="text-xs flex items-center gap-1 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-3 py-1 rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors"
+                >
+                  <RotateCcw size={12} /> Restore
+                </button>
+                <button
+                  onClick={() => onFork(selected.id)}
+                  className="text-xs flex items-center gap-1 bg-violet-50 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400 px-3 py-1 rounded-full hover:bg-violet-100 dark:hover:bg-violet-900/50 transition-colors"
+                >
+                  <GitBranch size={12} /> Fork as new narrative
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                <div>
+                  <h4 className="text-xs font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-3">Changes since this draft</h4>
+                  {slotDiffs.length === 0 ? (
+                    <p className="text-xs text-stone-400 italic">Identical to the current draft.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {slotDiffs.map(d => (
+                        <div key={d.label}>
+                          <span className="text-[10px] uppercase tracking-wide text-stone-400 dark:text-stone-500">{d.section} · {d.label}</span>
+                          <DiffView ops={d.ops} className="text-sm font-serif text-stone-700 dark:text-stone-300" />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-xs font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest mb-3">Compiled Manuscript</h4>
+                  <DiffView ops={compiledOps} className="font-mono text-xs leading-relaxed text-stone-600 dark:text-stone-400 bg-stone-50 dark:bg-stone-950 p-3 rounded-lg" />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Fingerprint, Quote, X } from 'lucide-react';
+import { VoiceProfile } from '../types';
+import { formalityLabel } from '../services/stylometry';
+
+interface VoiceFingerprintProps {
+  voice: VoiceProfile;
+  onClear?: () => void;
+}
+
+// Read-only summary of a voice profile; the compiled Tenor carries the same details
+export const VoiceFingerprint: React.FC<VoiceFingerprintProps> = ({ voice, onClear }) => (
+  <div className="p-4 rounded-xl border border-violet-100 dark:border-violet-900/30 text-xs text-stone-600 dark:text-stone-300 space-y-3">
+    <div className="flex items-center justify-between">
+      <span className="flex items-center gap-2 font-bold uppercase tracking-widest text-[10px] text-violet-700 dark:text-violet-400">
+        <Fingerprint size={12} /> Voice Fingerprint
+      </span>
+      {onClear && (
+        <button onClick={onClear} title="Remove the fingerprint from this Tenor" className="text-stone-400 hover:text-red-500 transition-colors">
+          <X size={12} />
+        </button>
+      )}
+    </div>
+
+    <div>
+      <div className="flex justify-between text-[10px] text-stone-400 dark:text-stone-500 mb-1">
+        <span>Casual</span>
+        <span>{voice.formality.toFixed(2)} · {formalityLabel(voice.formality)}</span>
+        <span>Formal</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-stone-100 dark:bg-stone-800 overflow-hidden">
+        <div className="h-full bg-violet-500" style={{ width: `${Math.round(voice.formality * 100)}%` }} />
+      </div>
+    </div>
+
+    {voice.sentenceLength && (
+      <p>
+        Sentences average <strong>{voice.sentenceLength.mean}</strong> words
+        (median {voice.sentenceLength.median}, ±{voice.sentenceLength.stdDev}, {voice.sentenceLength.min}–{voice.sentenceLength.max})
+        {voice.wordCount !== undefined && <span className="text-stone-400 dark:text-stone-500"> · measured on {voice.wordCount.toLocaleString()} words</span>}
+      </p>
+    )}
+
+    {voice.lexicalHabits.length > 0 && (
+      <ul className="list-disc ml-4 space-y-0.5">
+        {voice.lexicalHabits.map(habit => <li key={habit}>{habit}</li>)}
+      </ul>
+    )}
+
+    {voice.signaturePhrases.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {voice.signaturePhrases.map(phrase => (
+          <span key={phrase} className="px-2 py-0.5 rounded-full bg-violet-50 dark:bg-violet-900/20 text-violet-700 dark:text-violet-300">“{phrase}”</span>
+        ))}
+      </div>
+    )}
+
+    {voice.excerpts.map(excerpt => (
+      <p key={excerpt} className="flex gap-2 italic font-serif text-stone-500 dark:text-stone-400">
+        <Quote size={10} className="shrink-0 mt-1" />
+        <span>{excerpt}</span>
+      </p>
+    ))}
+  </div>
+);
@@ -1,19 +1,45 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Sparkles, Play, Save, ChevronLeft, RefreshCw, Paperclip, FileText, Image as ImageIcon, Video, Music, X, Loader2, Mic } from 'lucide-react';
+import { Sparkles, Play, Save, ChevronLeft, RefreshCw, Paperclip, FileText, Image as ImageIcon, Video, Music, X, Loader2, Mic, History, AlertTriangle, Columns2, RotateCw, SlidersHorizontal, UserRound, Undo2, BookmarkPlus, MessagesSquare, ChevronDown, ChevronRight, Braces, CheckCircle2 } from 'lucide-react';
 import { useStore } from '../store';
-import { GeminiService, compileSFLPrompt } from '../services/geminiService';
-import { PromptSFL, SFLField, SFLTenor, SFLMode, Attachment, DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE } from '../types';
+import { GeminiService } from '../services/geminiService';
+import { COMPILERS, compilePrompt } from '../services/compileTargets';
+import { PromptSFL, SFLField, SFLTenor, SFLMode, Persona, PersonaSourceFile, Attachment, AttachmentInclusion, AnalysisProfile, PromptVariable, PromptExample, GenerationConfig, CompileTargetId, DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { VersionHistory } from '../components/VersionHistory';
+import { VariableInputs } from '../components/VariableInputs';
+import { ComparisonView } from '../components/ComparisonView';
+import { ChatConsole } from '../components/ChatConsole';
+import { TagInput } from '../components/TagInput';
+import { BudgetMeter } from '../components/BudgetMeter';
+import { deleteBlobs, getBlob, putBlob, referencedBlobIds } from '../services/blobStore';
+import { budgetReport, formatTokens } from '../services/tokenBudget';
+import { attachmentCosts } from '../services/attachmentChunks';
+import { applyJobToAttachment } from '../services/attachmentProcessing';
+import { mediaKindOf } from '../services/analysisProfiles';
+import { localFormatOf } from '../services/documentExtraction';
+import { AnalysisProfileEditor } from '../components/AnalysisProfileEditor';
+import { StructuredAnalysisView } from '../components/StructuredAnalysisView';
+import { bindVariables, detectVariables, MissingVariablesError } from '../services/templateVariables';
+import { analyzeVoiceFiles, createPersona, sameTenor } from '../services/personaLibrary';
+import { PersonaEditor } from '../components/PersonaEditor';
+import { VoiceFingerprint } from '../components/VoiceFingerprint';
+import { ExamplesEditor } from '../components/ExamplesEditor';
+import { GenerationConfigEditor } from '../components/GenerationConfigEditor';
+import { isEmptyGenerationConfig, sanitizeGenerationConfig } from '../services/generationConfig';
+import { EXAMPLE_RESPONSE_SCHEMA, checkStructuredOutput, parseResponseSchema, requestConfigFor, uncheckedKeywords } from '../services/structuredOutput';
+import { JsonSchema, formatIssue } from '../services/jsonSchema';
+import { JsonTree } from '../components/JsonTree';
 
 interface ArchitectProps {
   promptId: string | null;
   onClose: () => void;
+  onOpenPrompt?: (id: string) => void;
 }
 
-type Phase = 'intent' | 'context' | 'persona' | 'structure';
+type Phase = 'intent' | 'context' | 'persona' | 'structure' | 'examples';
 
 const PERSONA_PRESETS = [
   'Helpful Assistant',
@@ -27,8 +53,26 @@ const PERSONA_PRESETS = [
   'Marketing Copywriter'
 ];
 
-export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
-  const { prompts, addPrompt, updatePrompt, primaryModel, personaModel } = useStore();
+const INCLUSION_OPTIONS: { value: AttachmentInclusion; label: string; hint: string }[] = [
+  { value: 'full', label: 'Full', hint: 'Include the whole analysis' },
+  { value: 'summary', label: 'Summary', hint: 'Include the per-part summaries' },
+  { value: 'relevant', label: 'Relevant', hint: 'Include only the parts that best match the topic and keywords' },
+  { value: 'cited', label: 'Cited', hint: 'Include only the segments ticked below' }
+];
+
+const inclusionOptions = (att: Attachment) => INCLUSION_OPTIONS.filter(option =>
+  option.value === 'full' ||
+  (option.value === 'cited' ? !!att.structured : !!att.chunks));
+
+export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose, onOpenPrompt }) => {
+  const {
+    prompts, addPrompt, savePromptRevision, restorePromptVersion,
+    primaryModel, primaryProvider, personaModel, personaProvider, providerSettings,
+    processingJobs, enqueueAttachment, cancelAttachmentProcessing, releaseProcessingJobs, analysisProfiles,
+    personas, addPersona, updatePersona, generationDefaults
+  } = useStore();
+  const primaryTarget = { provider: primaryProvider, model: primaryModel };
+  const personaTarget = { provider: personaProvider, model: personaModel };
   
   // State
   const [activePhase, setActivePhase] = useState<Phase>(promptId ? 'context' : 'intent');
@@ -41,10 +85,29 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
   const [tenor, setTenor] = useState<SFLTenor>(DEFAULT_TENOR);
   const [mode, setMode] = useState<SFLMode>(DEFAULT_MODE);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  const [examples, setExamples] = useState<PromptExample[]>([]);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>({});
+  const [showGeneration, setShowGeneration] = useState(false);
+  const [responseSchema, setResponseSchema] = useState('');
+  const [variableInputs, setVariableInputs] = useState<Record<string, string>>({});
+  const [compileTarget, setCompileTarget] = useState<CompileTargetId>('markdown');
+  const [tags, setTags] = useState<string[]>([]);
+  const [personaId, setPersonaId] = useState<string | undefined>(undefined);
+  // Files analyzed in this session, offered as sources when the voice is saved to the library
+  const [voiceSources, setVoiceSources] = useState<PersonaSourceFile[]>([]);
+  const [personaDraft, setPersonaDraft] = useState<Persona | null>(null);
   
   const [testResponse, setTestResponse] = useState<string>('');
   const [isTesting, setIsTesting] = useState(false);
+  // Error text shown in the Oracle is not worth keeping as an example
+  const [testFailed, setTestFailed] = useState(false);
   const [isAnalyzingPersona, setIsAnalyzingPersona] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [profileEditor, setProfileEditor] = useState<{ id: string; profile: AnalysisProfile } | null>(null);
+  const [schemaNotice, setSchemaNotice] = useState<{ source: string; issues: string[]; repaired: boolean } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const personaFileInputRef = useRef<HTMLInputElement>(null);
@@ -59,13 +122,71 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
         setTenor(existing.sflTenor);
         setMode(existing.sflMode);
         setAttachments(existing.attachments || []);
+        setVariables(existing.variables || []);
+        setExamples(existing.examples || []);
+        setGenerationConfig(existing.generationConfig || {});
+        setResponseSchema(existing.responseSchema || '');
+        setCompileTarget(existing.compileTarget || 'markdown');
+        setTags(existing.tags || []);
+        setPersonaId(existing.personaId);
         setActivePhase('context');
       }
     }
-  }, [promptId, prompts]);
+    // Reload on a new revision only; background writes such as finished attachments keep updatedAt
+  }, [promptId, prompts.find(p => p.id === promptId)?.updatedAt]);
+
+  // Mirror background processing onto the draft's attachments, then let the store forget
+  // finished jobs. A result already written back to the saved narrative is read from there.
+  useEffect(() => {
+    const savedAttachments = prompts.find(p => p.id === promptId)?.attachments || [];
+    setAttachments(prev => {
+      const next = prev.map(a => {
+        const job = processingJobs[a.id];
+        if (!job) return a;
+        if (job.status === 'done' && !job.result) return savedAttachments.find(s => s.id === a.id) ?? a;
+        return applyJobToAttachment(a, job);
+      });
+      return next.some((a, idx) => a !== prev[idx]) ? next : prev;
+    });
+    const applied = attachments.filter(a => processingJobs[a.id]).map(a => a.id);
+    if (applied.length) releaseProcessingJobs(applied);
+  }, [processingJobs]);
+
+  // Closing without saving leaves nothing to write results to
+  useEffect(() => () => {
+    const state = useStore.getState();
+    const saved = new Set(state.prompts.flatMap(p => (p.attachments || []).map(a => a.id)));
+    const orphaned = Object.keys(state.processingJobs).filter(id => !saved.has(id));
+    orphaned.forEach(id => state.cancelAttachmentProcessing(id));
+    state.releaseProcessingJobs(Object.keys(useStore.getState().processingJobs));
+  }, []);
+
+  // Keep the variable list in step with the {{placeholders}} in the SFL slots
+  useEffect(() => {
+    setVariables(prev => detectVariables({ field, tenor, mode }, prev));
+  }, [field, tenor, mode]);
+
+  const existingPrompt = promptId ? prompts.find(p => p.id === promptId) : undefined;
+
+  const manuscript = compilePrompt(compileTarget, field, tenor, mode, attachments, examples).text;
+  const budget = budgetReport(manuscript, attachmentCosts(attachments, field), primaryModel);
+
+  // Structured output: the schema is checked as it is typed, and the Oracle's answer against it
+  let parsedSchema: JsonSchema | null = null;
+  let schemaError: string | null = null;
+  if (responseSchema.trim()) {
+    try {
+      parsedSchema = parseResponseSchema(responseSchema);
+    } catch (e) {
+      schemaError = (e as Error).message;
+    }
+  }
+  const structuredResult = parsedSchema && testResponse && !isTesting && !testFailed
+    ? checkStructuredOutput(testResponse, parsedSchema)
+    : null;
 
   // AI Service
-  const gemini = new GeminiService();
+  const gemini = new GeminiService(providerSettings);
 
   // Handlers
   const handleAutoGenerate = async () => {
@@ -73,12 +194,13 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
     setIsGenerating(true);
     try {
       // Use Primary Model for SFL Generation
-      const result = await gemini.generateSFLFromGoal(goal, primaryModel);
+      const result = await gemini.generateSFLFromGoal(goal, primaryTarget);
       if (result) {
-        setTitle(result.title);
-        setField(result.field);
-        setTenor(result.tenor);
-        setMode(result.mode);
+        setTitle(result.data.title);
+        setField(result.data.field);
+        setTenor(result.data.tenor);
+        setMode(result.data.mode);
+        setSchemaNotice(result.issues.length ? { source: 'Generated structure', ...result } : null);
         setActivePhase('context');
       }
     } catch (e) {
@@ -92,30 +214,79 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
     const promptData: PromptSFL = {
       id: promptId || uuidv4(),
       title,
-      description: goal || field.topic,
-      createdAt: Date.now(),
+      description: goal || existingPrompt?.description || field.topic,
+      createdAt: existingPrompt?.createdAt ?? Date.now(),
       updatedAt: Date.now(),
       sflField: field,
       sflTenor: tenor,
       sflMode: mode,
       attachments,
-      compiledPrompt: compileSFLPrompt(field, tenor, mode, attachments)
+      examples,
+      compiledPrompt: manuscript,
+      compileTarget,
+      generationConfig: isEmptyGenerationConfig(generationConfig) ? undefined : sanitizeGenerationConfig(generationConfig),
+      responseSchema: responseSchema.trim() ? responseSchema : undefined,
+      variables,
+      tags,
+      personaId
     };
 
     if (promptId) {
-      updatePrompt(promptId, promptData);
+      // Snapshots the previous wording into the version timeline
+      savePromptRevision(promptId, promptData);
     } else {
       addPrompt(promptData);
     }
     onClose();
   };
 
+  const handleRestoreVersion = (versionId: string) => {
+    if (!promptId) return;
+    restorePromptVersion(promptId, versionId);
+  };
+
+  const handleForkVersion = (versionId: string) => {
+    const version = existingPrompt?.versions?.find(v => v.id === versionId);
+    if (!version) return;
+    const fork: PromptSFL = {
+      id: uuidv4(),
+      title: `${version.title} (Fork)`,
+      description: version.description,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      sflField: version.sflField,
+      sflTenor: version.sflTenor,
+      sflMode: version.sflMode,
+      attachments: version.attachments,
+      examples: version.examples,
+      compiledPrompt: version.compiledPrompt,
+      // Versions saved before these were recorded fall back to the narrative as it is now
+      compileTarget: version.compileTarget ?? existingPrompt?.compileTarget,
+      tags: version.tags ?? existingPrompt?.tags,
+      variables: version.variables ?? existingPrompt?.variables,
+      // Settings outside the version carry over from the narrative as it is now
+      personaId: existingPrompt?.personaId,
+      generationConfig: existingPrompt?.generationConfig,
+      responseSchema: existingPrompt?.responseSchema
+    };
+    addPrompt(fork);
+    setShowHistory(false);
+    onOpenPrompt?.(fork.id);
+  };
+
   const handleTest = async () => {
     setIsTesting(true);
-    const compiled = compileSFLPrompt(field, tenor, mode, attachments);
+    setTestFailed(false);
     try {
+      const bound = bindVariables({ field, tenor, mode }, variables, variableInputs);
+      const compiled = compilePrompt(compileTarget, bound.field, bound.tenor, bound.mode, attachments, examples);
+      const report = budgetReport(compiled.text, attachmentCosts(attachments, bound.field), primaryModel);
+      if (report.status === 'over' && !confirm(
+        `The prompt is about ${formatTokens(report.promptTokens)} tokens, more than ${primaryModel} can take (${formatTokens(report.usable)}). The call will probably fail. Invoke anyway?`
+      )) return;
       // Stream simulation for better UX using Primary Model
-      const stream = gemini.executePromptStream(compiled, primaryModel);
+      const config = requestConfigFor(generationDefaults, { generationConfig, responseSchema });
+      const stream = gemini.executePromptStream(compiled.prompt, primaryTarget, compiled.system, config);
       let fullText = '';
       setTestResponse('');
       for await (const chunk of stream) {
@@ -123,12 +294,43 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
         setTestResponse(prev => prev + chunk);
       }
     } catch (e) {
-      setTestResponse(`Error executing prompt: ${(e as Error).message}`);
+      setTestFailed(true);
+      if (e instanceof MissingVariablesError) {
+        setTestResponse(`Cannot compile the narrative. ${e.message}`);
+      } else {
+        setTestResponse(`Error executing prompt: ${(e as Error).message}`);
+      }
     } finally {
       setIsTesting(false);
     }
   };
 
+  // The test run's inputs become the example's input, so the pair reads as a whole
+  const keepAsExample = () => {
+    const input = variables
+      .map(v => ({ name: v.name, value: variableInputs[v.name] ?? v.defaultValue ?? '' }))
+      .filter(v => v.value.trim())
+      .map(v => `${v.name}: ${v.value}`)
+      .join('\n');
+    setExamples(prev => [...prev, { id: uuidv4(), input: input || undefined, output: testResponse.trim() }]);
+    setActivePhase('examples');
+  };
+
+  const setInclusion = (id: string, inclusion: AttachmentInclusion) => {
+    setAttachments(prev => prev.map(a => a.id === id ? { ...a, inclusion } : a));
+  };
+
+  // Ticking the first unit switches the attachment to 'cited'; clearing the last switches it back
+  const toggleCitation = (id: string, unitId: string) => {
+    setAttachments(prev => prev.map(a => {
+      if (a.id !== id) return a;
+      const current = a.citations || [];
+      const citations = current.includes(unitId) ? current.filter(c => c !== unitId) : [...current, unitId];
+      if (citations.length) return { ...a, citations, inclusion: 'cited' };
+      return { ...a, citations: undefined, inclusion: a.inclusion === 'cited' ? (a.chunks ? 'relevant' : undefined) : a.inclusion };
+    }));
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length) return;
     const files: File[] = Array.from(e.target.files);
@@ -140,37 +342,66 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
       else if (file.type.startsWith('video/')) type = 'video';
       else if (file.type.startsWith('image/')) type = 'image';
       else if (file.type === 'application/pdf') type = 'pdf';
-      else if (file.type.includes('wordprocessingml') || file.type.includes('text/') || file.type.includes('json') || file.name.endsWith('.md')) type = 'text';
+      else if (file.type.includes('wordprocessingml') || file.type.includes('text/') || file.type.includes('json') || file.name.endsWith('.md') || localFormatOf(file)) type = 'text';
+
+      // Keep the original so it can be re-analyzed later; analysis still runs if storage fails
+      let blobId: string | undefined = uuidv4();
+      try {
+        await putBlob(blobId, file);
+      } catch (err) {
+        console.warn(`Original of ${file.name} was not stored`, err);
+        blobId = undefined;
+      }
 
       const newAttachment: Attachment = {
         id,
         name: file.name,
         type,
         mimeType: file.type,
-        content: '', // Can store base64 if needed for persistence, but focusing on analysis for now
+        content: '', // The original lives in the blob store under blobId
+        blobId,
+        size: file.size,
         status: 'processing'
       };
 
       setAttachments(prev => [...prev, newAttachment]);
 
-      // Process immediately
-      try {
-        const result = await gemini.processFile(file);
-        setAttachments(prev => prev.map(a => 
-          a.id === id ? { ...a, status: 'done', analysis: result.analysis } : a
-        ));
-      } catch (err) {
-        console.error(err);
-        setAttachments(prev => prev.map(a => 
-          a.id === id ? { ...a, status: 'error', errorMessage: 'Analysis failed' } : a
-        ));
-      }
+      // Runs in the store's queue, so it finishes even if the Architect closes
+      enqueueAttachment(newAttachment, file);
     }
     
     // Reset input
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const reanalyzeAttachment = async (att: Attachment) => {
+    const blob = att.blobId ? await getBlob(att.blobId).catch(() => undefined) : undefined;
+    if (!blob) {
+      setAttachments(prev => prev.map(a =>
+        a.id === att.id ? { ...a, status: 'error', errorMessage: 'The original file is not stored in this browser. Attach it again.' } : a
+      ));
+      return;
+    }
+    enqueueAttachment(att, new File([blob], att.name, { type: att.mimeType }));
+  };
+
+  const openProfileEditor = (att: Attachment) => {
+    const kind = mediaKindOf(att.mimeType);
+    if (!kind || profileEditor?.id === att.id) {
+      setProfileEditor(null);
+      return;
+    }
+    setProfileEditor({ id: att.id, profile: att.analysisProfile ?? analysisProfiles[kind] });
+  };
+
+  // Store the override on the attachment and re-run the analysis from the stored original
+  const applyAttachmentProfile = (att: Attachment, profile: AnalysisProfile | undefined) => {
+    const updated = { ...att, analysisProfile: profile };
+    setAttachments(prev => prev.map(a => a.id === att.id ? updated : a));
+    setProfileEditor(null);
+    if (att.blobId) reanalyzeAttachment(updated);
+  };
+
   const handlePersonaFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length) return;
     const files: File[] = Array.from(e.target.files);
@@ -178,12 +409,16 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
     setIsAnalyzingPersona(true);
     try {
       // Use Persona Model for file analysis
-      const result = await gemini.analyzeFilesForTenor(files, personaModel);
+      const { result, sourceFiles } = await analyzeVoiceFiles(gemini, files, personaTarget);
+      setVoiceSources(prev => [...prev, ...sourceFiles]);
       if (result) {
+        // A new analysis replaces the fingerprint rather than keeping a stale one
         setTenor({
           ...tenor,
-          ...result
+          ...result.data,
+          voice: result.data.voice
         });
+        setSchemaNotice(result.issues.length ? { source: 'Voice analysis', ...result } : null);
       }
     } catch (err: any) {
       console.error("Failed to analyze persona", err);
@@ -195,10 +430,16 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
   };
 
   const removeAttachment = (id: string) => {
+    const removed = attachments.find(a => a.id === id);
+    cancelAttachmentProcessing(id);
     setAttachments(prev => prev.filter(a => a.id !== id));
+    // Saved narratives and their history may still point at the original; only unsaved uploads go now
+    if (removed?.blobId && !referencedBlobIds(prompts, personas).has(removed.blobId)) {
+      deleteBlobs([removed.blobId]).catch(err => console.error('Failed to delete stored file', err));
+    }
   };
 
-  const phases: Phase[] = ['intent', 'context', 'persona', 'structure'];
+  const phases: Phase[] = ['intent', 'context', 'persona', 'structure', 'examples'];
   const currentPhaseIdx = phases.indexOf(activePhase);
 
   const nextPhase = () => {
@@ -266,7 +507,7 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                       onChange={handleFileUpload} 
                       multiple 
                       className="hidden" 
-                      accept="audio/*,video/*,image/*,.pdf,.doc,.docx,.txt,.md,.json,.jsonl"
+                      accept="audio/*,video/*,image/*,.pdf,.doc,.docx,.odt,.rtf,.epub,.html,.htm,.csv,.tsv,.txt,.md,.json,.jsonl"
                     />
                   </div>
                   
@@ -283,22 +524,98 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                            <div className="flex-1 min-w-0">
                               <div className="flex justify-between items-center mb-1">
                                 <span className="text-sm font-medium text-stone-800 dark:text-stone-200 truncate">{att.name}</span>
-                                <button onClick={() => removeAttachment(att.id)} className="text-stone-300 dark:text-stone-600 hover:text-red-500 dark:hover:text-red-400 p-1"><X size={14}/></button>
+                                <div className="flex items-center">
+                                  {mediaKindOf(att.mimeType) && att.status !== 'processing' && (
+                                    <button
+                                      onClick={() => openProfileEditor(att)}
+                                      title={att.analysisProfile ? 'Custom analysis profile' : 'Analysis profile'}
+                                      className={`p-1 ${att.analysisProfile ? 'text-amber-600 dark:text-amber-500' : 'text-stone-300 dark:text-stone-600'} hover:text-amber-600 dark:hover:text-amber-500`}
+                                    >
+                                      <SlidersHorizontal size={12}/>
+                                    </button>
+                                  )}
+                                  {att.blobId && att.status !== 'processing' && (
+                                    <button onClick={() => reanalyzeAttachment(att)} title="Re-analyze the stored original" className="text-stone-300 dark:text-stone-600 hover:text-amber-600 dark:hover:text-amber-500 p-1"><RotateCw size={12}/></button>
+                                  )}
+                                  <button onClick={() => removeAttachment(att.id)} className="text-stone-300 dark:text-stone-600 hover:text-red-500 dark:hover:text-red-400 p-1"><X size={14}/></button>
+                                </div>
                               </div>
                               {att.status === 'processing' && (
-                                <div className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-500 animate-pulse">
-                                  <Loader2 size={10} className="animate-spin" />
-                                  <span>
-                                    {att.type === 'audio' ? 'Transcribing...' : att.type === 'video' ? 'Analyzing frames...' : 'Processing...'}
-                                  </span>
+                                <div className="space-y-1">
+                                  <div className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-500">
+                                    <Loader2 size={10} className="animate-spin" />
+                                    <span className="flex-1 truncate">
+                                      {processingJobs[att.id]?.stage ?? 'Processing'}…
+                                      {processingJobs[att.id]?.status === 'retrying' && (
+                                        <span className="text-stone-400 dark:text-stone-500"> ({processingJobs[att.id].error})</span>
+                                      )}
+                                    </span>
+                                    {processingJobs[att.id] && (
+                                      <button onClick={() => cancelAttachmentProcessing(att.id)} className="text-stone-400 hover:text-red-500">Cancel</button>
+                                    )}
+                                  </div>
+                                  <div className="h-1 bg-stone-100 dark:bg-stone-800 rounded-full overflow-hidden">
+                                    <div className="h-full bg-amber-500 transition-all" style={{ width: `${Math.max(5, (processingJobs[att.id]?.progress ?? 0) * 100)}%` }} />
+                                  </div>
                                 </div>
                               )}
                               {att.status === 'done' && (
-                                <p className="text-xs text-stone-500 dark:text-stone-400 line-clamp-2">{att.analysis}</p>
+                                <>
+                                  {att.structured ? (
+                                    <StructuredAnalysisView
+                                      structured={att.structured}
+                                      analysis={att.analysis}
+                                      citations={att.citations || []}
+                                      onToggleCitation={(unitId) => toggleCitation(att.id, unitId)}
+                                    />
+                                  ) : (
+                                    <p className="text-xs text-stone-500 dark:text-stone-400 line-clamp-2">{att.analysis}</p>
+                                  )}
+                                  <div className="flex items-center justify-between gap-2 mt-1">
+                                    <span className="text-[10px] font-mono text-stone-400 dark:text-stone-500">
+                                      ~{formatTokens(budget.attachments.find(c => c.id === att.id)?.tokens ?? 0)} tokens
+                                      {att.chunks && ` · ${att.chunks.length} parts`}
+                                    </span>
+                                    {inclusionOptions(att).length > 1 && (
+                                      <div className="flex text-[10px] rounded-md border border-stone-200 dark:border-stone-700 overflow-hidden">
+                                        {inclusionOptions(att).map(option => (
+                                          <button
+                                            key={option.value}
+                                            onClick={() => setInclusion(att.id, option.value)}
+                                            title={option.hint}
+                                            className={`px-2 py-0.5 transition-colors ${(att.inclusion ?? 'full') === option.value ? 'bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800'}`}
+                                          >
+                                            {option.label}
+                                          </button>
+                                        ))}
+                                      </div>
+                                    )}
+                                  </div>
+                                </>
                               )}
                               {att.status === 'error' && (
                                 <span className="text-xs text-red-500">{att.errorMessage}</span>
                               )}
+                              {profileEditor?.id === att.id && (
+                                <div className="mt-3 pt-3 border-t border-stone-100 dark:border-stone-800">
+                                  <AnalysisProfileEditor profile={profileEditor.profile} kind={mediaKindOf(att.mimeType)!} onChange={profile => setProfileEditor({ id: att.id, profile })} />
+                                  <div className="flex justify-between items-center mt-3 text-xs">
+                                    <button
+                                      onClick={() => applyAttachmentProfile(att, undefined)}
+                                      disabled={!att.analysisProfile}
+                                      className="text-stone-400 hover:text-stone-700 dark:hover:text-stone-200 disabled:opacity-40"
+                                    >
+                                      Use workspace default
+                                    </button>
+                                    <button
+                                      onClick={() => applyAttachmentProfile(att, profileEditor.profile)}
+                                      className="bg-stone-900 dark:bg-stone-100 text-white dark:text-stone-900 px-3 py-1 rounded-full hover:bg-stone-800 dark:hover:bg-white"
+                                    >
+                                      {att.blobId ? 'Re-analyze with this profile' : 'Save profile'}
+                                    </button>
+                                  </div>
+                                </div>
+                              )}
                            </div>
                         </div>
                       ))}
@@ -314,9 +631,10 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
           </div>
         );
       case 'persona':
-        // Determine if current persona is a preset
-        const isPreset = PERSONA_PRESETS.includes(tenor.aiPersona);
-        const selectValue = isPreset ? tenor.aiPersona : (tenor.aiPersona ? 'custom' : '');
+        // A linked library persona wins over a preset of the same name
+        const linkedPersona = personas.find(p => p.id === personaId);
+        const isPreset = !linkedPersona && PERSONA_PRESETS.includes(tenor.aiPersona);
+        const selectValue = linkedPersona ? `library:${linkedPersona.id}` : isPreset ? tenor.aiPersona : (tenor.aiPersona ? 'custom' : '');
 
         return (
           <div className="max-w-2xl mx-auto pt-10">
@@ -329,21 +647,32 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                   <h4 className="text-sm font-bold text-violet-900 dark:text-violet-200">Construct Voice from Source</h4>
                   <p className="text-xs text-violet-600 dark:text-violet-400 mt-1">Upload texts or recordings to mimic a specific persona.</p>
                 </div>
-                <button 
-                  onClick={() => personaFileInputRef.current?.click()}
-                  disabled={isAnalyzingPersona}
-                  className="flex items-center gap-2 bg-violet-600 dark:bg-violet-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-violet-700 dark:hover:bg-violet-400 transition-colors disabled:opacity-50"
-                >
-                  {isAnalyzingPersona ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />}
-                  <span>Analyze Voice</span>
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPersonaDraft(createPersona(tenor, { sourceFiles: voiceSources }))}
+                    disabled={!tenor.aiPersona.trim()}
+                    title="Keep this Tenor in the persona library"
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-violet-700 dark:text-violet-300 hover:bg-violet-100 dark:hover:bg-violet-900/30 transition-colors disabled:opacity-40"
+                  >
+                    <UserRound size={16} />
+                    <span>Save to Library</span>
+                  </button>
+                  <button 
+                    onClick={() => personaFileInputRef.current?.click()}
+                    disabled={isAnalyzingPersona}
+                    className="flex items-center gap-2 bg-violet-600 dark:bg-violet-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-violet-700 dark:hover:bg-violet-400 transition-colors disabled:opacity-50"
+                  >
+                    {isAnalyzingPersona ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />}
+                    <span>Analyze Voice</span>
+                  </button>
+                </div>
                 <input 
                   type="file" 
                   ref={personaFileInputRef} 
                   onChange={handlePersonaFileUpload} 
                   multiple 
                   className="hidden" 
-                  accept="audio/*,video/*,image/*,.pdf,.doc,.docx,.txt,.md"
+                  accept="audio/*,video/*,image/*,.pdf,.doc,.docx,.odt,.rtf,.epub,.html,.htm,.csv,.txt,.md"
                 />
               </div>
 
@@ -356,6 +685,13 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                        value={selectValue}
                        onChange={(e) => {
                          const val = e.target.value;
+                         const chosen = personas.find(p => `library:${p.id}` === val);
+                         if (chosen) {
+                           setTenor(chosen.tenor);
+                           setPersonaId(chosen.id);
+                           return;
+                         }
+                         setPersonaId(undefined);
                          if (val !== 'custom') {
                            setTenor({...tenor, aiPersona: val});
                          } else {
@@ -366,7 +702,14 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                        className="w-full bg-stone-50 dark:bg-stone-900 text-stone-900 dark:text-stone-100 border-b-2 border-stone-200 dark:border-stone-800 p-3 pr-10 focus:border-stone-800 dark:focus:border-stone-500 focus:outline-none transition-colors text-lg font-serif appearance-none cursor-pointer"
                      >
                        <option value="" disabled>Select a persona...</option>
-                       {PERSONA_PRESETS.map(p => <option key={p} value={p}>{p}</option>)}
+                       {personas.length > 0 && (
+                         <optgroup label="Your Personas">
+                           {personas.map(p => <option key={p.id} value={`library:${p.id}`}>{p.name}</option>)}
+                         </optgroup>
+                       )}
+                       <optgroup label="Presets">
+                         {PERSONA_PRESETS.map(p => <option key={p} value={p}>{p}</option>)}
+                       </optgroup>
                        <option value="custom">Custom Persona...</option>
                      </select>
                      <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-stone-400">
@@ -374,6 +717,28 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                      </div>
                    </div>
                    
+                   {linkedPersona && (
+                     <div className="mt-2 p-3 rounded-lg border border-violet-100 dark:border-violet-900/30 text-xs text-stone-600 dark:text-stone-300 space-y-2">
+                       {linkedPersona.description && <p>{linkedPersona.description}</p>}
+                       {linkedPersona.sampleUtterances.slice(0, 2).map((line, idx) => (
+                         <p key={idx} className="italic font-serif text-stone-500 dark:text-stone-400">“{line}”</p>
+                       ))}
+                       {sameTenor(tenor, linkedPersona.tenor) ? (
+                         <p className="text-[10px] text-violet-600 dark:text-violet-400">From your persona library</p>
+                       ) : (
+                         <div className="flex items-center gap-3 text-[10px]">
+                           <span className="flex-1 text-amber-700 dark:text-amber-500">Edited since it was picked from the library</span>
+                           <button onClick={() => setTenor(linkedPersona.tenor)} className="flex items-center gap-1 text-stone-500 hover:text-stone-800 dark:hover:text-stone-200">
+                             <Undo2 size={10} /> Revert
+                           </button>
+                           <button onClick={() => updatePersona(linkedPersona.id, { tenor })} className="text-violet-600 dark:text-violet-400 hover:underline">
+                             Update persona
+                           </button>
+                         </div>
+                       )}
+                     </div>
+                   )}
+
                    {/* Custom Input appears if 'custom' is selected */}
                    {selectValue === 'custom' && (
                      <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} className="mt-2">
@@ -391,6 +756,7 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                 <InputGroup label="Target Audience" value={tenor.targetAudience.join(', ')} onChange={v => setTenor({...tenor, targetAudience: v.split(',').map(s=>s.trim())})} placeholder="Beginners, Experts, Kids..." />
                 <InputGroup label="Desired Tone" value={tenor.desiredTone} onChange={v => setTenor({...tenor, desiredTone: v})} placeholder="Formal, Witty, Serious..." />
                 <InputGroup label="Interpersonal Stance" value={tenor.interpersonalStance} onChange={v => setTenor({...tenor, interpersonalStance: v})} placeholder="Authoritative, Suggestive..." />
+                {tenor.voice && <VoiceFingerprint voice={tenor.voice} onClear={() => setTenor({ ...tenor, voice: undefined })} />}
               </div>
             </motion.div>
           </div>
@@ -405,13 +771,91 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                  <InputGroup label="Rhetorical Structure" value={mode.rhetoricalStructure} onChange={v => setMode({...mode, rhetoricalStructure: v})} placeholder="Problem-Solution, Chronological..." />
                  <InputGroup label="Length Constraint" value={mode.lengthConstraint} onChange={v => setMode({...mode, lengthConstraint: v})} placeholder="Brief, Verbose, 500 words..." />
                  <InputGroup label="Textual Directives" value={mode.textualDirectives} onChange={v => setMode({...mode, textualDirectives: v})} placeholder="No passive voice, Use bullet points..." />
+                 <div className="p-4 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl transition-colors">
+                   <button onClick={() => setShowGeneration(!showGeneration)} className="w-full flex items-center justify-between text-xs font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest">
+                     <span className="flex items-center gap-2"><SlidersHorizontal size={14} /> Generation Settings</span>
+                     <span className="flex items-center gap-1 normal-case font-normal tracking-normal">
+                       {isEmptyGenerationConfig(generationConfig) ? 'Workspace defaults' : 'Customized'}
+                       {showGeneration ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                     </span>
+                   </button>
+                   {showGeneration && (
+                     <div className="mt-4">
+                       <GenerationConfigEditor config={generationConfig} inherited={generationDefaults} onChange={setGenerationConfig} />
+                       {!isEmptyGenerationConfig(generationConfig) && (
+                         <button onClick={() => setGenerationConfig({})} className="mt-3 text-[10px] text-stone-400 hover:text-stone-700 dark:hover:text-stone-200">
+                           Reset to workspace defaults
+                         </button>
+                       )}
+                     </div>
+                   )}
+                 </div>
+                 <div className="p-4 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-xl transition-colors space-y-3">
+                   <div className="flex items-center justify-between">
+                     <span className="flex items-center gap-2 text-xs font-bold text-stone-400 dark:text-stone-500 uppercase tracking-widest"><Braces size={14} /> Response Schema</span>
+                     <div className="flex items-center gap-3 text-[10px] text-stone-400">
+                       {!responseSchema.trim() && (
+                         <button onClick={() => setResponseSchema(EXAMPLE_RESPONSE_SCHEMA)} className="hover:text-stone-700 dark:hover:text-stone-200">Start from an example</button>
+                       )}
+                       {parsedSchema && (
+                         <button onClick={() => setResponseSchema(JSON.stringify(parsedSchema, null, 2))} className="hover:text-stone-700 dark:hover:text-stone-200">Format</button>
+                       )}
+                       {responseSchema && (
+                         <button onClick={() => setResponseSchema('')} className="hover:text-red-500">Remove</button>
+                       )}
+                     </div>
+                   </div>
+                   <textarea
+                     value={responseSchema}
+                     onChange={(e) => setResponseSchema(e.target.value)}
+                     rows={responseSchema ? 10 : 2}
+                     spellCheck={false}
+                     placeholder="Paste a JSON Schema to make every run return JSON that matches it."
+                     className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-3 font-mono text-xs text-stone-900 dark:text-stone-100 focus:outline-none resize-y placeholder-stone-400 dark:placeholder-stone-500"
+                   />
+                   {schemaError ? (
+                     <p className="text-[10px] text-red-500">{schemaError}</p>
+                   ) : parsedSchema && (
+                     <p className="text-[10px] text-stone-400">
+                       Runs ask the model for JSON matching this schema, and the Oracle checks the answer.
+                       {uncheckedKeywords(parsedSchema).length > 0 && (
+                         <span className="block text-amber-700 dark:text-amber-400">Not checked by the Oracle: {uncheckedKeywords(parsedSchema).join(', ')}</span>
+                       )}
+                     </p>
+                   )}
+                 </div>
               </div>
             </motion.div>
           </div>
         );
+      case 'examples':
+        return (
+          <div className="max-w-2xl mx-auto pt-10">
+            <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }}>
+              <SectionHeader title="Chapter IV: The Exemplars" subtitle="Show, rather than tell, what a good answer looks like." color="text-teal-600 dark:text-teal-500" />
+              <ExamplesEditor examples={examples} onChange={setExamples} />
+            </motion.div>
+          </div>
+        );
     }
   };
 
+  // The current, possibly unsaved, state for the comparison and chat overlays
+  const draft: PromptSFL = {
+    ...(existingPrompt || { id: promptId || 'draft', description: goal, createdAt: Date.now(), updatedAt: Date.now() }),
+    title,
+    sflField: field,
+    sflTenor: tenor,
+    sflMode: mode,
+    attachments,
+    examples,
+    variables,
+    compileTarget,
+    generationConfig,
+    responseSchema: responseSchema.trim() ? responseSchema : undefined,
+    tags
+  };
+
   return (
     <div className="fixed inset-0 bg-stone-50 dark:bg-stone-950 z-50 flex flex-col lg:flex-row transition-colors">
       {/* LEFT: Editor Panel */}
@@ -422,14 +866,40 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
             <button onClick={onClose} className="p-2 hover:bg-stone-200 dark:hover:bg-stone-800 text-stone-600 dark:text-stone-300 rounded-full transition-colors">
               <ChevronLeft size={20} />
             </button>
-            <input 
-              value={title} 
-              onChange={(e) => setTitle(e.target.value)}
-              className="bg-transparent font-serif text-2xl text-stone-900 dark:text-stone-100 focus:outline-none w-full max-w-md placeholder-stone-400 dark:placeholder-stone-600"
-              placeholder="Untitled Narrative"
-            />
+            <div className="w-full max-w-md">
+              <input 
+                value={title} 
+                onChange={(e) => setTitle(e.target.value)}
+                className="bg-transparent font-serif text-2xl text-stone-900 dark:text-stone-100 focus:outline-none w-full placeholder-stone-400 dark:placeholder-stone-600"
+                placeholder="Untitled Narrative"
+              />
+              <TagInput tags={tags} onChange={setTags} />
+            </div>
           </div>
           <div className="flex items-center gap-2">
+            {existingPrompt && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-full transition-colors ${showHistory ? 'bg-stone-200 dark:bg-stone-800 text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800'}`}
+              >
+                <History size={18} />
+                <span>History{existingPrompt.versions?.length ? ` (${existingPrompt.versions.length})` : ''}</span>
+              </button>
+            )}
+            <button
+              onClick={() => setShowComparison(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+            >
+              <Columns2 size={18} />
+              <span>Compare</span>
+            </button>
+            <button
+              onClick={() => setShowChat(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+            >
+              <MessagesSquare size={18} />
+              <span>Converse</span>
+            </button>
             <button onClick={handleSave} className="flex items-center gap-2 px-6 py-2 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors">
               <Save size={18} />
               <span>Save Narrative</span>
@@ -445,11 +915,28 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
              <PhaseIndicator active={activePhase === 'persona'} label="Persona" onClick={() => setActivePhase('persona')} />
              <div className="w-8 h-[1px] bg-stone-300 dark:bg-stone-700 self-center" />
              <PhaseIndicator active={activePhase === 'structure'} label="Structure" onClick={() => setActivePhase('structure')} />
+             <div className="w-8 h-[1px] bg-stone-300 dark:bg-stone-700 self-center" />
+             <PhaseIndicator active={activePhase === 'examples'} label="Examples" onClick={() => setActivePhase('examples')} />
           </div>
         )}
 
         {/* Content Area */}
         <div className="flex-1 overflow-y-auto px-8 pb-20 relative">
+           {schemaNotice && (
+             <div className="max-w-2xl mx-auto mt-4 p-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 rounded-xl flex gap-3 text-sm">
+               <AlertTriangle size={16} className="text-amber-600 dark:text-amber-500 shrink-0 mt-0.5" />
+               <div className="flex-1 min-w-0">
+                 <p className="font-medium text-amber-900 dark:text-amber-200">
+                   {schemaNotice.source}: the model's response did not match the schema.{' '}
+                   {schemaNotice.repaired ? 'It was repaired automatically.' : 'Missing values were filled with defaults.'}
+                 </p>
+                 <ul className="mt-1 text-xs text-amber-700 dark:text-amber-400 font-mono list-disc pl-4">
+                   {schemaNotice.issues.map(issue => <li key={issue}>{issue}</li>)}
+                 </ul>
+               </div>
+               <button onClick={() => setSchemaNotice(null)} className="text-amber-400 hover:text-amber-700 dark:hover:text-amber-300 p-1 self-start"><X size={14} /></button>
+             </div>
+           )}
            {renderPhaseContent()}
            
            {/* Navigation Buttons for Manual Flow */}
@@ -464,7 +951,7 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
                 </button>
                 <button 
                   onClick={nextPhase} 
-                  disabled={activePhase === 'structure'}
+                  disabled={activePhase === 'examples'}
                   className="text-stone-400 dark:text-stone-500 hover:text-stone-800 dark:hover:text-stone-300 disabled:opacity-0 transition-all font-serif italic"
                 >
                   Next Chapter &rarr;
@@ -475,30 +962,100 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
       </div>
 
       {/* RIGHT: Live Preview & Testing Panel */}
-      <div className="w-full lg:w-[450px] border-l border-stone-200 dark:border-stone-800 bg-white dark:bg-stone-900 flex flex-col shadow-xl z-20 transition-colors">
+      <div className="w-full lg:w-[450px] border-l border-stone-200 dark:border-stone-800 bg-white dark:bg-stone-900 flex flex-col shadow-xl z-20 transition-colors relative">
+        {showHistory && existingPrompt && (
+          <VersionHistory
+            versions={existingPrompt.versions || []}
+            current={{ title, description: existingPrompt.description, sflField: field, sflTenor: tenor, sflMode: mode, attachments, examples, compileTarget, variables, tags }}
+            onRestore={handleRestoreVersion}
+            onFork={handleForkVersion}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
         <div className="flex-1 flex flex-col h-1/2 border-b border-stone-100 dark:border-stone-800">
            <div className="p-4 border-b border-stone-100 dark:border-stone-800 bg-stone-50/50 dark:bg-stone-950/30 flex justify-between items-center transition-colors">
              <span className="text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase">Live Manuscript</span>
+             <select
+               value={compileTarget}
+               onChange={(e) => setCompileTarget(e.target.value as CompileTargetId)}
+               title={COMPILERS[compileTarget].description}
+               className="text-xs bg-transparent text-stone-500 dark:text-stone-400 focus:outline-none cursor-pointer"
+             >
+               {Object.values(COMPILERS).map(compiler => (
+                 <option key={compiler.id} value={compiler.id}>{compiler.label}</option>
+               ))}
+             </select>
            </div>
+           <BudgetMeter
+             report={budget}
+             model={primaryModel}
+             onRemoveAttachment={removeAttachment}
+             onSummarizeAttachment={(id) => setInclusion(id, 'summary')}
+             canSummarize={(id) => !!attachments.find(a => a.id === id)?.chunks}
+           />
            <div className="flex-1 p-6 overflow-y-auto bg-stone-50 dark:bg-stone-950 font-mono text-sm leading-relaxed text-stone-700 dark:text-stone-300 whitespace-pre-wrap transition-colors">
-             {compileSFLPrompt(field, tenor, mode, attachments)}
+             {manuscript}
            </div>
         </div>
         
         <div className="flex-1 flex flex-col h-1/2 bg-white dark:bg-stone-900 transition-colors">
            <div className="p-4 border-b border-stone-100 dark:border-stone-800 flex justify-between items-center">
              <span className="text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase">The Oracle (Output)</span>
-             <button 
-              onClick={handleTest}
-              disabled={isTesting}
-              className="text-xs flex items-center gap-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-500 px-3 py-1 rounded-full hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors"
-             >
-               {isTesting ? <RefreshCw size={12} className="animate-spin"/> : <Play size={12} />}
-               INVOKE MUSE
-             </button>
+             <div className="flex items-center gap-2">
+               {testResponse && !isTesting && !testFailed && (
+                 <button
+                   onClick={keepAsExample}
+                   disabled={examples.some(e => e.output === testResponse.trim())}
+                   title="Add this response to the narrative's examples"
+                   className="text-xs flex items-center gap-1 text-teal-700 dark:text-teal-500 px-3 py-1 rounded-full hover:bg-teal-50 dark:hover:bg-teal-900/30 transition-colors disabled:opacity-40"
+                 >
+                   <BookmarkPlus size={12} />
+                   Keep as Example
+                 </button>
+               )}
+               <button 
+                onClick={handleTest}
+                disabled={isTesting}
+                className="text-xs flex items-center gap-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-500 px-3 py-1 rounded-full hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors"
+               >
+                 {isTesting ? <RefreshCw size={12} className="animate-spin"/> : <Play size={12} />}
+                 INVOKE MUSE
+               </button>
+             </div>
            </div>
+           {variables.length > 0 && (
+             <div className="p-4 border-b border-stone-100 dark:border-stone-800 max-h-64 overflow-y-auto">
+               <VariableInputs
+                 variables={variables}
+                 values={variableInputs}
+                 onValuesChange={setVariableInputs}
+                 onVariablesChange={setVariables}
+               />
+             </div>
+           )}
            <div className="flex-1 p-6 overflow-y-auto">
-             {testResponse ? (
+             {structuredResult ? (
+                structuredResult.issues.length === 0 ? (
+                  <div className="space-y-3">
+                    <p className="flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-500"><CheckCircle2 size={12} /> Matches the response schema</p>
+                    <JsonTree value={structuredResult.value} />
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 rounded-lg">
+                      <p className="flex items-center gap-1 text-xs font-medium text-amber-900 dark:text-amber-200">
+                        <AlertTriangle size={12} /> Broke {structuredResult.issues.length} rule{structuredResult.issues.length === 1 ? '' : 's'} of the response schema
+                      </p>
+                      <ul className="mt-1 text-xs text-amber-700 dark:text-amber-400 font-mono list-disc pl-4">
+                        {structuredResult.issues.map(issue => <li key={formatIssue(issue)}>{formatIssue(issue)}</li>)}
+                      </ul>
+                    </div>
+                    <pre className="whitespace-pre-wrap font-mono text-xs text-stone-700 dark:text-stone-300">{testResponse}</pre>
+                  </div>
+                )
+             ) : testResponse && parsedSchema ? (
+                <pre className="whitespace-pre-wrap font-mono text-xs text-stone-700 dark:text-stone-300">{testResponse}</pre>
+             ) : testResponse ? (
                 <div className="prose prose-stone dark:prose-invert prose-sm max-w-none">
                   <ReactMarkdown remarkPlugins={[remarkGfm]}>
                     {testResponse}
@@ -513,6 +1070,22 @@ export const Architect: React.FC<ArchitectProps> = ({ promptId, onClose }) => {
            </div>
         </div>
       </div>
+      {showComparison && <ComparisonView draft={draft} onClose={() => setShowComparison(false)} />}
+      {showChat && <ChatConsole draft={draft} onClose={() => setShowChat(false)} />}
+      {personaDraft && (
+        <PersonaEditor
+          persona={personaDraft}
+          isNew
+          onSave={(persona) => {
+            addPersona(persona);
+            setTenor(persona.tenor);
+            setPersonaId(persona.id);
+            setVoiceSources([]);
+            setPersonaDraft(null);
+          }}
+          onClose={() => setPersonaDraft(null)}
+        />
+      )}
     </div>
   );
 };
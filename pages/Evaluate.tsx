@@ -0,0 +1,259 @@
+import React, { useState, useRef } from 'react';
+import { FlaskConical, Upload, Play, Square, Download, CheckCircle2, AlertCircle, Loader2, FileText } from 'lucide-react';
+import { useStore } from '../store';
+import { GeminiService } from '../services/geminiService';
+import { downloadText, fileSlug } from '../services/download';
+import { BatchResult, DatasetRow, DEFAULT_CONCURRENCY, parseDataset, resultsToCSV, resultsToJSONL, runBatch } from '../services/batchEvaluator';
+
+export const Evaluate: React.FC = () => {
+  const { prompts, primaryModel, primaryProvider, providerSettings, generationDefaults } = useStore();
+
+  const [selectedPromptId, setSelectedPromptId] = useState<string | null>(prompts[0]?.id || null);
+  const [datasetName, setDatasetName] = useState('');
+  const [rows, setRows] = useState<DatasetRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [results, setResults] = useState<Record<number, BatchResult>>({});
+  const [expandedLine, setExpandedLine] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const prompt = prompts.find(p => p.id === selectedPromptId) || null;
+  const finished = rows.map(r => results[r.line]).filter((r): r is BatchResult => Boolean(r));
+  const failures = finished.filter(r => r.error).length;
+  const schemaMisses = finished.filter(r => r.schemaIssues?.length).length;
+  const meanLatency = finished.length ? finished.reduce((sum, r) => sum + r.latencyMs, 0) / finished.length : 0;
+
+  // Dataset keys that do not match any {{variable}} are most likely typos
+  const knownNames = new Set((prompt?.variables || []).map(v => v.name));
+  const unknownKeys = [...new Set(rows.flatMap(r => Object.keys(r.inputs)))].filter(key => !knownNames.has(key));
+
+  const handleDatasetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseDataset(await file.text());
+    setDatasetName(file.name);
+    setRows(parsed.rows);
+    setParseErrors(parsed.errors);
+    setResults({});
+    e.target.value = '';
+  };
+
+  const handleRun = async () => {
+    if (!prompt || rows.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults({});
+    setExpandedLine(null);
+    try {
+      await runBatch(prompt, rows, new GeminiService(providerSettings), { provider: primaryProvider, model: primaryModel }, {
+        concurrency,
+        generationDefaults,
+        signal: controller.signal,
+        onResult: result => setResults(prev => ({ ...prev, [result.line]: result }))
+      });
+    } catch (e) {
+      alert(`Failed to run evaluation: ${(e as Error).message}`);
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleExport = (format: 'jsonl' | 'csv') => {
+    if (!prompt || finished.length === 0) return;
+    const name = `${fileSlug(prompt.title)}-evaluation.${format}`;
+    if (format === 'jsonl') downloadText(resultsToJSONL(finished), name, 'application/jsonl');
+    else downloadText(resultsToCSV(finished), name, 'text/csv');
+  };
+
+  return (
+    <div className="h-screen flex">
+      {/* Narrative picker */}
+      <aside className="w-64 border-r border-stone-200 dark:border-stone-800 bg-white/50 dark:bg-stone-900/50 flex flex-col transition-colors">
+        <div className="p-6 border-b border-stone-100 dark:border-stone-800">
+          <h2 className="text-stone-500 dark:text-stone-400 text-xs uppercase tracking-widest mb-1 font-medium">The Proving Ground</h2>
+          <h1 className="text-2xl font-serif text-stone-900 dark:text-stone-50">Evaluations</h1>
+        </div>
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {prompts.length === 0 && (
+            <p className="px-3 py-2 text-sm text-stone-400 dark:text-stone-500 italic">No saved narratives yet.</p>
+          )}
+          {prompts.map(p => (
+            <button
+              key={p.id}
+              onClick={() => { setSelectedPromptId(p.id); setResults({}); }}
+              disabled={isRunning}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors disabled:cursor-not-allowed ${p.id === selectedPromptId ? 'bg-stone-100 dark:bg-stone-800 text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800/50'}`}
+            >
+              <span className="block truncate font-medium">{p.title}</span>
+              <span className="text-[10px] text-stone-400 dark:text-stone-500">
+                {(p.variables || []).length ? (p.variables || []).map(v => `{{${v.name}}}`).join(' ') : 'No variables'}
+              </span>
+            </button>
+          ))}
+        </div>
+      </aside>
+
+      {!prompt ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-12 text-center">
+          <div className="w-24 h-24 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mb-8 text-stone-300 dark:text-stone-600 transition-colors">
+            <FlaskConical size={40} />
+          </div>
+          <h2 className="text-4xl font-serif text-stone-800 dark:text-stone-100 mb-4 transition-colors">The Proving Ground</h2>
+          <p className="text-stone-500 dark:text-stone-400 max-w-lg mx-auto leading-relaxed transition-colors">
+            Run a saved narrative against a dataset before rolling it out. Each line of a JSONL file
+            supplies one set of values for the narrative's template variables.
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <header className="px-6 py-4 border-b border-stone-200 dark:border-stone-800 flex flex-wrap gap-4 justify-between items-center bg-white/50 dark:bg-stone-900/50 backdrop-blur-sm transition-colors">
+            <div className="min-w-0">
+              <h2 className="font-serif text-2xl text-stone-900 dark:text-stone-100 truncate">{prompt.title}</h2>
+              <p className="text-xs text-stone-400 dark:text-stone-500">{primaryProvider} · {primaryModel}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isRunning}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-stone-200 dark:border-stone-700 text-stone-600 dark:text-stone-300 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors disabled:opacity-50"
+              >
+                <Upload size={14} />
+                {datasetName || 'Load dataset (.jsonl)'}
+              </button>
+              <input ref={fileInputRef} type="file" accept=".jsonl,.ndjson" className="hidden" onChange={handleDatasetUpload} />
+              <label className="flex items-center gap-1 text-xs text-stone-400 dark:text-stone-500">
+                Concurrency
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                  disabled={isRunning}
+                  className="w-12 bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded p-1 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+                />
+              </label>
+              {isRunning ? (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="flex items-center gap-2 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 px-4 py-2 rounded-full text-sm hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+                >
+                  <Square size={14} /> Cancel
+                </button>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  disabled={rows.length === 0}
+                  className="flex items-center gap-2 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-4 py-2 rounded-full text-sm hover:bg-stone-800 dark:hover:bg-white transition-colors disabled:opacity-50"
+                >
+                  <Play size={14} /> Run {rows.length || ''} rows
+                </button>
+              )}
+            </div>
+          </header>
+
+          {(parseErrors.length > 0 || unknownKeys.length > 0) && (
+            <div className="px-6 py-3 border-b border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-300 space-y-1">
+              {parseErrors.length > 0 && <p>Skipped {parseErrors.length} line(s): {parseErrors.slice(0, 5).join('; ')}{parseErrors.length > 5 ? '…' : ''}</p>}
+              {unknownKeys.length > 0 && <p>Keys not used by this narrative: {unknownKeys.join(', ')}</p>}
+            </div>
+          )}
+
+          {/* Summary */}
+          <div className="px-6 py-3 border-b border-stone-100 dark:border-stone-800 flex flex-wrap items-center gap-6 text-xs text-stone-500 dark:text-stone-400">
+            <span>{finished.length} / {rows.length} complete</span>
+            <span>{failures} failed</span>
+            {prompt?.responseSchema && <span>{schemaMisses} off-schema</span>}
+            <span>Mean latency {Math.round(meanLatency)} ms</span>
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => handleExport('jsonl')}
+                disabled={finished.length === 0}
+                className="flex items-center gap-1 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-40 transition-colors"
+              >
+                <Download size={12} /> JSONL
+              </button>
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={finished.length === 0}
+                className="flex items-center gap-1 hover:text-stone-800 dark:hover:text-stone-200 disabled:opacity-40 transition-colors"
+              >
+                <Download size={12} /> CSV
+              </button>
+            </div>
+          </div>
+
+          {/* Results table */}
+          <div className="flex-1 overflow-auto">
+            {rows.length === 0 ? (
+              <div className="h-full flex flex-col items-center justify-center text-stone-300 dark:text-stone-700 italic">
+                <FileText size={24} className="mb-2 opacity-50" />
+                <span>Load a dataset to begin...</span>
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-stone-50 dark:bg-stone-950 text-[10px] uppercase tracking-widest text-stone-400 dark:text-stone-500">
+                  <tr>
+                    <th className="text-left px-6 py-2 font-medium">Line</th>
+                    <th className="text-left px-3 py-2 font-medium">Inputs</th>
+                    <th className="text-left px-3 py-2 font-medium">Status</th>
+                    <th className="text-right px-3 py-2 font-medium">Latency</th>
+                    <th className="text-right px-6 py-2 font-medium">Length</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const result = results[row.line];
+                    const expanded = expandedLine === row.line;
+                    return (
+                      <React.Fragment key={row.line}>
+                        <tr
+                          onClick={() => result && setExpandedLine(expanded ? null : row.line)}
+                          className={`border-b border-stone-100 dark:border-stone-800 ${result ? 'cursor-pointer hover:bg-stone-50 dark:hover:bg-stone-900' : ''}`}
+                        >
+                          <td className="px-6 py-2 font-mono text-xs text-stone-400">{row.line}</td>
+                          <td className="px-3 py-2 font-mono text-xs text-stone-600 dark:text-stone-300 max-w-md truncate">{JSON.stringify(row.inputs)}</td>
+                          <td className="px-3 py-2 text-xs">
+                            {!result ? (
+                              isRunning ? <Loader2 size={12} className="animate-spin text-amber-500" /> : <span className="text-stone-300 dark:text-stone-600">pending</span>
+                            ) : result.error ? (
+                              <span className="flex items-center gap-1 text-red-500"><AlertCircle size={12} /> error</span>
+                            ) : result.schemaIssues?.length ? (
+                              <span className="flex items-center gap-1 text-amber-600 dark:text-amber-500"><AlertCircle size={12} /> off-schema</span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-500"><CheckCircle2 size={12} /> ok</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono text-xs text-stone-500">{result ? `${Math.round(result.latencyMs)} ms` : '—'}</td>
+                          <td className="px-6 py-2 text-right font-mono text-xs text-stone-500">{result ? result.outputLength : '—'}</td>
+                        </tr>
+                        {expanded && result && (
+                          <tr className="border-b border-stone-100 dark:border-stone-800 bg-stone-50/50 dark:bg-stone-950/50">
+                            <td colSpan={5} className="px-6 py-4">
+                              {result.error && <p className="text-xs text-red-500 mb-2">{result.error}</p>}
+                              {result.schemaIssues?.length ? (
+                                <ul className="text-xs text-amber-700 dark:text-amber-400 font-mono list-disc pl-4 mb-2">
+                                  {result.schemaIssues.map(issue => <li key={issue}>{issue}</li>)}
+                                </ul>
+                              ) : null}
+                              <pre className="whitespace-pre-wrap font-mono text-xs text-stone-700 dark:text-stone-300 max-h-80 overflow-y-auto">{result.output || '(no output)'}</pre>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,425 @@
-import React from 'react';
-import { Boxes } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Boxes, Plus, Play, Trash2, RefreshCw, Link2, X, BookOpen, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { useStore } from '../store';
+import { GeminiService } from '../services/geminiService';
+import { WORKFLOW_SLOTS, createsCycle, runWorkflow } from '../services/workflowRunner';
+import { Workflow, WorkflowNode, WorkflowSlot } from '../types';
+
+const NODE_WIDTH = 224;
+const NODE_HEIGHT = 96;
+
+type NodeRunStatus = 'idle' | 'running' | 'done' | 'error';
+
+interface NodeRunState {
+  status: NodeRunStatus;
+  output: string;
+  error?: string;
+}
 
 export const Lab: React.FC = () => {
+  const { prompts, workflows, addWorkflow, updateWorkflow, deleteWorkflow, primaryModel, primaryProvider, providerSettings, generationDefaults } = useStore();
+
+  const [activeWorkflowId, setActiveWorkflowId] = useState<string | null>(workflows[0]?.id || null);
+  const [pipeSlot, setPipeSlot] = useState<WorkflowSlot>('reference');
+  const [pendingSource, setPendingSource] = useState<string | null>(null);
+  const [drag, setDrag] = useState<{ nodeId: string; offsetX: number; offsetY: number; x: number; y: number } | null>(null);
+  const [runState, setRunState] = useState<Record<string, NodeRunState>>({});
+  const [isRunning, setIsRunning] = useState(false);
+
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  const workflow = workflows.find(w => w.id === activeWorkflowId) || null;
+
+  // Handlers
+  const handleCreateWorkflow = () => {
+    const newWorkflow: Workflow = {
+      id: uuidv4(),
+      title: 'Untitled Constellation',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      nodes: [],
+      edges: []
+    };
+    addWorkflow(newWorkflow);
+    setActiveWorkflowId(newWorkflow.id);
+    setRunState({});
+  };
+
+  const handleDeleteWorkflow = () => {
+    if (!workflow) return;
+    deleteWorkflow(workflow.id);
+    setActiveWorkflowId(workflows.find(w => w.id !== workflow.id)?.id || null);
+    setRunState({});
+  };
+
+  const handleAddNode = (promptId: string) => {
+    if (!workflow || !promptId) return;
+    const offset = workflow.nodes.length * 24;
+    const node: WorkflowNode = {
+      id: uuidv4(),
+      promptId,
+      position: { x: 40 + offset, y: 40 + offset }
+    };
+    updateWorkflow(workflow.id, { nodes: [...workflow.nodes, node] });
+  };
+
+  const handleRemoveNode = (nodeId: string) => {
+    if (!workflow) return;
+    updateWorkflow(workflow.id, {
+      nodes: workflow.nodes.filter(n => n.id !== nodeId),
+      edges: workflow.edges.filter(e => e.source !== nodeId && e.target !== nodeId)
+    });
+    if (pendingSource === nodeId) setPendingSource(null);
+  };
+
+  const handleConnect = (targetId: string) => {
+    if (!workflow || !pendingSource) return;
+    if (createsCycle(workflow, pendingSource, targetId)) {
+      alert('That connection would create a cycle.');
+      setPendingSource(null);
+      return;
+    }
+    const duplicate = workflow.edges.some(e => e.source === pendingSource && e.target === targetId && e.slot === pipeSlot);
+    if (!duplicate) {
+      updateWorkflow(workflow.id, {
+        edges: [...workflow.edges, { id: uuidv4(), source: pendingSource, target: targetId, slot: pipeSlot }]
+      });
+    }
+    setPendingSource(null);
+  };
+
+  const handleRemoveEdge = (edgeId: string) => {
+    if (!workflow) return;
+    updateWorkflow(workflow.id, { edges: workflow.edges.filter(e => e.id !== edgeId) });
+  };
+
+  // Dragging keeps the position local until release to avoid persisting every pointer move
+  const handlePointerDown = (e: React.PointerEvent, node: WorkflowNode) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setDrag({
+      nodeId: node.id,
+      offsetX: e.clientX - rect.left - node.position.x,
+      offsetY: e.clientY - rect.top - node.position.y,
+      x: node.position.x,
+      y: node.position.y
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setDrag({
+      ...drag,
+      x: Math.max(0, e.clientX - rect.left - drag.offsetX),
+      y: Math.max(0, e.clientY - rect.top - drag.offsetY)
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag || !workflow) return;
+    updateWorkflow(workflow.id, {
+      nodes: workflow.nodes.map(n => n.id === drag.nodeId ? { ...n, position: { x: drag.x, y: drag.y } } : n)
+    });
+    setDrag(null);
+  };
+
+  const handleRun = async () => {
+    if (!workflow || workflow.nodes.length === 0) return;
+    setIsRunning(true);
+    setRunState(Object.fromEntries(workflow.nodes.map(n => [n.id, { status: 'idle', output: '' }])));
+
+    const gemini = new GeminiService(providerSettings);
+    try {
+      for await (const event of runWorkflow(workflow, prompts, gemini, { provider: primaryProvider, model: primaryModel }, generationDefaults)) {
+        setRunState(prev => {
+          const current = prev[event.nodeId] || { status: 'idle', output: '' };
+          switch (event.type) {
+            case 'start':
+              return { ...prev, [event.nodeId]: { status: 'running', output: '' } };
+            case 'chunk':
+              return { ...prev, [event.nodeId]: { ...current, output: current.output + event.text } };
+            case 'done':
+              return { ...prev, [event.nodeId]: { status: 'done', output: event.output } };
+            case 'error':
+              return { ...prev, [event.nodeId]: { ...current, status: 'error', error: event.message } };
+          }
+        });
+      }
+    } catch (e) {
+      alert(`Failed to run constellation: ${(e as Error).message}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const nodePosition = (node: WorkflowNode) =>
+    drag?.nodeId === node.id ? { x: drag.x, y: drag.y } : node.position;
+
+  const promptTitle = (promptId: string) => prompts.find(p => p.id === promptId)?.title || 'Missing narrative';
+
   return (
-    <div className="h-full flex flex-col items-center justify-center p-12 text-center">
-      <div className="w-24 h-24 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mb-8 text-stone-300 dark:text-stone-600 transition-colors">
-        <Boxes size={40} />
-      </div>
-      <h2 className="text-4xl font-serif text-stone-800 dark:text-stone-100 mb-4 transition-colors">The Laboratory</h2>
-      <p className="text-stone-500 dark:text-stone-400 max-w-lg mx-auto leading-relaxed transition-colors">
-        The Constellation (Node Workflow) feature is currently under construction. 
-        This space will allow you to chain narratives together in an organic, non-linear fashion.
-      </p>
+    <div className="h-screen flex">
+      {/* Constellation list */}
+      <aside className="w-64 border-r border-stone-200 dark:border-stone-800 bg-white/50 dark:bg-stone-900/50 flex flex-col transition-colors">
+        <div className="p-6 border-b border-stone-100 dark:border-stone-800">
+          <h2 className="text-stone-500 dark:text-stone-400 text-xs uppercase tracking-widest mb-1 font-medium">The Laboratory</h2>
+          <h1 className="text-2xl font-serif text-stone-900 dark:text-stone-50">Constellations</h1>
+        </div>
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {workflows.map(w => (
+            <button
+              key={w.id}
+              onClick={() => { setActiveWorkflowId(w.id); setRunState({}); setPendingSource(null); }}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${w.id === activeWorkflowId ? 'bg-stone-100 dark:bg-stone-800 text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800/50'}`}
+            >
+              <span className="block truncate font-medium">{w.title}</span>
+              <span className="text-[10px] text-stone-400 dark:text-stone-500">{w.nodes.length} nodes · {w.edges.length} links</span>
+            </button>
+          ))}
+        </div>
+        <div className="p-3 border-t border-stone-100 dark:border-stone-800">
+          <button
+            onClick={handleCreateWorkflow}
+            className="w-full flex items-center justify-center gap-2 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-4 py-2 rounded-full text-sm hover:bg-stone-800 dark:hover:bg-white transition-colors"
+          >
+            <Plus size={16} />
+            <span>New Constellation</span>
+          </button>
+        </div>
+      </aside>
+
+      {!workflow ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-12 text-center">
+          <div className="w-24 h-24 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mb-8 text-stone-300 dark:text-stone-600 transition-colors">
+            <Boxes size={40} />
+          </div>
+          <h2 className="text-4xl font-serif text-stone-800 dark:text-stone-100 mb-4 transition-colors">The Laboratory</h2>
+          <p className="text-stone-500 dark:text-stone-400 max-w-lg mx-auto leading-relaxed transition-colors mb-8">
+            Chain narratives together into a constellation. Each node is a saved narrative,
+            and each link pipes one narrative's output into the context of the next.
+          </p>
+          <button onClick={handleCreateWorkflow} className="text-amber-600 dark:text-amber-500 hover:text-amber-700 dark:hover:text-amber-400 font-medium hover:underline">Begin a constellation &rarr;</button>
+        </div>
+      ) : (
+        <>
+          {/* Canvas */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <header className="px-6 py-4 border-b border-stone-200 dark:border-stone-800 flex flex-wrap gap-4 justify-between items-center bg-white/50 dark:bg-stone-900/50 backdrop-blur-sm transition-colors">
+              <input
+                value={workflow.title}
+                onChange={(e) => updateWorkflow(workflow.id, { title: e.target.value })}
+                className="bg-transparent font-serif text-2xl text-stone-900 dark:text-stone-100 focus:outline-none min-w-0 flex-1 placeholder-stone-400 dark:placeholder-stone-600"
+                placeholder="Untitled Constellation"
+              />
+              <div className="flex items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => handleAddNode(e.target.value)}
+                  disabled={prompts.length === 0}
+                  className="bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none disabled:opacity-50"
+                >
+                  <option value="" disabled>{prompts.length === 0 ? 'No saved narratives' : '+ Add narrative...'}</option>
+                  {prompts.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+                </select>
+                <div className="flex items-center gap-1 text-xs text-stone-400 dark:text-stone-500">
+                  <Link2 size={14} />
+                  <select
+                    value={pipeSlot}
+                    onChange={(e) => setPipeSlot(e.target.value as WorkflowSlot)}
+                    className="bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
+                  >
+                    {WORKFLOW_SLOTS.map(s => <option key={s.value} value={s.value}>Pipe into {s.label}</option>)}
+                  </select>
+                </div>
+                <button
+                  onClick={handleRun}
+                  disabled={isRunning || workflow.nodes.length === 0}
+                  className="flex items-center gap-2 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-500 px-4 py-2 rounded-full text-sm hover:bg-amber-100 dark:hover:bg-amber-900/50 transition-colors disabled:opacity-50"
+                >
+                  {isRunning ? <RefreshCw size={14} className="animate-spin" /> : <Play size={14} />}
+                  Run
+                </button>
+                <button
+                  onClick={handleDeleteWorkflow}
+                  className="p-2 text-stone-400 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </header>
+
+            <div
+              ref={canvasRef}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              onClick={() => setPendingSource(null)}
+              className="flex-1 relative overflow-auto bg-stone-50 dark:bg-stone-950 bg-[radial-gradient(circle,_rgba(120,113,108,0.15)_1px,_transparent_1px)] [background-size:24px_24px] select-none transition-colors"
+            >
+              {pendingSource && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 text-xs bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-3 py-1 rounded-full">
+                  Select a narrative to receive this output
+                </div>
+              )}
+
+              <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+                {workflow.edges.map(edge => {
+                  const source = workflow.nodes.find(n => n.id === edge.source);
+                  const target = workflow.nodes.find(n => n.id === edge.target);
+                  if (!source || !target) return null;
+                  const s = nodePosition(source);
+                  const t = nodePosition(target);
+                  const x1 = s.x + NODE_WIDTH;
+                  const y1 = s.y + NODE_HEIGHT / 2;
+                  const x2 = t.x;
+                  const y2 = t.y + NODE_HEIGHT / 2;
+                  const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+                  return (
+                    <path
+                      key={edge.id}
+                      d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                      className="stroke-stone-400 dark:stroke-stone-600"
+                      strokeWidth={1.5}
+                      fill="none"
+                    />
+                  );
+                })}
+              </svg>
+
+              {/* Edge labels (click to remove) */}
+              {workflow.edges.map(edge => {
+                const source = workflow.nodes.find(n => n.id === edge.source);
+                const target = workflow.nodes.find(n => n.id === edge.target);
+                if (!source || !target) return null;
+                const s = nodePosition(source);
+                const t = nodePosition(target);
+                const label = WORKFLOW_SLOTS.find(slot => slot.value === edge.slot)?.label;
+                return (
+                  <button
+                    key={edge.id}
+                    onClick={(e) => { e.stopPropagation(); handleRemoveEdge(edge.id); }}
+                    title="Remove link"
+                    style={{ left: (s.x + NODE_WIDTH + t.x) / 2, top: (s.y + t.y + NODE_HEIGHT) / 2 }}
+                    className="absolute -translate-x-1/2 -translate-y-1/2 z-10 group flex items-center gap-1 text-[10px] uppercase tracking-wide bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 text-stone-500 dark:text-stone-400 px-2 py-0.5 rounded-full hover:text-red-500 hover:border-red-200 transition-colors"
+                  >
+                    {label}
+                    <X size={10} className="opacity-0 group-hover:opacity-100" />
+                  </button>
+                );
+              })}
+
+              {workflow.nodes.map(node => {
+                const pos = nodePosition(node);
+                const status = runState[node.id]?.status || 'idle';
+                return (
+                  <motion.div
+                    key={node.id}
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    style={{ left: pos.x, top: pos.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (pendingSource && pendingSource !== node.id) handleConnect(node.id);
+                    }}
+                    className={`absolute z-10 bg-white dark:bg-stone-900 rounded-2xl border shadow-sm transition-colors ${
+                      status === 'running' ? 'border-amber-400' :
+                      status === 'done' ? 'border-green-400 dark:border-green-700' :
+                      status === 'error' ? 'border-red-400' :
+                      pendingSource && pendingSource !== node.id ? 'border-violet-400 cursor-pointer' :
+                      'border-stone-200 dark:border-stone-800'
+                    }`}
+                  >
+                    {/* Input port */}
+                    <div className="absolute -left-1.5 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full bg-stone-300 dark:bg-stone-600 border-2 border-white dark:border-stone-900" />
+
+                    <div
+                      onPointerDown={(e) => handlePointerDown(e, node)}
+                      className="flex items-center justify-between px-4 pt-3 cursor-grab active:cursor-grabbing"
+                    >
+                      <div className="flex items-center gap-2 text-stone-400 dark:text-stone-500">
+                        <BookOpen size={12} />
+                        {status === 'running' && <Loader2 size={12} className="animate-spin text-amber-500" />}
+                        {status === 'done' && <CheckCircle2 size={12} className="text-green-500" />}
+                        {status === 'error' && <AlertCircle size={12} className="text-red-500" />}
+                      </div>
+                      <button
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={(e) => { e.stopPropagation(); handleRemoveNode(node.id); }}
+                        className="text-stone-300 dark:text-stone-600 hover:text-red-500 dark:hover:text-red-400 p-1"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                    <div className="px-4 pb-3">
+                      <p className="font-serif text-stone-800 dark:text-stone-100 truncate">{promptTitle(node.promptId)}</p>
+                      <p className="text-[10px] text-stone-400 dark:text-stone-500 truncate">
+                        {prompts.find(p => p.id === node.promptId)?.sflField.taskType || '—'}
+                      </p>
+                    </div>
+
+                    {/* Output port */}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setPendingSource(pendingSource === node.id ? null : node.id); }}
+                      title="Connect output"
+                      className={`absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-white dark:border-stone-900 transition-colors ${pendingSource === node.id ? 'bg-violet-500' : 'bg-stone-400 dark:bg-stone-500 hover:bg-violet-500'}`}
+                    />
+                  </motion.div>
+                );
+              })}
+
+              {workflow.nodes.length === 0 && (
+                <div className="absolute inset-0 flex items-center justify-center text-stone-300 dark:text-stone-700 italic pointer-events-none">
+                  Add a narrative to begin the constellation.
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Run output */}
+          <div className="w-[400px] border-l border-stone-200 dark:border-stone-800 bg-white dark:bg-stone-900 flex flex-col transition-colors">
+            <div className="p-4 border-b border-stone-100 dark:border-stone-800 bg-stone-50/50 dark:bg-stone-950/30">
+              <span className="text-xs font-bold tracking-widest text-stone-400 dark:text-stone-500 uppercase">Transmissions</span>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {Object.keys(runState).length === 0 ? (
+                <div className="h-full flex flex-col items-center justify-center text-stone-300 dark:text-stone-700 italic">
+                  <Boxes size={24} className="mb-2 opacity-50" />
+                  <span>Waiting for invocation...</span>
+                </div>
+              ) : (
+                workflow.nodes
+                  .filter(n => runState[n.id] && runState[n.id].status !== 'idle')
+                  .map(node => {
+                    const state = runState[node.id];
+                    return (
+                      <div key={node.id} className="border border-stone-100 dark:border-stone-800 rounded-xl overflow-hidden">
+                        <div className="px-4 py-2 bg-stone-50 dark:bg-stone-950 text-xs font-medium text-stone-600 dark:text-stone-300 flex items-center justify-between">
+                          <span className="truncate">{promptTitle(node.promptId)}</span>
+                          {state.status === 'running' && <Loader2 size={12} className="animate-spin text-amber-500" />}
+                        </div>
+                        <div className="p-4">
+                          {state.error ? (
+                            <span className="text-xs text-red-500">{state.error}</span>
+                          ) : (
+                            <div className="prose prose-stone dark:prose-invert prose-sm max-w-none">
+                              <ReactMarkdown remarkPlugins={[remarkGfm]}>{state.output}</ReactMarkdown>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
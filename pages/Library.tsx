@@ -1,75 +1,310 @@
-import React from 'react';
+import React, { useState, useRef } from 'react';
 import { useStore } from '../store';
-import { PromptSFL } from '../types';
-import { Plus, BookOpen, Clock } from 'lucide-react';
+import { LibraryFilter, LibrarySort, PromptSFL, SavedFilter } from '../types';
+import { Plus, BookOpen, Clock, Search, Bookmark, BookmarkPlus, Library as LibraryIcon, X, Tag, Upload, Download, Check } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { v4 as uuidv4 } from 'uuid';
+import { EMPTY_FILTER, Facet, collectFacets, filterPrompts } from '../services/librarySearch';
+import { BundleError, ParsedBundle, bundleToJSON, parseBundle, promptToYAML } from '../services/libraryBundle';
+import { downloadText, fileSlug } from '../services/download';
+import { ImportDialog } from '../components/ImportDialog';
 
 interface LibraryProps {
   onEdit: (id: string) => void;
   onCreate: () => void;
 }
 
+const sameFilter = (a: LibraryFilter, b: LibraryFilter) => JSON.stringify(a) === JSON.stringify(b);
+
 export const Library: React.FC<LibraryProps> = ({ onEdit, onCreate }) => {
-  const { prompts, deletePrompt } = useStore();
+  const { prompts, deletePrompt, savedFilters, addSavedFilter, deleteSavedFilter } = useStore();
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_FILTER);
+  const [newFilterName, setNewFilterName] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; parsed: ParsedBundle } | null>(null);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const facets = collectFacets(prompts);
+  const visible = filterPrompts(prompts, filter);
+  const isFiltered = !sameFilter({ ...filter, sort: EMPTY_FILTER.sort }, EMPTY_FILTER);
+
+  const updateFilter = (updates: Partial<LibraryFilter>) => setFilter(prev => ({ ...prev, ...updates }));
+
+  const toggleTag = (tag: string) =>
+    updateFilter({
+      tags: filter.tags.some(t => t.toLowerCase() === tag.toLowerCase())
+        ? filter.tags.filter(t => t.toLowerCase() !== tag.toLowerCase())
+        : [...filter.tags, tag]
+    });
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  // Exports the selection when there is one, otherwise the whole library
+  const handleExportBundle = () => {
+    const chosen = selectedIds.length ? prompts.filter(p => selectedIds.includes(p.id)) : prompts;
+    const name = chosen.length === 1 ? fileSlug(chosen[0].title) : 'sfl-library';
+    downloadText(bundleToJSON(chosen), `${name}.sfl.json`, 'application/json');
+  };
+
+  const handleExportPrompt = (prompt: PromptSFL, format: 'json' | 'yaml') => {
+    if (format === 'json') downloadText(bundleToJSON([prompt]), `${fileSlug(prompt.title)}.sfl.json`, 'application/json');
+    else downloadText(promptToYAML(prompt), `${fileSlug(prompt.title)}.sfl.yaml`, 'application/yaml');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingImport({ fileName: file.name, parsed: parseBundle(await file.text()) });
+    } catch (error) {
+      alert(error instanceof BundleError ? error.message : `Failed to read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSaveFilter = () => {
+    const name = newFilterName?.trim();
+    if (!name) return;
+    const saved: SavedFilter = { id: uuidv4(), name, filter };
+    addSavedFilter(saved);
+    setNewFilterName(null);
+  };
 
   return (
-    <div className="p-12 max-w-7xl mx-auto">
-      <header className="mb-16 flex justify-between items-end">
-        <div>
-          <h2 className="text-stone-500 dark:text-stone-400 text-sm uppercase tracking-widest mb-2 font-medium">Your Collection</h2>
-          <h1 className="text-5xl font-serif text-stone-900 dark:text-stone-50">The Library</h1>
+    <div className="h-screen flex">
+      {/* Saved filters */}
+      <aside className="w-64 border-r border-stone-200 dark:border-stone-800 bg-white/50 dark:bg-stone-900/50 flex flex-col transition-colors">
+        <div className="p-6 border-b border-stone-100 dark:border-stone-800">
+          <h2 className="text-stone-500 dark:text-stone-400 text-xs uppercase tracking-widest mb-1 font-medium">Your Collection</h2>
+          <h1 className="text-2xl font-serif text-stone-900 dark:text-stone-50">Shelves</h1>
         </div>
-        <button 
-          onClick={onCreate}
-          className="flex items-center gap-2 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-6 py-3 rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors shadow-lg hover:shadow-xl hover:-translate-y-0.5 transform duration-300"
-        >
-          <Plus size={18} />
-          <span className="font-medium">New Narrative</span>
-        </button>
-      </header>
-
-      {prompts.length === 0 ? (
-        <div className="text-center py-24 bg-white dark:bg-stone-900 rounded-3xl border border-stone-100 dark:border-stone-800 shadow-sm transition-colors">
-          <div className="w-16 h-16 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mx-auto mb-6 text-stone-400 dark:text-stone-500">
-            <BookOpen size={24} />
-          </div>
-          <h3 className="text-xl font-serif mb-2 text-stone-800 dark:text-stone-200">The pages are empty</h3>
-          <p className="text-stone-500 dark:text-stone-400 mb-8 max-w-md mx-auto">Begin your journey by creating a new prompt structure using the SFL framework.</p>
-          <button onClick={onCreate} className="text-amber-600 dark:text-amber-500 hover:text-amber-700 dark:hover:text-amber-400 font-medium hover:underline">Start writing &rarr;</button>
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          <button
+            onClick={() => setFilter(EMPTY_FILTER)}
+            className={`w-full flex items-center gap-2 text-left px-3 py-2 rounded-lg text-sm transition-colors ${!isFiltered ? 'bg-stone-100 dark:bg-stone-800 text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800/50'}`}
+          >
+            <LibraryIcon size={14} />
+            <span className="flex-1 font-medium">All narratives</span>
+            <span className="text-[10px] text-stone-400 dark:text-stone-500">{prompts.length}</span>
+          </button>
+          {savedFilters.map(saved => (
+            <div
+              key={saved.id}
+              className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${sameFilter(saved.filter, filter) ? 'bg-stone-100 dark:bg-stone-800 text-stone-900 dark:text-stone-100' : 'text-stone-500 dark:text-stone-400 hover:bg-stone-50 dark:hover:bg-stone-800/50'}`}
+            >
+              <button onClick={() => setFilter(saved.filter)} className="flex-1 flex items-center gap-2 text-left min-w-0">
+                <Bookmark size={14} />
+                <span className="truncate font-medium">{saved.name}</span>
+              </button>
+              <span className="text-[10px] text-stone-400 dark:text-stone-500 group-hover:hidden">{filterPrompts(prompts, saved.filter).length}</span>
+              <button
+                onClick={() => deleteSavedFilter(saved.id)}
+                className="hidden group-hover:block text-stone-400 hover:text-red-500 transition-colors"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
         </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {prompts.map((prompt, idx) => (
-            <PromptCard 
-              key={prompt.id} 
-              prompt={prompt} 
-              onClick={() => onEdit(prompt.id)} 
-              onDelete={(e) => { e.stopPropagation(); deletePrompt(prompt.id); }}
-              index={idx}
+        <div className="p-3 border-t border-stone-100 dark:border-stone-800">
+          {newFilterName === null ? (
+            <button
+              onClick={() => setNewFilterName('')}
+              disabled={!isFiltered}
+              className="w-full flex items-center justify-center gap-2 text-sm text-stone-500 dark:text-stone-400 px-4 py-2 rounded-full border border-stone-200 dark:border-stone-700 hover:bg-stone-50 dark:hover:bg-stone-800 transition-colors disabled:opacity-40"
+            >
+              <BookmarkPlus size={16} />
+              <span>Save this filter</span>
+            </button>
+          ) : (
+            <input
+              autoFocus
+              value={newFilterName}
+              onChange={(e) => setNewFilterName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSaveFilter(); if (e.key === 'Escape') setNewFilterName(null); }}
+              onBlur={() => setNewFilterName(null)}
+              placeholder="Shelf name, then Enter"
+              className="w-full bg-stone-50 dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-lg p-2 text-sm text-stone-900 dark:text-stone-100 focus:outline-none"
             />
-          ))}
+          )}
+        </div>
+      </aside>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-12 max-w-7xl mx-auto">
+          <header className="mb-10 flex justify-between items-end">
+            <div>
+              <h2 className="text-stone-500 dark:text-stone-400 text-sm uppercase tracking-widest mb-2 font-medium">Your Collection</h2>
+              <h1 className="text-5xl font-serif text-stone-900 dark:text-stone-50">The Library</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center gap-2 px-4 py-3 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+              >
+                <Upload size={18} />
+                <span>Import</span>
+              </button>
+              <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+              <button
+                onClick={handleExportBundle}
+                disabled={prompts.length === 0}
+                className="flex items-center gap-2 px-4 py-3 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors disabled:opacity-40"
+              >
+                <Download size={18} />
+                <span>{selectedIds.length ? `Export ${selectedIds.length} selected` : 'Export all'}</span>
+              </button>
+              <button
+                onClick={onCreate}
+                className="flex items-center gap-2 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-6 py-3 rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors shadow-lg hover:shadow-xl hover:-translate-y-0.5 transform duration-300"
+              >
+                <Plus size={18} />
+                <span className="font-medium">New Narrative</span>
+              </button>
+            </div>
+          </header>
+
+          {prompts.length === 0 ? (
+            <div className="text-center py-24 bg-white dark:bg-stone-900 rounded-3xl border border-stone-100 dark:border-stone-800 shadow-sm transition-colors">
+              <div className="w-16 h-16 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mx-auto mb-6 text-stone-400 dark:text-stone-500">
+                <BookOpen size={24} />
+              </div>
+              <h3 className="text-xl font-serif mb-2 text-stone-800 dark:text-stone-200">The pages are empty</h3>
+              <p className="text-stone-500 dark:text-stone-400 mb-8 max-w-md mx-auto">Begin your journey by creating a new prompt structure using the SFL framework.</p>
+              <button onClick={onCreate} className="text-amber-600 dark:text-amber-500 hover:text-amber-700 dark:hover:text-amber-400 font-medium hover:underline">Start writing &rarr;</button>
+            </div>
+          ) : (
+            <>
+              {/* Search & facets */}
+              <div className="mb-10 space-y-4">
+                <div className="flex flex-wrap gap-3 items-center">
+                  <div className="flex-1 min-w-[16rem] flex items-center gap-2 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-full px-4 py-2 focus-within:ring-1 focus-within:ring-amber-500 transition-colors">
+                    <Search size={16} className="text-stone-400" />
+                    <input
+                      value={filter.query}
+                      onChange={(e) => updateFilter({ query: e.target.value })}
+                      placeholder="Search titles, descriptions and every SFL slot..."
+                      className="flex-1 bg-transparent text-sm text-stone-900 dark:text-stone-100 focus:outline-none placeholder-stone-400 dark:placeholder-stone-600"
+                    />
+                  </div>
+                  <FacetSelect label="Task" value={filter.taskType} facets={facets.taskTypes} onChange={(taskType) => updateFilter({ taskType })} />
+                  <FacetSelect label="Format" value={filter.outputFormat} facets={facets.outputFormats} onChange={(outputFormat) => updateFilter({ outputFormat })} />
+                  <FacetSelect label="Persona" value={filter.persona} facets={facets.personas} onChange={(persona) => updateFilter({ persona })} />
+                  <select
+                    value={filter.sort}
+                    onChange={(e) => updateFilter({ sort: e.target.value as LibrarySort })}
+                    className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-full px-3 py-2 text-sm text-stone-600 dark:text-stone-300 focus:outline-none"
+                  >
+                    <option value="updated">Recently updated</option>
+                    <option value="created">Recently created</option>
+                    <option value="title">Title A–Z</option>
+                  </select>
+                </div>
+                {facets.tags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Tag size={12} className="text-stone-400" />
+                    {facets.tags.map(tag => {
+                      const active = filter.tags.some(t => t.toLowerCase() === tag.value.toLowerCase());
+                      return (
+                        <button
+                          key={tag.value}
+                          onClick={() => toggleTag(tag.value)}
+                          className={`text-xs px-2 py-1 rounded-full transition-colors ${active ? 'bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900' : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400 hover:bg-stone-200 dark:hover:bg-stone-700'}`}
+                        >
+                          {tag.value} <span className="opacity-60">{tag.count}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {visible.length === 0 ? (
+                <div className="text-center py-16 text-stone-400 dark:text-stone-500">
+                  <p className="font-serif italic mb-4">No narratives match this filter.</p>
+                  <button onClick={() => setFilter(EMPTY_FILTER)} className="text-amber-600 dark:text-amber-500 hover:underline text-sm">Clear filters</button>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {visible.map((prompt, idx) => (
+                    <PromptCard
+                      key={prompt.id}
+                      prompt={prompt}
+                      onClick={() => onEdit(prompt.id)}
+                      onDelete={(e) => { e.stopPropagation(); deletePrompt(prompt.id); setSelectedIds(prev => prev.filter(id => id !== prompt.id)); }}
+                      onTagClick={(tag) => toggleTag(tag)}
+                      selected={selectedIds.includes(prompt.id)}
+                      onToggleSelect={() => toggleSelected(prompt.id)}
+                      onExport={(format) => handleExportPrompt(prompt, format)}
+                      index={idx}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
         </div>
+      </div>
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          parsed={pendingImport.parsed}
+          onClose={() => setPendingImport(null)}
+        />
       )}
     </div>
   );
 };
 
-const PromptCard: React.FC<{ prompt: PromptSFL; onClick: () => void; onDelete: (e: React.MouseEvent) => void; index: number }> = ({ prompt, onClick, onDelete, index }) => {
+const FacetSelect: React.FC<{ label: string; value?: string; facets: Facet[]; onChange: (value?: string) => void }> = ({ label, value, facets, onChange }) => (
+  <select
+    value={value || ''}
+    onChange={(e) => onChange(e.target.value || undefined)}
+    className={`max-w-[12rem] bg-white dark:bg-stone-900 border rounded-full px-3 py-2 text-sm focus:outline-none ${value ? 'border-amber-400 dark:border-amber-700 text-stone-900 dark:text-stone-100' : 'border-stone-200 dark:border-stone-800 text-stone-500 dark:text-stone-400'}`}
+  >
+    <option value="">Any {label.toLowerCase()}</option>
+    {value && !facets.some(f => f.value.toLowerCase() === value.toLowerCase()) && <option value={value}>{value}</option>}
+    {facets.map(f => <option key={f.value} value={f.value}>{f.value} ({f.count})</option>)}
+  </select>
+);
+
+interface PromptCardProps {
+  prompt: PromptSFL;
+  onClick: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+  onTagClick: (tag: string) => void;
+  selected: boolean;
+  onToggleSelect: () => void;
+  onExport: (format: 'json' | 'yaml') => void;
+  index: number;
+}
+
+const PromptCard: React.FC<PromptCardProps> = ({ prompt, onClick, onDelete, onTagClick, selected, onToggleSelect, onExport, index }) => {
   return (
-    <motion.div 
+    <motion.div
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
-      transition={{ delay: index * 0.1 }}
+      transition={{ delay: Math.min(index, 10) * 0.05 }}
       onClick={onClick}
-      className="group bg-white dark:bg-stone-900 p-8 rounded-3xl border border-stone-100 dark:border-stone-800 shadow-sm hover:shadow-md transition-all cursor-pointer relative overflow-hidden"
+      className={`group bg-white dark:bg-stone-900 p-8 rounded-3xl border shadow-sm hover:shadow-md transition-all cursor-pointer relative overflow-hidden ${selected ? 'border-amber-400 dark:border-amber-700' : 'border-stone-100 dark:border-stone-800'}`}
     >
       <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-amber-200 via-violet-200 to-rose-200 dark:from-amber-900 dark:via-violet-900 dark:to-rose-900 opacity-50 group-hover:opacity-100 transition-opacity" />
-      
+
       <div className="flex justify-between items-start mb-6">
         <div className="w-10 h-10 rounded-full bg-stone-50 dark:bg-stone-800 flex items-center justify-center text-stone-400 dark:text-stone-500 group-hover:bg-stone-900 dark:group-hover:bg-stone-100 group-hover:text-stone-50 dark:group-hover:text-stone-900 transition-colors">
           <BookOpen size={16} />
         </div>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleSelect(); }}
+              title={selected ? 'Deselect' : 'Select for export'}
+              className={`w-5 h-5 rounded border flex items-center justify-center transition-all ${selected ? 'bg-amber-500 border-amber-500 text-white opacity-100' : 'border-stone-300 dark:border-stone-600 text-transparent opacity-0 group-hover:opacity-100'}`}
+            >
+              <Check size={12} />
+            </button>
             <span className="text-xs font-medium px-2 py-1 bg-stone-50 dark:bg-stone-800 rounded-full text-stone-500 dark:text-stone-400 uppercase tracking-wide">
                 {prompt.sflMode.outputFormat}
             </span>
@@ -79,17 +314,44 @@ const PromptCard: React.FC<{ prompt: PromptSFL; onClick: () => void; onDelete: (
       <h3 className="text-2xl font-serif text-stone-800 dark:text-stone-100 mb-3 group-hover:text-stone-600 dark:group-hover:text-stone-300 transition-colors line-clamp-1">
         {prompt.title}
       </h3>
-      <p className="text-stone-500 dark:text-stone-400 text-sm line-clamp-2 mb-6 h-10">
+      <p className="text-stone-500 dark:text-stone-400 text-sm line-clamp-2 mb-4 h-10">
         {prompt.description || `A ${prompt.sflField.taskType} about ${prompt.sflField.topic}...`}
       </p>
 
+      <div className="flex flex-wrap gap-1.5 mb-4 min-h-[1.5rem]">
+        {(prompt.tags || []).map(tag => (
+          <button
+            key={tag}
+            onClick={(e) => { e.stopPropagation(); onTagClick(tag); }}
+            className="text-[10px] px-2 py-0.5 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-500 rounded-full hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+
       <div className="flex items-center justify-between pt-6 border-t border-stone-50 dark:border-stone-800 text-xs text-stone-400 dark:text-stone-500">
         <div className="flex items-center gap-1">
           <Clock size={12} />
           <span>{new Date(prompt.updatedAt).toLocaleDateString()}</span>
         </div>
-        
-        <button 
+
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={(e) => { e.stopPropagation(); onExport('json'); }}
+            className="hover:text-stone-700 dark:hover:text-stone-200 transition-colors p-2 rounded-full"
+          >
+            JSON
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onExport('yaml'); }}
+            className="hover:text-stone-700 dark:hover:text-stone-200 transition-colors p-2 rounded-full"
+          >
+            YAML
+          </button>
+        </div>
+
+        <button
           onClick={onDelete}
           className="hover:text-red-500 dark:hover:text-red-400 transition-colors p-2 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full"
         >
@@ -98,4 +360,4 @@ const PromptCard: React.FC<{ prompt: PromptSFL; onClick: () => void; onDelete: (
       </div>
     </motion.div>
   );
-};
\ No newline at end of file
+};
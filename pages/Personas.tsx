@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Plus, Upload, Download, UserRound, Pencil, Trash2, FileText, Quote, BookOpen, Fingerprint } from 'lucide-react';
+import { useStore } from '../store';
+import { Persona, DEFAULT_TENOR } from '../types';
+import { PersonaEditor } from '../components/PersonaEditor';
+import { createPersona, parsePersonaBundle, personaUsage, personasToJSON } from '../services/personaLibrary';
+import { BundleError } from '../services/libraryBundle';
+import { downloadText, fileSlug } from '../services/download';
+import { formalityLabel } from '../services/stylometry';
+
+interface PersonasProps {
+  onEdit: (id: string) => void;
+}
+
+export const Personas: React.FC<PersonasProps> = ({ onEdit }) => {
+  const { personas, prompts, addPersona, updatePersona, deletePersona, importPersonas } = useStore();
+  const [editing, setEditing] = useState<{ persona: Persona; isNew: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (persona: Persona) => {
+    if (editing?.isNew) addPersona(persona);
+    else updatePersona(persona.id, persona);
+    setEditing(null);
+  };
+
+  const handleDelete = (persona: Persona) => {
+    const used = personaUsage(persona.id, prompts).length;
+    const warning = used
+      ? `Delete "${persona.name}"? ${used} narrative${used === 1 ? '' : 's'} keep their Tenor but lose the link to this persona.`
+      : `Delete "${persona.name}"?`;
+    if (confirm(warning)) deletePersona(persona.id);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parsePersonaBundle(await file.text());
+      importPersonas(parsed.personas);
+      if (parsed.issues.length) alert(`Imported ${parsed.personas.length}, left out ${parsed.issues.length}:\n${parsed.issues.join('\n')}`);
+    } catch (error) {
+      alert(error instanceof BundleError ? error.message : `Failed to read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = (chosen: Persona[]) => {
+    const name = chosen.length === 1 ? fileSlug(chosen[0].name) : 'sfl-personas';
+    downloadText(personasToJSON(chosen), `${name}.persona.json`, 'application/json');
+  };
+
+  return (
+    <div className="h-screen overflow-y-auto">
+      <div className="p-12 max-w-7xl mx-auto">
+        <header className="mb-10 flex justify-between items-end">
+          <div>
+            <h2 className="text-stone-500 dark:text-stone-400 text-sm uppercase tracking-widest mb-2 font-medium">Voices</h2>
+            <h1 className="text-5xl font-serif text-stone-900 dark:text-stone-50">Personas</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-3 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+            >
+              <Upload size={18} />
+              <span>Import</span>
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+            <button
+              onClick={() => handleExport(personas)}
+              disabled={personas.length === 0}
+              className="flex items-center gap-2 px-4 py-3 rounded-full text-stone-500 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors disabled:opacity-40"
+            >
+              <Download size={18} />
+              <span>Export all</span>
+            </button>
+            <button
+              onClick={() => setEditing({ persona: createPersona({ ...DEFAULT_TENOR, aiPersona: '' }), isNew: true })}
+              className="flex items-center gap-2 bg-stone-900 dark:bg-stone-100 text-stone-50 dark:text-stone-900 px-6 py-3 rounded-full hover:bg-stone-800 dark:hover:bg-white transition-colors shadow-lg hover:shadow-xl hover:-translate-y-0.5 transform duration-300"
+            >
+              <Plus size={18} />
+              <span className="font-medium">New Persona</span>
+            </button>
+          </div>
+        </header>
+
+        {personas.length === 0 ? (
+          <div className="text-center py-24 bg-white dark:bg-stone-900 rounded-3xl border border-stone-100 dark:border-stone-800 shadow-sm transition-colors">
+            <div className="w-16 h-16 bg-stone-100 dark:bg-stone-800 rounded-full flex items-center justify-center mx-auto mb-6 text-stone-400 dark:text-stone-500">
+              <UserRound size={24} />
+            </div>
+            <h3 className="text-xl font-serif mb-2 text-stone-800 dark:text-stone-200">No voices yet</h3>
+            <p className="text-stone-500 dark:text-stone-400 max-w-md mx-auto">
+              Create a persona here, or save one from the Persona chapter of the Architect after analyzing a voice.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {personas.map((persona, idx) => {
+              const usedBy = personaUsage(persona.id, prompts);
+              return (
+                <motion.div
+                  key={persona.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: idx * 0.05 }}
+                  className="group bg-white dark:bg-stone-900 p-6 rounded-2xl border border-stone-100 dark:border-stone-800 shadow-sm hover:shadow-md transition-all flex flex-col"
+                >
+                  <div className="flex items-start justify-between gap-2 mb-3">
+                    <div className="min-w-0">
+                      <h3 className="text-xl font-serif text-stone-900 dark:text-stone-50 truncate">{persona.name}</h3>
+                      {persona.name !== persona.tenor.aiPersona && (
+                        <p className="text-xs text-violet-600 dark:text-violet-400 truncate">{persona.tenor.aiPersona}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => setEditing({ persona, isNew: false })} title="Edit" className="p-1.5 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => handleExport([persona])} title="Export" className="p-1.5 text-stone-400 hover:text-stone-800 dark:hover:text-stone-200">
+                        <Download size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(persona)} title="Delete" className="p-1.5 text-stone-400 hover:text-red-500">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+
+                  {persona.description && <p className="text-sm text-stone-600 dark:text-stone-300 mb-3 line-clamp-3">{persona.description}</p>}
+
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {[persona.tenor.desiredTone, persona.tenor.interpersonalStance, ...persona.tenor.targetAudience].filter(Boolean).map((label, i) => (
+                      <span key={`${label}-${i}`} className="text-[10px] px-2 py-0.5 rounded-full bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400">{label}</span>
+                    ))}
+                  </div>
+
+                  {persona.tenor.voice && (
+                    <p className="flex items-center gap-1 text-[10px] text-violet-600 dark:text-violet-400 mb-3">
+                      <Fingerprint size={10} /> Voice fingerprint · {formalityLabel(persona.tenor.voice.formality)}
+                      {persona.tenor.voice.sentenceLength && ` · ~${persona.tenor.voice.sentenceLength.mean} words per sentence`}
+                    </p>
+                  )}
+
+                  {persona.sampleUtterances[0] && (
+                    <p className="flex gap-2 text-xs italic font-serif text-stone-500 dark:text-stone-400 mb-3">
+                      <Quote size={12} className="shrink-0 mt-0.5" />
+                      <span className="line-clamp-2">{persona.sampleUtterances[0]}</span>
+                    </p>
+                  )}
+
+                  <div className="mt-auto pt-3 border-t border-stone-100 dark:border-stone-800 space-y-2 text-xs text-stone-400 dark:text-stone-500">
+                    {persona.sourceFiles.length > 0 && (
+                      <div className="flex items-center gap-1 truncate" title={persona.sourceFiles.map(f => f.name).join('\n')}>
+                        <FileText size={12} /> Built from {persona.sourceFiles.length} file{persona.sourceFiles.length === 1 ? '' : 's'}
+                      </div>
+                    )}
+                    <div className="flex items-start gap-1">
+                      <BookOpen size={12} className="shrink-0 mt-0.5" />
+                      {usedBy.length === 0 ? (
+                        <span className="italic">Not used by any narrative</span>
+                      ) : (
+                        <span className="flex flex-wrap gap-x-2">
+                          {usedBy.map(prompt => (
+                            <button key={prompt.id} onClick={() => onEdit(prompt.id)} className="text-amber-700 dark:text-amber-500 hover:underline">
+                              {prompt.title}
+                            </button>
+                          ))}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <PersonaEditor
+          persona={editing.persona}
+          isNew={editing.isNew}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import { AnalysisOutputShape, AnalysisProfile, AnalysisProfiles, MediaKind } from '../types';
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  audio: 'Audio',
+  video: 'Video',
+  image: 'Images',
+  pdf: 'PDF'
+};
+
+export const OUTPUT_SHAPES: Record<AnalysisOutputShape, { label: string; directive: string }> = {
+  'structured': {
+    label: 'Structured',
+    directive: ''
+  },
+  'prose': {
+    label: 'Free text',
+    directive: ''
+  },
+  'transcript': {
+    label: 'Timestamped transcript',
+    directive: 'Format the result as a transcript with one utterance per line, written as "[mm:ss] Speaker N: text". Keep speaker labels consistent and use names where they are stated.'
+  },
+  'text-only': {
+    label: 'Text only (OCR)',
+    directive: 'Return only the text that appears in the media, in reading order and with its line breaks. Do not describe or interpret anything.'
+  },
+  'table': {
+    label: 'Tables',
+    directive: 'Extract every table as a GitHub-flavored Markdown table with a header row, each preceded by its caption or a short title. Leave out prose outside the tables.'
+  }
+};
+
+// Asked on top of the JSON schema when the output shape is 'structured'
+const STRUCTURED_DIRECTIVES: Record<MediaKind, string> = {
+  audio: 'Return the transcript as segments with start and end times in seconds and a consistent speaker label.',
+  video: 'Return the spoken words as segments with start and end times in seconds and a consistent speaker label. Add a segment with the speaker "On screen" for captions and notable visual events.',
+  image: 'Return a short caption, every line of visible text in reading order, and the notable objects or people.',
+  pdf: 'Return the document as sections that follow its headings, with the page each section starts on.'
+};
+
+// The models and instructions used before profiles were configurable
+export const DEFAULT_ANALYSIS_PROFILES: AnalysisProfiles = {
+  audio: {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    instruction: 'Transcribe this audio verbatim.',
+    outputShape: 'structured'
+  },
+  video: {
+    provider: 'gemini',
+    model: 'gemini-3-pro-preview',
+    instruction: 'Analyze this video and provide a comprehensive description of the visual and audio content, including any captions or spoken words.',
+    outputShape: 'structured'
+  },
+  image: {
+    provider: 'gemini',
+    model: 'gemini-3-pro-preview',
+    instruction: 'Analyze this image in detail. Describe the scene, objects, text, and mood.',
+    outputShape: 'structured'
+  },
+  pdf: {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    instruction: 'Analyze this document. Summarize the key points and extract the main content.',
+    outputShape: 'structured'
+  }
+};
+
+// Files the model has to look at; everything else is read locally
+export const mediaKindOf = (mimeType: string): MediaKind | null => {
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return null;
+};
+
+export const buildAnalysisInstruction = (profile: AnalysisProfile, kind: MediaKind): string => {
+  const directive = profile.outputShape === 'structured' ? STRUCTURED_DIRECTIVES[kind] : OUTPUT_SHAPES[profile.outputShape]?.directive;
+  return directive ? `${profile.instruction}\n\n${directive}` : profile.instruction;
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { attachmentBody, bm25Scores, chunkRanges, chunkText, chunkTexts, selectRelevantChunks, shouldChunk } from './attachmentChunks';
+import { estimateTokens } from './tokenBudget';
+import { Attachment } from '../types';
+
+const paragraph = (word: string, count = 150) => Array(count).fill(word).join(' ') + '.';
+
+const PARTS = [
+  'Quarterly revenue grew in Europe.',
+  'Hiring slowed across engineering.',
+  'Revenue in Asia was flat; revenue targets were missed.'
+];
+const SOURCE = PARTS.join('\n\n');
+const SUMMARIES = ['Revenue up in Europe.', 'Hiring slowed.', 'Asia flat.'];
+
+const chunked = (overrides: Partial<Attachment> = {}): Attachment => ({
+  id: 'a',
+  name: 'report.pdf',
+  type: 'pdf',
+  mimeType: 'application/pdf',
+  content: '',
+  analysis: SOURCE,
+  status: 'done',
+  chunks: PARTS.map((part, idx) => ({ start: SOURCE.indexOf(part), end: SOURCE.indexOf(part) + part.length, summary: SUMMARIES[idx] })),
+  ...overrides
+});
+
+const field = { topic: 'revenue', keywords: 'Asia' };
+
+describe('attachmentChunks', () => {
+  it('splits long text on paragraph boundaries into bounded chunks', () => {
+    const text = ['alpha', 'beta', 'gamma', 'delta'].map(w => paragraph(w)).join('\n\n');
+    const chunks = chunkText(text, 300);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(c => expect(estimateTokens(c)).toBeLessThanOrEqual(300));
+    expect(chunks.join(' ')).toContain('delta');
+  });
+
+  it('stores chunks as offsets into the text', () => {
+    const text = `  ${['alpha', 'beta', 'gamma'].map(w => paragraph(w)).join('\n\n')}\n`;
+    const ranges = chunkRanges(text, 300);
+    expect(ranges[0].start).toBe(2);
+    expect(ranges[ranges.length - 1].end).toBe(text.length - 1);
+    expect(ranges.map(r => text.slice(r.start, r.end))).toEqual(chunkText(text, 300));
+    expect(chunkTexts(chunked())).toEqual(PARTS);
+  });
+
+  it('cuts text with no separators by length', () => {
+    const chunks = chunkText('x'.repeat(5_000), 100);
+    expect(chunks.length).toBe(13);
+    expect(chunks.join('')).toHaveLength(5_000);
+  });
+
+  it('only chunks long text-like analyses', () => {
+    const long = paragraph('word', 2_000);
+    expect(shouldChunk({ type: 'pdf', name: 'a.pdf' }, long)).toBe(true);
+    expect(shouldChunk({ type: 'other', name: 'rows.jsonl' }, long)).toBe(true);
+    expect(shouldChunk({ type: 'image', name: 'a.png' }, long)).toBe(false);
+    expect(shouldChunk({ type: 'text', name: 'a.txt' }, 'short')).toBe(false);
+  });
+
+  it('ranks documents by BM25 against the query', () => {
+    const scores = bm25Scores('solar panels', ['wind turbines at sea', 'solar panels on roofs, solar farms', 'panels discussion']);
+    expect(scores[0]).toBe(0);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+  });
+
+  it('returns relevant chunks in document order', () => {
+    expect(selectRelevantChunks(PARTS, 'revenue Asia')).toEqual([0, 2]);
+    expect(selectRelevantChunks(PARTS, 'unrelated')).toEqual([]);
+  });
+
+  it('renders each inclusion mode', () => {
+    expect(attachmentBody(chunked(), field)).toBe(SOURCE);
+    expect(attachmentBody(chunked({ inclusion: 'full' }), field)).toBe(SOURCE);
+    expect(attachmentBody(chunked({ inclusion: 'summary' }), field)).toBe('[Summary]\nRevenue up in Europe.\nHiring slowed.\nAsia flat.');
+
+    const relevant = attachmentBody(chunked({ inclusion: 'relevant' }), field);
+    expect(relevant).toContain('[Part 1 of 3]');
+    expect(relevant).toContain('[Part 3 of 3]');
+    expect(relevant).not.toContain('Hiring');
+  });
+
+  it('falls back to the summary, then the opening parts, when nothing matches', () => {
+    const offTopic = { topic: 'gardening', keywords: '' };
+    expect(attachmentBody(chunked({ inclusion: 'relevant' }), offTopic)).toMatch(/^\[Summary\]/);
+
+    const unsummarized = chunked({ inclusion: 'summary', chunks: chunked().chunks!.map(({ start, end }) => ({ start, end })) });
+    expect(attachmentBody(unsummarized, field)).toMatch(/^\[Part 1 of 3\]\nQuarterly revenue/);
+  });
+});
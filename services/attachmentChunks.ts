@@ -0,0 +1,152 @@
+import { Attachment, AttachmentChunk, SFLField } from '../types';
+import { AttachmentCost, estimateTokens } from './tokenBudget';
+import { citedExcerpts } from './structuredAnalysis';
+
+// Analyses longer than this are split so the prompt can carry only what matters
+export const CHUNK_THRESHOLD_TOKENS = 1_500;
+const CHUNK_TOKENS = 600;
+
+// How many tokens of an attachment 'relevant' mode may contribute
+const RELEVANT_BUDGET_TOKENS = 1_500;
+
+type Span = Pick<AttachmentChunk, 'start' | 'end'>;
+
+// Split on paragraphs, falling back to lines and then sentences for long blocks,
+// and pack the pieces into chunks of roughly CHUNK_TOKENS. Chunks are offsets into
+// `text` so a saved attachment does not carry its analysis twice.
+export const chunkRanges = (text: string, maxTokens = CHUNK_TOKENS): Span[] => {
+  const pieces: Span[] = [];
+  const split = (start: number, end: number, separators: RegExp[]) => {
+    const block = text.slice(start, end);
+    if (estimateTokens(block) <= maxTokens || separators.length === 0) {
+      pieces.push({ start, end });
+      return;
+    }
+    const [separator, ...rest] = separators;
+    const parts: Span[] = [];
+    let from = 0;
+    for (const match of block.matchAll(new RegExp(separator.source, 'g'))) {
+      parts.push({ start: start + from, end: start + match.index! });
+      from = match.index! + match[0].length;
+    }
+    parts.push({ start: start + from, end });
+    const kept = parts.filter(part => text.slice(part.start, part.end).trim());
+    if (kept.length <= 1) {
+      // Nothing left to split on: cut by length
+      const size = maxTokens * 4;
+      for (let i = start; i < end; i += size) pieces.push({ start: i, end: Math.min(end, i + size) });
+      return;
+    }
+    kept.forEach(part => split(part.start, part.end, rest));
+  };
+  const leading = text.length - text.trimStart().length;
+  split(leading, text.trimEnd().length, [/\n\s*\n/, /\n/, /(?<=[.!?])\s+/]);
+
+  const chunks: Span[] = [];
+  let current: Span | null = null;
+  for (const piece of pieces) {
+    if (current && estimateTokens(text.slice(current.start, piece.end)) > maxTokens) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? { start: current.start, end: piece.end } : piece;
+    }
+  }
+  if (current && text.slice(current.start, current.end).trim()) chunks.push(current);
+  return chunks;
+};
+
+export const chunkText = (text: string, maxTokens = CHUNK_TOKENS): string[] =>
+  chunkRanges(text, maxTokens).map(range => text.slice(range.start, range.end));
+
+// The text of each chunk, cut from the analysis it points into
+export const chunkTexts = (attachment: Pick<Attachment, 'analysis' | 'chunks'>): string[] =>
+  (attachment.chunks || []).map(chunk => (attachment.analysis || '').slice(chunk.start, chunk.end));
+
+// Only text-like analyses are worth chunking; media descriptions are already summaries
+export const shouldChunk = (attachment: Pick<Attachment, 'type' | 'name'>, analysis: string) =>
+  (attachment.type === 'text' || attachment.type === 'pdf' || attachment.type === 'document' || /\.jsonl?$/i.test(attachment.name)) &&
+  estimateTokens(analysis) > CHUNK_THRESHOLD_TOKENS;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.filter(t => t.length > 1) ?? [];
+
+// Okapi BM25 of each document against the query terms
+export const bm25Scores = (query: string, documents: string[], k1 = 1.2, b = 0.75): number[] => {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length || !documents.length) return documents.map(() => 0);
+  const docs = documents.map(tokenize);
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const docFrequency = new Map(terms.map(term => [term, docs.filter(d => d.includes(term)).length]));
+
+  return docs.map(doc => terms.reduce((score, term) => {
+    const frequency = doc.filter(t => t === term).length;
+    if (!frequency) return score;
+    const df = docFrequency.get(term)!;
+    const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+    return score + idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * doc.length / avgLength));
+  }, 0));
+};
+
+export const relevanceQuery = (field: Pick<SFLField, 'topic' | 'keywords'>) => `${field.topic} ${field.keywords}`;
+
+// Highest-scoring chunks that fit the budget, returned in document order
+export const selectRelevantChunks = (texts: string[], query: string, budgetTokens = RELEVANT_BUDGET_TOKENS): number[] => {
+  const scores = bm25Scores(query, texts);
+  const ranked = scores.map((score, idx) => ({ score, idx })).filter(r => r.score > 0).sort((a, b) => b.score - a.score);
+  const picked: number[] = [];
+  let used = 0;
+  for (const { idx } of ranked) {
+    const cost = estimateTokens(texts[idx]);
+    if (picked.length && used + cost > budgetTokens) continue;
+    picked.push(idx);
+    used += cost;
+  }
+  return picked.sort((a, b) => a - b);
+};
+
+// Chunk summaries in order; undefined until at least one has been written
+export const attachmentSummary = (attachment: Attachment): string | undefined => {
+  const summaries = attachment.chunks?.map(c => c.summary).filter(Boolean);
+  return summaries?.length ? summaries.join('\n') : undefined;
+};
+
+// Opening chunks up to the budget, for when neither a summary nor a relevant chunk is available
+const leadingChunks = (texts: string[], budgetTokens = RELEVANT_BUDGET_TOKENS): number[] => {
+  const picked: number[] = [];
+  let used = 0;
+  for (let idx = 0; idx < texts.length; idx++) {
+    used += estimateTokens(texts[idx]);
+    if (picked.length && used > budgetTokens) break;
+    picked.push(idx);
+  }
+  return picked;
+};
+
+const renderParts = (texts: string[], picked: number[]) =>
+  picked.map(idx => `[Part ${idx + 1} of ${texts.length}]\n${texts[idx]}`).join('\n[…]\n');
+
+// The text an attachment contributes to the compiled prompt under its inclusion mode
+export const attachmentBody = (attachment: Attachment, field: Pick<SFLField, 'topic' | 'keywords'>): string => {
+  const analysis = attachment.analysis || '';
+  if (attachment.inclusion === 'cited') {
+    const cited = citedExcerpts(attachment);
+    return cited ? `[Cited excerpts]\n${cited}` : analysis;
+  }
+  if (!attachment.chunks?.length || !attachment.inclusion || attachment.inclusion === 'full') return analysis;
+
+  const texts = chunkTexts(attachment);
+  const summary = attachmentSummary(attachment);
+  const fallback = () => summary ? `[Summary]\n${summary}` : renderParts(texts, leadingChunks(texts));
+  if (attachment.inclusion === 'summary') return fallback();
+
+  const picked = selectRelevantChunks(texts, relevanceQuery(field));
+  return picked.length ? renderParts(texts, picked) : fallback();
+};
+
+// Cost of each attachment as it appears in the compiled prompt, largest first
+export const attachmentCosts = (attachments: Attachment[], field: Pick<SFLField, 'topic' | 'keywords'>): AttachmentCost[] =>
+  attachments
+    .filter(a => a.status === 'done' && a.analysis)
+    .map(a => ({ id: a.id, name: a.name, tokens: estimateTokens(`### Attachment: ${a.name} (${a.type})\n${attachmentBody(a, field)}`) }))
+    .sort((a, b) => b.tokens - a.tokens);
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JobUpdate, ProcessingQueue, applyJobToAttachment, isTransientError } from './attachmentProcessing';
+import { Attachment, ProcessingJob } from '../types';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const recordingQueue = (concurrency = 1) => {
+  const updates: [string, JobUpdate<string>][] = [];
+  const queue = new ProcessingQueue<string>({ concurrency, baseDelayMs: 1, onUpdate: (id, update) => updates.push([id, update]) });
+  const statuses = (id: string) => updates.filter(([jobId, u]) => jobId === id && u.status).map(([, u]) => u.status);
+  return { queue, updates, statuses };
+};
+
+describe('ProcessingQueue', () => {
+  it('runs no more tasks at once than the concurrency allows', async () => {
+    const { queue } = recordingQueue(2);
+    const gates = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+    gates.forEach((gate, idx) => queue.enqueue(`job${idx}`, async () => { started.push(idx); return gate.promise; }));
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+    gates[0].resolve('done');
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('retries transient failures with backoff and reports the result', async () => {
+    const { queue, statuses, updates } = recordingQueue();
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockResolvedValueOnce('analysis');
+    queue.enqueue('a', task);
+
+    await vi.waitFor(() => expect(statuses('a')).toContain('done'));
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(statuses('a')).toEqual(['queued', 'running', 'retrying', 'running', 'done']);
+    expect(updates.at(-1)![1].result).toBe('analysis');
+  });
+
+  it('removes its abort listeners once each attempt and backoff settles', async () => {
+    const { queue, statuses } = recordingQueue();
+    let added: ReturnType<typeof vi.spyOn> | undefined;
+    let removed: ReturnType<typeof vi.spyOn> | undefined;
+    const task = vi.fn(async (signal: AbortSignal) => {
+      added ??= vi.spyOn(signal, 'addEventListener');
+      removed ??= vi.spyOn(signal, 'removeEventListener');
+      if (task.mock.calls.length === 1) throw new Error('503 Service Unavailable');
+      return 'analysis';
+    });
+    queue.enqueue('a', task);
+
+    await vi.waitFor(() => expect(statuses('a')).toContain('done'));
+    await flush();
+    expect(added!.mock.calls.length).toBe(3);
+    expect(removed!.mock.calls.length).toBe(3);
+  });
+
+  it('fails immediately with the real error text when the error is not transient', async () => {
+    const { queue, statuses, updates } = recordingQueue();
+    const task = vi.fn().mockRejectedValue(new Error('API key not valid'));
+    queue.enqueue('a', task);
+
+    await vi.waitFor(() => expect(statuses('a')).toContain('error'));
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(updates.at(-1)![1].error).toBe('API key not valid');
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { queue, statuses } = recordingQueue();
+    const task = vi.fn().mockRejectedValue(new Error('503 Service Unavailable'));
+    queue.enqueue('a', task);
+
+    await vi.waitFor(() => expect(statuses('a')).toContain('error'));
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('cancels a running task, ignores its late result and starts the next one', async () => {
+    const { queue, statuses } = recordingQueue();
+    const gate = deferred<string>();
+    const second = vi.fn(async () => 'second');
+    queue.enqueue('a', () => gate.promise);
+    queue.enqueue('b', second);
+    await flush();
+
+    queue.cancel('a');
+    gate.resolve('too late');
+    await vi.waitFor(() => expect(statuses('b')).toContain('done'));
+    expect(statuses('a')).toEqual(['queued', 'running', 'cancelled']);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe('isTransientError', () => {
+  it('separates retryable failures from permanent ones', () => {
+    expect(isTransientError(new Error('The model is overloaded. Please try again later.'))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('x'), { status: 500 }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('x'), { status: 400 }))).toBe(false);
+    expect(isTransientError(new Error('Unsupported MIME type'))).toBe(false);
+  });
+});
+
+describe('applyJobToAttachment', () => {
+  const attachment: Attachment = { id: 'a', name: 'notes.txt', type: 'text', mimeType: 'text/plain', content: '', status: 'processing' };
+  const job = (overrides: Partial<ProcessingJob>): ProcessingJob => ({ attachmentId: 'a', fileName: 'notes.txt', status: 'running', progress: 0, attempt: 1, ...overrides });
+
+  it('keeps the same object when nothing changes', () => {
+    expect(applyJobToAttachment(attachment, job({}))).toBe(attachment);
+  });
+
+  it('writes the result and defaults chunked attachments to relevant parts', () => {
+    const chunks = [{ start: 0, end: 3 }, { start: 4, end: 7 }];
+    const done = applyJobToAttachment(attachment, job({ status: 'done', result: { analysis: 'one two', chunks } }));
+    expect(done).toMatchObject({ status: 'done', analysis: 'one two', chunks, inclusion: 'relevant' });
+    expect(applyJobToAttachment(done, job({ status: 'done', result: { analysis: 'one two', chunks } }))).toBe(done);
+  });
+
+  it('shows the error text from the job', () => {
+    expect(applyJobToAttachment(attachment, job({ status: 'error', error: 'Quota exceeded' }))).toMatchObject({ status: 'error', errorMessage: 'Quota exceeded' });
+  });
+});
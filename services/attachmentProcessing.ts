@@ -0,0 +1,192 @@
+import { AnalysisProfile, Attachment, AttachmentAnalysis, ModelTarget, ProcessingJob } from '../types';
+import { GeminiService } from './geminiService';
+import { chunkRanges, shouldChunk } from './attachmentChunks';
+
+export const DEFAULT_PROCESSING_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 2_000;
+
+export type ReportProgress = (progress: number, stage: string) => void;
+export type ProcessingTask<T> = (signal: AbortSignal, report: ReportProgress) => Promise<T>;
+export type JobUpdate<T> = Partial<Omit<ProcessingJob, 'result'>> & { result?: T };
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Processing was cancelled.');
+    this.name = 'CancelledError';
+  }
+}
+
+// Rate limits, overloaded models and dropped connections are worth another try;
+// bad input or a missing key is not
+export const isTransientError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  return /\b(408|429|5\d\d)\b|rate.?limit|overloaded|unavailable|resource.?exhausted|timed? ?out|deadline|network|failed to fetch|econnreset/i.test(message);
+};
+
+export const errorText = (error: unknown): string =>
+  error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => { clearTimeout(timer); reject(new CancelledError()); };
+  const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// Providers cannot abort a request in flight, so cancellation stops waiting for it instead
+const untilAborted = <T>(promise: Promise<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  const onAbort = () => reject(new CancelledError());
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+interface QueueOptions<T> {
+  concurrency: number;
+  onUpdate: (id: string, update: JobUpdate<T>) => void;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+// Runs tasks a few at a time with exponential backoff on transient failures.
+// Every state change is reported through onUpdate; the queue keeps no results.
+export class ProcessingQueue<T> {
+  private pending: { id: string; task: ProcessingTask<T> }[] = [];
+  private active = new Map<string, AbortController>();
+
+  constructor(private options: QueueOptions<T>) {}
+
+  enqueue(id: string, task: ProcessingTask<T>) {
+    this.drop(id);
+    this.pending.push({ id, task });
+    this.options.onUpdate(id, { status: 'queued', progress: 0, attempt: 0, stage: 'Waiting', error: undefined });
+    this.pump();
+  }
+
+  cancel(id: string) {
+    if (!this.drop(id)) return;
+    this.options.onUpdate(id, { status: 'cancelled', stage: undefined, error: new CancelledError().message });
+    this.pump();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.options.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  get size() {
+    return this.pending.length + this.active.size;
+  }
+
+  private drop(id: string): boolean {
+    const queued = this.pending.length;
+    this.pending = this.pending.filter(job => job.id !== id);
+    const controller = this.active.get(id);
+    controller?.abort();
+    this.active.delete(id);
+    return !!controller || this.pending.length !== queued;
+  }
+
+  private pump() {
+    while (this.active.size < this.options.concurrency && this.pending.length) {
+      const next = this.pending.shift()!;
+      const controller = new AbortController();
+      this.active.set(next.id, controller);
+      this.run(next.id, next.task, controller).finally(() => {
+        if (this.active.get(next.id) === controller) this.active.delete(next.id);
+        this.pump();
+      });
+    }
+  }
+
+  private async run(id: string, task: ProcessingTask<T>, controller: AbortController) {
+    const { signal } = controller;
+    const { onUpdate, maxAttempts = MAX_ATTEMPTS, baseDelayMs = BASE_DELAY_MS } = this.options;
+    const report: ReportProgress = (progress, stage) => {
+      if (!signal.aborted) onUpdate(id, { progress, stage });
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      onUpdate(id, { status: 'running', attempt, error: undefined });
+      try {
+        const result = await untilAborted(task(signal, report), signal);
+        onUpdate(id, { status: 'done', progress: 1, stage: undefined, result });
+        return;
+      } catch (error) {
+        if (signal.aborted) return;
+        if (attempt >= maxAttempts || !isTransientError(error)) {
+          onUpdate(id, { status: 'error', stage: undefined, error: errorText(error) });
+          return;
+        }
+        const delay = baseDelayMs * 2 ** (attempt - 1);
+        onUpdate(id, { status: 'retrying', stage: `Retrying in ${Math.round(delay / 1000)}s`, error: errorText(error) });
+        try {
+          await wait(delay, signal);
+        } catch {
+          return;
+        }
+      }
+    }
+  }
+}
+
+// Analysis plus chunking and per-part summaries for one attachment file
+export const analyzeAttachmentFile = async (
+  service: GeminiService,
+  target: ModelTarget,
+  attachment: Pick<Attachment, 'type' | 'name'>,
+  file: File,
+  report: ReportProgress,
+  profile?: AnalysisProfile,
+  signal?: AbortSignal
+): Promise<AttachmentAnalysis> => {
+  report(0.1, attachment.type === 'audio' ? 'Transcribing' : attachment.type === 'video' ? 'Analyzing frames' : 'Analyzing');
+  const { analysis = '', structured } = await service.processFile(file, profile, signal);
+  if (!shouldChunk(attachment, analysis)) return { analysis, structured };
+
+  const ranges = chunkRanges(analysis);
+  const texts = ranges.map(range => analysis.slice(range.start, range.end));
+  report(0.5, `Summarizing ${texts.length} parts`);
+  let summaries: string[] = [];
+  try {
+    summaries = await service.summarizeChunks(texts, target, (done, total) =>
+      report(0.5 + 0.5 * done / total, `Summarizing ${texts.length} parts`));
+  } catch (error) {
+    // Summaries are a convenience; full and relevant modes work without them
+    console.warn(`Summaries for ${attachment.name} failed`, error);
+  }
+  return { analysis, structured, chunks: ranges.map((range, idx) => ({ ...range, summary: summaries[idx] || undefined })) };
+};
+
+// Reflect a job's state on the attachment it belongs to. Returns the same object
+// when nothing changed so callers can skip re-rendering.
+export const applyJobToAttachment = (attachment: Attachment, job: ProcessingJob): Attachment => {
+  switch (job.status) {
+    case 'queued':
+    case 'running':
+    case 'retrying':
+      return attachment.status === 'processing' ? attachment : { ...attachment, status: 'processing', errorMessage: undefined };
+    case 'done': {
+      const result = job.result!;
+      if (attachment.status === 'done' && attachment.analysis === result.analysis && attachment.chunks === result.chunks && attachment.structured === result.structured) return attachment;
+      return {
+        ...attachment,
+        status: 'done',
+        errorMessage: undefined,
+        analysis: result.analysis,
+        chunks: result.chunks,
+        structured: result.structured,
+        // A fresh analysis renumbers its segments, so earlier citations no longer apply
+        citations: undefined,
+        inclusion: result.chunks ? (attachment.inclusion === 'cited' ? 'relevant' : attachment.inclusion ?? 'relevant') : undefined
+      };
+    }
+    case 'error':
+    case 'cancelled':
+      return attachment.status === 'error' && attachment.errorMessage === job.error
+        ? attachment
+        : { ...attachment, status: 'error', errorMessage: job.error };
+  }
+};
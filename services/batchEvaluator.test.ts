@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseDataset, resultsToCSV, runBatch } from './batchEvaluator';
+import { GeminiService } from './geminiService';
+import { MockProvider } from './providers/mockProvider';
+import { DEFAULT_MODE, DEFAULT_PROVIDER_SETTINGS, DEFAULT_TENOR, PromptSFL } from '../types';
+
+const prompt: PromptSFL = {
+  id: 'p',
+  title: 'Greeting',
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: { topic: 'Welcome {{name}}', taskType: 'Email', domainSpecifics: '', keywords: '' },
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE,
+  variables: [{ name: 'name', type: 'text', required: true }]
+};
+
+describe('batchEvaluator', () => {
+  it('parses one object per line and reports bad lines', () => {
+    const { rows, errors } = parseDataset('{"name":"Ada"}\n\nnot json\n[1]\n{"name":"Lin","age":3}');
+    expect(rows).toEqual([
+      { line: 1, inputs: { name: 'Ada' } },
+      { line: 5, inputs: { name: 'Lin', age: '3' } }
+    ]);
+    expect(errors).toEqual(['Line 3: invalid JSON', 'Line 4: expected an object of variable values']);
+  });
+
+  it('runs every row, binding its inputs, and records failures without stopping', async () => {
+    const mock = new MockProvider({ stream: ['Hello'] });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+    const seen: number[] = [];
+    const results = await runBatch(
+      prompt,
+      [{ line: 1, inputs: { name: 'Ada' } }, { line: 2, inputs: {} }, { line: 3, inputs: { name: 'Lin' } }],
+      service,
+      { provider: 'mock', model: 'm' },
+      { concurrency: 2, onResult: r => seen.push(r.line) }
+    );
+
+    expect(results.map(r => r.line)).toEqual([1, 2, 3]);
+    expect(seen.sort()).toEqual([1, 2, 3]);
+    expect(results[0]).toMatchObject({ output: 'Hello', outputLength: 5 });
+    expect(results[1].error).toMatch(/Missing required variables: \{\{name\}\}/);
+    const sent = mock.calls.map(c => (c.method === 'streamText' ? c.prompt : ''));
+    expect(sent.some(p => p.includes('Welcome Ada'))).toBe(true);
+    expect(sent.some(p => p.includes('Welcome Lin'))).toBe(true);
+  });
+
+  it('sends the narrative config over the workspace defaults', async () => {
+    const mock = new MockProvider();
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+    await runBatch(
+      { ...prompt, generationConfig: { temperature: 0.9 } },
+      [{ line: 1, inputs: { name: 'Ada' } }],
+      service,
+      { provider: 'mock', model: 'm' },
+      { generationDefaults: { temperature: 0.1, maxOutputTokens: 64 } }
+    );
+    expect(mock.calls[0]).toMatchObject({ method: 'streamText', config: { temperature: 0.9, maxOutputTokens: 64 } });
+  });
+
+  it('checks each output against the response schema', async () => {
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock: new MockProvider({ stream: ['{"greeting":', ' 3}'] }) });
+    const schema = JSON.stringify({ type: 'object', properties: { greeting: { type: 'string' } }, required: ['greeting'] });
+    const [result] = await runBatch({ ...prompt, responseSchema: schema }, [{ line: 1, inputs: { name: 'Ada' } }], service, { provider: 'mock', model: 'm' });
+    expect(result.schemaIssues).toEqual(['$.greeting expected string, got integer']);
+    expect(resultsToCSV([result]).split('\n')[1].endsWith(',"$.greeting expected string, got integer"')).toBe(true);
+  });
+
+  it('stops picking up rows once cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock: new MockProvider() });
+    const results = await runBatch(prompt, [{ line: 1, inputs: { name: 'Ada' } }], service, { provider: 'mock', model: 'm' }, { signal: controller.signal });
+    expect(results).toEqual([]);
+  });
+
+  it('quotes CSV cells that contain separators', () => {
+    const csv = resultsToCSV([{ line: 1, inputs: { name: 'Ada' }, output: 'Hi, "Ada"', latencyMs: 12.4, outputLength: 9 }]);
+    expect(csv.split('\n')[1]).toBe('1,"{""name"":""Ada""}",ok,12,9,"Hi, ""Ada""",,');
+  });
+});
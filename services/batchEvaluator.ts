@@ -0,0 +1,150 @@
+import { GeminiService } from './geminiService';
+import { compilePrompt } from './compileTargets';
+import { bindVariables } from './templateVariables';
+import { checkStructuredOutput, requestConfigFor } from './structuredOutput';
+import { formatIssue } from './jsonSchema';
+import { GenerationConfig, ModelTarget, PromptSFL } from '../types';
+
+export interface DatasetRow {
+  line: number; // 1-based line in the source file
+  inputs: Record<string, string>;
+}
+
+export interface BatchResult {
+  line: number;
+  inputs: Record<string, string>;
+  output: string;
+  latencyMs: number;
+  outputLength: number;
+  error?: string;
+  schemaIssues?: string[]; // Set when the narrative has a response schema; empty means the output matched
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onResult?: (result: BatchResult) => void;
+  generationDefaults?: GenerationConfig; // Workspace defaults under the narrative's own config
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+
+// One JSON object per line; its keys are the narrative's {{variables}}.
+// Unreadable lines are reported rather than silently dropped.
+export const parseDataset = (text: string): { rows: DatasetRow[]; errors: string[] } => {
+  const rows: DatasetRow[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, idx) => {
+    if (raw.trim() === '') return;
+    const line = idx + 1;
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      errors.push(`Line ${line}: invalid JSON`);
+      return;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`Line ${line}: expected an object of variable values`);
+      return;
+    }
+    const inputs = Object.fromEntries(Object.entries(value).map(([key, v]) =>
+      [key, typeof v === 'string' ? v : JSON.stringify(v)]
+    ));
+    rows.push({ line, inputs });
+  });
+
+  return { rows, errors };
+};
+
+const runRow = async (
+  prompt: PromptSFL,
+  row: DatasetRow,
+  service: GeminiService,
+  target: ModelTarget,
+  generationDefaults: GenerationConfig,
+  signal?: AbortSignal
+): Promise<BatchResult> => {
+  const started = performance.now();
+  let output = '';
+  try {
+    const bound = bindVariables(
+      { field: prompt.sflField, tenor: prompt.sflTenor, mode: prompt.sflMode },
+      prompt.variables || [],
+      row.inputs
+    );
+    const compiled = compilePrompt(prompt.compileTarget, bound.field, bound.tenor, bound.mode, prompt.attachments, prompt.examples);
+    const config = requestConfigFor(generationDefaults, prompt);
+    for await (const chunk of service.executePromptStream(compiled.prompt, target, compiled.system, config)) {
+      if (signal?.aborted) throw new Error('Cancelled');
+      output += chunk;
+    }
+    const schemaIssues = config.responseSchema && checkStructuredOutput(output, config.responseSchema).issues.map(formatIssue);
+    return {
+      line: row.line,
+      inputs: row.inputs,
+      output,
+      latencyMs: performance.now() - started,
+      outputLength: output.length,
+      ...(schemaIssues ? { schemaIssues } : {})
+    };
+  } catch (error) {
+    return {
+      line: row.line,
+      inputs: row.inputs,
+      output,
+      latencyMs: performance.now() - started,
+      outputLength: output.length,
+      error: (error as Error).message
+    };
+  }
+};
+
+// Run the narrative once per row with at most `concurrency` requests in flight.
+// A failing row is recorded and the batch carries on. Results keep dataset order.
+export const runBatch = async (
+  prompt: PromptSFL,
+  rows: DatasetRow[],
+  service: GeminiService,
+  target: ModelTarget,
+  { concurrency = DEFAULT_CONCURRENCY, signal, onResult, generationDefaults = {} }: BatchOptions = {}
+): Promise<BatchResult[]> => {
+  const results: BatchResult[] = new Array(rows.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < rows.length && !signal?.aborted) {
+      const index = next++;
+      const result = await runRow(prompt, rows[index], service, target, generationDefaults, signal);
+      results[index] = result;
+      onResult?.(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, rows.length)) }, worker));
+  return results.filter(Boolean);
+};
+
+export const resultsToJSONL = (results: BatchResult[]): string =>
+  results.map(r => JSON.stringify(r)).join('\n');
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const resultsToCSV = (results: BatchResult[]): string => {
+  const header = ['line', 'inputs', 'status', 'latency_ms', 'output_length', 'output', 'error', 'schema_issues'];
+  const lines = results.map(r => [
+    r.line,
+    JSON.stringify(r.inputs),
+    r.error ? 'error' : 'ok',
+    Math.round(r.latencyMs),
+    r.outputLength,
+    r.output,
+    r.error || '',
+    (r.schemaIssues || []).join('; ')
+  ].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+};
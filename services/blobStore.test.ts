@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { formatBytes, libraryFootprint, orphanedBlobIds, referencedBlobIds } from './blobStore';
+import { BACKUP_KEY, STORE_KEY } from './storeMigrations';
+import { Attachment, Persona, PromptSFL, DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR } from '../types';
+
+const attachment = (blobId?: string): Attachment => ({
+  id: `att-${blobId}`, name: 'clip.mp3', type: 'audio', mimeType: 'audio/mpeg', content: '', blobId, status: 'done'
+});
+
+const makePrompt = (id: string, attachments: Attachment[], history: Attachment[][] = []): PromptSFL => ({
+  id,
+  title: id,
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: DEFAULT_FIELD,
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE,
+  attachments,
+  versions: history.map((list, idx) => ({
+    id: `v${idx}`, savedAt: 1, title: id, description: '', sflField: DEFAULT_FIELD, sflTenor: DEFAULT_TENOR, sflMode: DEFAULT_MODE, attachments: list
+  }))
+});
+
+describe('blobStore references', () => {
+  it('collects blob ids from current attachments and version history', () => {
+    const prompt = makePrompt('a', [attachment('b1'), attachment()], [[attachment('b0')]]);
+    expect([...referencedBlobIds([prompt])].sort()).toEqual(['b0', 'b1']);
+  });
+
+  it('only orphans blobs that no remaining narrative references', () => {
+    const deleted = makePrompt('a', [attachment('own'), attachment('shared')]);
+    const remaining = makePrompt('b', [], [[attachment('shared')]]);
+    expect(orphanedBlobIds([deleted], [remaining])).toEqual(['own']);
+  });
+
+  it('keeps blobs a library persona was built from', () => {
+    const deleted = makePrompt('a', [attachment('voice'), attachment('own')]);
+    const persona: Persona = {
+      id: 'p', name: 'Host', description: '', tenor: DEFAULT_TENOR, sampleUtterances: [],
+      sourceFiles: [{ name: 'voice.mp3', mimeType: 'audio/mpeg', blobId: 'voice' }], createdAt: 1, updatedAt: 1
+    };
+    expect(orphanedBlobIds([deleted], [], [persona])).toEqual(['own']);
+    expect(referencedBlobIds([], [persona]).has('voice')).toBe(true);
+  });
+
+  it('formats byte counts for the quota report', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(250 * 1024 * 1024)).toBe('250 MB');
+  });
+
+  it('measures the saved library and its backup in localStorage', () => {
+    localStorage.setItem(STORE_KEY, 'x'.repeat(40));
+    localStorage.setItem(BACKUP_KEY, 'y'.repeat(2));
+    expect(libraryFootprint()).toBe(42);
+    localStorage.removeItem(STORE_KEY);
+    localStorage.removeItem(BACKUP_KEY);
+    expect(libraryFootprint()).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+import { Persona, PromptSFL } from '../types';
+import { BACKUP_KEY, STORE_KEY } from './storeMigrations';
+
+// Original attachment files live in IndexedDB, keyed by Attachment.blobId.
+// localStorage only ever holds the reference and the analysis text.
+
+const DB_NAME = 'sfl-narrative-blobs';
+const STORE_NAME = 'blobs';
+
+interface StoredBlob {
+  id: string;
+  blob: Blob;
+  storedAt: number;
+}
+
+// Browsers give each site about five million characters of localStorage
+export const LOCAL_STORAGE_LIMIT = 5 * 1024 * 1024;
+
+export interface StorageReport {
+  blobCount: number;
+  blobBytes: number;
+  libraryChars: number; // The saved library in localStorage, with any recovery backup; the limit that fills first
+
+  // Origin-wide figures from the browser; undefined where the estimate API is missing
+  usage?: number;
+  quota?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB, so original files cannot be kept.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction aborted'));
+  });
+};
+
+export const putBlob = async (id: string, blob: Blob): Promise<void> => {
+  try {
+    await run('readwrite', store => store.put({ id, blob, storedAt: Date.now() } satisfies StoredBlob));
+  } catch (e) {
+    if ((e as DOMException)?.name === 'QuotaExceededError') {
+      throw new Error('Browser storage is full. Delete unused narratives or clean up stored files in Preferences.');
+    }
+    throw e;
+  }
+};
+
+export const getBlob = async (id: string): Promise<Blob | undefined> => {
+  const record = await run<StoredBlob | undefined>('readonly', store => store.get(id));
+  return record?.blob;
+};
+
+export const deleteBlobs = async (ids: string[]): Promise<void> => {
+  if (!ids.length) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const listBlobs = (): Promise<StoredBlob[]> => run<StoredBlob[]>('readonly', store => store.getAll());
+
+export const libraryFootprint = (): number =>
+  (localStorage.getItem(STORE_KEY)?.length ?? 0) + (localStorage.getItem(BACKUP_KEY)?.length ?? 0);
+
+export const getStorageReport = async (): Promise<StorageReport> => {
+  const blobs = await listBlobs();
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return {
+    blobCount: blobs.length,
+    blobBytes: blobs.reduce((sum, b) => sum + b.blob.size, 0),
+    libraryChars: libraryFootprint(),
+    usage: estimate?.usage,
+    quota: estimate?.quota
+  };
+};
+
+// Every blob a narrative can still reach, including through its version history,
+// plus the source files of library personas
+export const referencedBlobIds = (prompts: PromptSFL[], personas: Persona[] = []): Set<string> => {
+  const ids = new Set<string>();
+  for (const prompt of prompts) {
+    const snapshots = [prompt.attachments, ...(prompt.versions || []).map(v => v.attachments)];
+    snapshots.forEach(list => list?.forEach(a => a.blobId && ids.add(a.blobId)));
+  }
+  personas.forEach(persona => persona.sourceFiles.forEach(f => f.blobId && ids.add(f.blobId)));
+  return ids;
+};
+
+// Blobs that only the removed narratives pointed at
+export const orphanedBlobIds = (removed: PromptSFL[], remaining: PromptSFL[], personas: Persona[] = []): string[] => {
+  const kept = referencedBlobIds(remaining, personas);
+  return [...referencedBlobIds(removed)].filter(id => !kept.has(id));
+};
+
+// Sweep every stored blob nothing saved references, e.g. files left by abandoned drafts
+export const collectGarbage = async (prompts: PromptSFL[], personas: Persona[] = []): Promise<number> => {
+  const live = referencedBlobIds(prompts, personas);
+  const stale = (await listBlobs()).map(b => b.id).filter(id => !live.has(id));
+  await deleteBlobs(stale);
+  return stale.length;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { appendTurn, chatContext, contextFingerprint, createChatSession, sessionTitle, transcriptToMarkdown } from './chatSession';
+import { compilePrompt } from './compileTargets';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR } from '../types';
+
+const TARGET = { provider: 'mock' as const, model: 'mock-narrator' };
+
+describe('chatSession', () => {
+  it('uses the whole compiled narrative as the system context in every layout', () => {
+    const markdown = compilePrompt('markdown', DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE);
+    const split = compilePrompt('chat-split', DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE);
+    expect(chatContext(markdown)).toBe(markdown.text);
+    expect(chatContext(split)).toContain('(Tenor)');
+    expect(chatContext(split)).toContain('(Field)');
+  });
+
+  it('remembers a fingerprint of the context rather than the context', () => {
+    const session = createChatSession('You are a bard.', TARGET);
+    expect(session).not.toHaveProperty('system');
+    expect(session.contextHash).toBe(contextFingerprint('You are a bard.'));
+    expect(contextFingerprint('You are a bard!')).not.toBe(session.contextHash);
+  });
+
+  it('names a session after its opening message', () => {
+    let session = createChatSession('You are a bard.', TARGET);
+    expect(session.title).toBe('New conversation');
+    session = appendTurn(session, 'user', '  Tell me\nabout the sea ');
+    session = appendTurn(session, 'model', 'The sea is wide.');
+    expect(session.title).toBe('Tell me about the sea');
+    expect(session.turns.map(t => t.role)).toEqual(['user', 'model']);
+    expect(sessionTitle([{ role: 'user', text: 'x'.repeat(80), at: 1 }])).toHaveLength(60);
+  });
+
+  it('writes a readable transcript', () => {
+    const session = appendTurn(appendTurn(createChatSession('', TARGET), 'user', 'Hello'), 'model', 'Hi there');
+    const transcript = transcriptToMarkdown(session, 'Bard bot');
+    expect(transcript).toContain('# Hello');
+    expect(transcript).toContain('Bard bot · mock/mock-narrator');
+    expect(transcript).toContain('**User:**\n\nHello\n\n**Model:**\n\nHi there');
+  });
+});
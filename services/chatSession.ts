@@ -0,0 +1,53 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CompiledPrompt } from './compileTargets';
+import { ChatSession, ChatTurn, ModelTarget } from '../types';
+
+const MAX_TITLE_LENGTH = 60;
+
+// Saved conversations kept per narrative, newest first
+export const MAX_CHAT_SESSIONS = 20;
+
+// The whole compiled narrative becomes the system context. The chat layouts split it
+// into two turns, which are joined again here so the user turn is free for the conversation.
+export const chatContext = (compiled: CompiledPrompt): string =>
+  compiled.system ? `${compiled.system}\n\n${compiled.prompt}` : compiled.prompt;
+
+// Sessions keep a fingerprint of their context rather than a copy of it, which would
+// repeat every attachment. FNV-1a over UTF-16 code units, plus the length.
+export const contextFingerprint = (context: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < context.length; i++) {
+    hash ^= context.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${context.length.toString(36)}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+export const createChatSession = (context: string, target: ModelTarget): ChatSession => ({
+  id: uuidv4(),
+  title: 'New conversation',
+  contextHash: contextFingerprint(context),
+  provider: target.provider,
+  model: target.model,
+  turns: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+// Named after the opening message, like most chat apps
+export const sessionTitle = (turns: ChatTurn[]): string => {
+  const opening = turns.find(t => t.role === 'user')?.text.replace(/\s+/g, ' ').trim();
+  if (!opening) return 'New conversation';
+  return opening.length > MAX_TITLE_LENGTH ? `${opening.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : opening;
+};
+
+export const appendTurn = (session: ChatSession, role: ChatTurn['role'], text: string): ChatSession => {
+  const turns = [...session.turns, { role, text, at: Date.now() }];
+  return { ...session, turns, title: sessionTitle(turns), updatedAt: Date.now() };
+};
+
+export const transcriptToMarkdown = (session: ChatSession, promptTitle: string): string => [
+  `# ${session.title}`,
+  `_${promptTitle} · ${session.provider}/${session.model} · ${new Date(session.createdAt).toLocaleString()}_`,
+  ...session.turns.map(turn => `**${turn.role === 'user' ? 'User' : 'Model'}:**\n\n${turn.text}`)
+].join('\n\n');
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { compileSFLPrompt, compilePrompt } from './compileTargets';
+import { Attachment, PromptExample, DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR } from '../types';
+
+const attachment = (overrides: Partial<Attachment>): Attachment => ({
+  id: 'a1',
+  name: 'notes.md',
+  type: 'text',
+  mimeType: 'text/markdown',
+  content: '',
+  status: 'done',
+  analysis: 'Reference body',
+  ...overrides
+});
+
+const examples: PromptExample[] = [
+  { id: 'e1', input: 'Summarize: the cat sat', output: 'A cat rested.' },
+  { id: 'e2', output: 'An example with no input.' },
+  { id: 'e3', input: 'Draft', output: '   ' }
+];
+
+describe('compileSFLPrompt', () => {
+  it('renders every SFL slot into its section', () => {
+    const compiled = compileSFLPrompt(
+      { topic: 'Tides', taskType: 'Poem', domainSpecifics: 'Oceanography', keywords: 'moon, pull' },
+      { aiPersona: 'Sea Captain', targetAudience: ['Children', 'Sailors'], desiredTone: 'Gentle', interpersonalStance: 'Storyteller' },
+      { outputFormat: 'Verse', rhetoricalStructure: 'Quatrains', lengthConstraint: '12 lines', textualDirectives: 'Rhyme ABAB' }
+    );
+
+    expect(compiled).toContain('# CONTEXT (Field)\n**Topic:** Tides');
+    expect(compiled).toContain('**Keywords:** moon, pull');
+    expect(compiled).toContain('**Audience:** Children, Sailors');
+    expect(compiled).toContain('**Directives:** Rhyme ABAB');
+    expect(compiled.endsWith('please execute the task.')).toBe(true);
+  });
+
+  it('renders a voice fingerprint into the Tenor section', () => {
+    const compiled = compileSFLPrompt(DEFAULT_FIELD, {
+      ...DEFAULT_TENOR,
+      voice: {
+        formality: 0.3,
+        lexicalHabits: ['Uses contractions freely (4 per 100 words)'],
+        signaturePhrases: ['one small thing'],
+        excerpts: ['Lovely work, team.'],
+        sentenceLength: { mean: 9.5, median: 9, stdDev: 3, min: 3, max: 18 },
+        wordCount: 400
+      }
+    }, DEFAULT_MODE);
+
+    const tenor = compiled.slice(compiled.indexOf('# PERSONA & AUDIENCE'), compiled.indexOf('# FORMAT & STRUCTURE'));
+    expect(tenor).toContain('- Formality: 0.30 (fairly casual)');
+    expect(tenor).toContain('- Sentence length: about 9.5 words on average (median 9, range 3–18)');
+    expect(tenor).toContain('- Signature phrases: "one small thing"');
+    expect(tenor).toContain('  > Lovely work, team.');
+    expect(compileSFLPrompt(DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE)).not.toContain('Voice fingerprint');
+  });
+
+  it('renders examples in order between the Mode and the instruction, skipping empty outputs', () => {
+    const compiled = compileSFLPrompt(DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [], examples);
+    expect(compiled).toContain('# EXAMPLES');
+    expect(compiled).toContain('### Example 1\n**Input:**\nSummarize: the cat sat\n**Output:**\nA cat rested.');
+    expect(compiled).toContain('### Example 2\n**Output:**\nAn example with no input.');
+    expect(compiled).not.toContain('### Example 3');
+    expect(compiled.indexOf('(Mode)')).toBeLessThan(compiled.indexOf('# EXAMPLES'));
+    expect(compiled.indexOf('# EXAMPLES')).toBeLessThan(compiled.indexOf('**INSTRUCTION:**'));
+    expect(compileSFLPrompt(DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [], [])).not.toContain('# EXAMPLES');
+  });
+
+  it('omits the reference section when there are no finished attachments', () => {
+    const compiled = compileSFLPrompt(DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [
+      attachment({ status: 'processing' }),
+      attachment({ id: 'a2', status: 'error', analysis: undefined })
+    ]);
+    expect(compiled).not.toContain('# REFERENCE MATERIAL');
+  });
+
+  it('includes the analysis of finished attachments', () => {
+    const compiled = compileSFLPrompt(DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [attachment({})]);
+    expect(compiled).toContain('# REFERENCE MATERIAL');
+    expect(compiled).toContain('### Attachment: notes.md (text)\nReference body');
+  });
+});
+
+describe('compilePrompt', () => {
+  it('defaults to the markdown layout', () => {
+    const compiled = compilePrompt(undefined, DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE);
+    expect(compiled.text).toBe(compileSFLPrompt(DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE));
+    expect(compiled.prompt).toBe(compiled.text);
+    expect(compiled.system).toBeUndefined();
+  });
+
+  it('wraps each slot in escaped XML tags', () => {
+    const compiled = compilePrompt('xml', { ...DEFAULT_FIELD, topic: 'A < B & C' }, DEFAULT_TENOR, DEFAULT_MODE, [attachment({})]);
+    expect(compiled.text).toContain('<topic>A &lt; B &amp; C</topic>');
+    expect(compiled.text).toContain('<attachment name="notes.md" type="text">\nReference body\n  </attachment>');
+    expect(compiled.text).toContain('<role>');
+  });
+
+  it('moves the persona into the system turn', () => {
+    const compiled = compilePrompt('chat-split', DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [attachment({})]);
+    expect(compiled.system).toContain('# PERSONA & AUDIENCE (Tenor)');
+    expect(compiled.system).toContain('# FORMAT & STRUCTURE (Mode)');
+    expect(compiled.prompt).toContain('# CONTEXT (Field)');
+    expect(compiled.prompt).toContain('# REFERENCE MATERIAL');
+    expect(compiled.prompt).not.toContain('(Tenor)');
+  });
+
+  it('carries examples in every layout', () => {
+    expect(compilePrompt('xml', DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [], examples).text)
+      .toContain('<example>\n    <input>Summarize: the cat sat</input>\n    <output>A cat rested.</output>\n  </example>');
+    const split = compilePrompt('chat-split', DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, [], examples);
+    expect(split.system).toContain('# EXAMPLES');
+    expect(split.prompt).not.toContain('# EXAMPLES');
+  });
+
+  it('emits a chat messages array', () => {
+    const compiled = compilePrompt('chat-json', DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE);
+    const messages = JSON.parse(compiled.text);
+    expect(messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user']);
+    expect(messages[0].content).toBe(compiled.system);
+    expect(messages[1].content).toBe(compiled.prompt);
+  });
+});
@@ -0,0 +1,207 @@
+import { SFLField, SFLTenor, SFLMode, Attachment, CompileTargetId, PromptExample, VoiceProfile } from '../types';
+import { attachmentBody } from './attachmentChunks';
+import { formalityLabel } from './stylometry';
+
+// `text` is what the Live Manuscript shows and what gets shipped to other runtimes.
+// `system` / `prompt` are what the in-app Oracle sends to the model.
+export interface CompiledPrompt {
+  text: string;
+  system?: string;
+  prompt: string;
+}
+
+export interface PromptCompiler {
+  id: CompileTargetId;
+  label: string;
+  description: string;
+  compile: (field: SFLField, tenor: SFLTenor, mode: SFLMode, attachments: Attachment[], examples: PromptExample[]) => CompiledPrompt;
+}
+
+const INSTRUCTION = `---
+**INSTRUCTION:**
+Based on the framework and reference material above, please execute the task.`;
+
+const readyAttachments = (attachments: Attachment[]) =>
+  attachments.filter(a => a.status === 'done' && a.analysis);
+
+const fieldSection = (field: SFLField) => `# CONTEXT (Field)
+**Topic:** ${field.topic}
+**Task:** ${field.taskType}
+**Domain:** ${field.domainSpecifics}
+**Keywords:** ${field.keywords}`;
+
+const referenceSection = (attachments: Attachment[], field: SFLField) => {
+  const attachmentContext = readyAttachments(attachments)
+    .map(a => `\n### Attachment: ${a.name} (${a.type})\n${attachmentBody(a, field)}`)
+    .join('\n');
+  return attachmentContext ? `\n# REFERENCE MATERIAL\n${attachmentContext}\n` : '';
+};
+
+const sentenceLengthLine = ({ sentenceLength: stats }: VoiceProfile) =>
+  stats ? `about ${stats.mean} words on average (median ${stats.median}, range ${stats.min}–${stats.max})` : '';
+
+const voiceSection = (voice: VoiceProfile) => [
+  '**Voice fingerprint:**',
+  `- Formality: ${voice.formality.toFixed(2)} (${formalityLabel(voice.formality)})`,
+  ...(voice.sentenceLength ? [`- Sentence length: ${sentenceLengthLine(voice)}`] : []),
+  ...(voice.lexicalHabits.length ? [`- Lexical habits: ${voice.lexicalHabits.join('; ')}`] : []),
+  ...(voice.signaturePhrases.length ? [`- Signature phrases: ${voice.signaturePhrases.map(p => `"${p}"`).join(', ')}`] : []),
+  ...(voice.excerpts.length ? ['- Example excerpts:', ...voice.excerpts.map(e => `  > ${e}`)] : [])
+].join('\n');
+
+const tenorSection = (tenor: SFLTenor) => `# PERSONA & AUDIENCE (Tenor)
+**Role:** ${tenor.aiPersona}
+**Audience:** ${tenor.targetAudience.join(', ')}
+**Tone:** ${tenor.desiredTone}
+**Stance:** ${tenor.interpersonalStance}${tenor.voice ? `\n${voiceSection(tenor.voice)}` : ''}`;
+
+const modeSection = (mode: SFLMode) => `# FORMAT & STRUCTURE (Mode)
+**Format:** ${mode.outputFormat}
+**Structure:** ${mode.rhetoricalStructure}
+**Length:** ${mode.lengthConstraint}
+**Directives:** ${mode.textualDirectives}`;
+
+const usableExamples = (examples: PromptExample[]) => examples.filter(e => e.output.trim());
+
+// Numbered input/output pairs; an example without an input shows only the ideal output
+const examplesSection = (examples: PromptExample[]) => {
+  const usable = usableExamples(examples);
+  if (!usable.length) return '';
+  const blocks = usable.map((example, idx) => [
+    `### Example ${idx + 1}`,
+    ...(example.input?.trim() ? ['**Input:**', example.input.trim()] : []),
+    '**Output:**',
+    example.output.trim()
+  ].join('\n'));
+  return `# EXAMPLES\nMatch the voice, form and quality of these examples; do not copy their content.\n\n${blocks.join('\n\n')}`;
+};
+
+export const compileSFLPrompt = (field: SFLField, tenor: SFLTenor, mode: SFLMode, attachments: Attachment[] = [], examples: PromptExample[] = []): string => {
+  const examplesBlock = examplesSection(examples);
+  return `
+${fieldSection(field)}
+
+${referenceSection(attachments, field)}
+
+${tenorSection(tenor)}
+
+${modeSection(mode)}
+${examplesBlock ? `\n${examplesBlock}\n` : ''}
+${INSTRUCTION}
+`.trim();
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const tag = (name: string, value: string, indent = '  ') => `${indent}<${name}>${escapeXml(value)}</${name}>`;
+
+const voiceXml = (voice: VoiceProfile): string[] => [
+  '  <voice>',
+  tag('formality', `${voice.formality.toFixed(2)} (${formalityLabel(voice.formality)})`, '    '),
+  ...(voice.sentenceLength ? [tag('sentence_length', sentenceLengthLine(voice), '    ')] : []),
+  ...voice.lexicalHabits.map(h => tag('habit', h, '    ')),
+  ...voice.signaturePhrases.map(p => tag('phrase', p, '    ')),
+  ...voice.excerpts.map(e => tag('excerpt', e, '    ')),
+  '  </voice>'
+];
+
+const examplesXml = (examples: PromptExample[]): string[] => {
+  const usable = usableExamples(examples);
+  if (!usable.length) return [];
+  return [
+    '<examples>',
+    ...usable.flatMap(example => [
+      '  <example>',
+      ...(example.input?.trim() ? [tag('input', example.input.trim(), '    ')] : []),
+      tag('output', example.output.trim(), '    '),
+      '  </example>'
+    ]),
+    '</examples>'
+  ];
+};
+
+const compileXml = (field: SFLField, tenor: SFLTenor, mode: SFLMode, attachments: Attachment[], examples: PromptExample[]): string => {
+  const references = readyAttachments(attachments).map(a =>
+    `  <attachment name="${escapeXml(a.name)}" type="${a.type}">\n${escapeXml(attachmentBody(a, field))}\n  </attachment>`
+  );
+  return [
+    '<context>',
+    tag('topic', field.topic),
+    tag('task', field.taskType),
+    tag('domain', field.domainSpecifics),
+    tag('keywords', field.keywords),
+    '</context>',
+    ...(references.length ? ['<reference_material>', ...references, '</reference_material>'] : []),
+    '<persona>',
+    tag('role', tenor.aiPersona),
+    tag('audience', tenor.targetAudience.join(', ')),
+    tag('tone', tenor.desiredTone),
+    tag('stance', tenor.interpersonalStance),
+    ...(tenor.voice ? voiceXml(tenor.voice) : []),
+    '</persona>',
+    '<format>',
+    tag('output_format', mode.outputFormat),
+    tag('structure', mode.rhetoricalStructure),
+    tag('length', mode.lengthConstraint),
+    tag('directives', mode.textualDirectives),
+    '</format>',
+    ...examplesXml(examples),
+    '<instruction>Based on the context, persona, format and reference material above, execute the task.</instruction>'
+  ].join('\n');
+};
+
+// Persona, form and examples belong to the system turn; the subject matter is the user's request
+const splitMessages = (field: SFLField, tenor: SFLTenor, mode: SFLMode, attachments: Attachment[], examples: PromptExample[]) => ({
+  system: [tenorSection(tenor), modeSection(mode), examplesSection(examples)].filter(Boolean).join('\n\n'),
+  user: `${fieldSection(field)}\n${referenceSection(attachments, field)}\n${INSTRUCTION}`.replace(/\n{3,}/g, '\n\n')
+});
+
+export const COMPILERS: Record<CompileTargetId, PromptCompiler> = {
+  'markdown': {
+    id: 'markdown',
+    label: 'Markdown',
+    description: 'Single Markdown prompt with Field, Tenor and Mode sections',
+    compile: (field, tenor, mode, attachments, examples) => {
+      const text = compileSFLPrompt(field, tenor, mode, attachments, examples);
+      return { text, prompt: text };
+    }
+  },
+  'xml': {
+    id: 'xml',
+    label: 'XML Tags',
+    description: 'Each SFL slot wrapped in its own XML tag',
+    compile: (field, tenor, mode, attachments, examples) => {
+      const text = compileXml(field, tenor, mode, attachments, examples);
+      return { text, prompt: text };
+    }
+  },
+  'chat-split': {
+    id: 'chat-split',
+    label: 'System / User',
+    description: 'Persona and form in the system turn, context in the user turn',
+    compile: (field, tenor, mode, attachments, examples) => {
+      const { system, user } = splitMessages(field, tenor, mode, attachments, examples);
+      return { text: `=== SYSTEM ===\n${system}\n\n=== USER ===\n${user}`, system, prompt: user };
+    }
+  },
+  'chat-json': {
+    id: 'chat-json',
+    label: 'Chat Messages JSON',
+    description: 'A messages array ready for a chat completions API',
+    compile: (field, tenor, mode, attachments, examples) => {
+      const { system, user } = splitMessages(field, tenor, mode, attachments, examples);
+      const messages = [{ role: 'system', content: system }, { role: 'user', content: user }];
+      return { text: JSON.stringify(messages, null, 2), system, prompt: user };
+    }
+  }
+};
+
+export const compilePrompt = (
+  target: CompileTargetId = 'markdown',
+  field: SFLField,
+  tenor: SFLTenor,
+  mode: SFLMode,
+  attachments: Attachment[] = [],
+  examples: PromptExample[] = []
+): CompiledPrompt => (COMPILERS[target] || COMPILERS.markdown).compile(field, tenor, mode, attachments, examples);
@@ -0,0 +1,74 @@
+// Zip archives and deflate streams, read with the browser's DecompressionStream
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Inflate zlib ('deflate') or raw deflate data. PDFs often carry a few junk bytes
+// after the compressed data, so whatever was inflated before an error is kept.
+export const inflate = async (data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const parts: Uint8Array[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      parts.push(value);
+    }
+  } catch (error) {
+    if (!parts.length) throw error;
+  }
+  return concat(parts);
+};
+
+export type ZipEntries = Map<string, () => Promise<Uint8Array>>;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+
+// Entry names mapped to readers, from the central directory. Only stored and
+// deflated entries are supported, which covers EPUB and OpenDocument files.
+export const openZip = (bytes: Uint8Array): ZipEntries => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive.');
+
+  const entries: ZipEntries = new Map();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('The zip directory is damaged.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, async () => {
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      throw new Error(`Unsupported compression in ${name}.`);
+    });
+  }
+  return entries;
+};
+
+export const readZipText = async (entries: ZipEntries, name: string): Promise<string | undefined> => {
+  const read = entries.get(name);
+  return read ? new TextDecoder().decode(await read()) : undefined;
+};
@@ -0,0 +1,62 @@
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+// Beyond this many LCS cells the diff degrades to a whole-text replacement
+const MAX_CELLS = 4_000_000;
+
+const pushOp = (ops: DiffOp[], type: DiffOp['type'], value: string) => {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    ops.push({ type, value });
+  }
+};
+
+// Longest-common-subsequence diff over pre-split tokens
+export const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+  const n = a.length;
+  const m = b.length;
+  const ops: DiffOp[] = [];
+
+  if (n * m > MAX_CELLS) {
+    if (n) pushOp(ops, 'delete', a.join(''));
+    if (m) pushOp(ops, 'insert', b.join(''));
+    return ops;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pushOp(ops, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushOp(ops, 'delete', a[i++]);
+    } else {
+      pushOp(ops, 'insert', b[j++]);
+    }
+  }
+  while (i < n) pushOp(ops, 'delete', a[i++]);
+  while (j < m) pushOp(ops, 'insert', b[j++]);
+  return ops;
+};
+
+export const diffWords = (before: string, after: string): DiffOp[] =>
+  diffTokens(before.split(/(\s+)/).filter(Boolean), after.split(/(\s+)/).filter(Boolean));
+
+export const diffLines = (before: string, after: string): DiffOp[] =>
+  diffTokens(before.split(/(?<=\n)/), after.split(/(?<=\n)/));
+
+export const hasChanges = (ops: DiffOp[]): boolean => ops.some(op => op.type !== 'equal');
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { csvPreview, epubToMarkdown, extractDocument, htmlToMarkdown, localFormatOf, odtToMarkdown, rtfToText } from './documentExtraction';
+
+// Zip with the first entry stored and the rest deflated; CRCs are not checked on read
+const buildZip = (files: Record<string, string>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, content], idx) => {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const method = idx === 0 ? 0 : 8;
+    const data = method === 0 ? raw : new Uint8Array(deflateRawSync(raw));
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+  const out = new Uint8Array(offset + centralSize + 22);
+  [...locals, ...centrals, eocd].reduce((at, part) => { out.set(part, at); return at + part.length; }, 0);
+  return out;
+};
+
+describe('localFormatOf', () => {
+  it('recognises formats by MIME type or extension', () => {
+    expect(localFormatOf({ name: 'page.htm', type: '' })).toBe('html');
+    expect(localFormatOf({ name: 'export', type: 'text/csv' })).toBe('csv');
+    expect(localFormatOf({ name: 'book.EPUB', type: '' })).toBe('epub');
+    expect(localFormatOf({ name: 'notes.txt', type: 'text/plain' })).toBeNull();
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('keeps headings, emphasis, links, lists and tables and drops scripts', () => {
+    const html = `<html><head><title>x</title><script>alert(1)</script></head><body>
+      <h1>Report</h1><p>Some <strong>bold</strong> and <a href="https://example.com">a link</a>.</p>
+      <ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>
+      <table><tr><th>Name</th><th>Qty</th></tr><tr><td>Tea</td><td>2</td></tr></table></body></html>`;
+    expect(htmlToMarkdown(html)).toBe([
+      '# Report',
+      '',
+      'Some **bold** and [a link](https://example.com).',
+      '',
+      '- One',
+      '- Two',
+      '  1. Nested',
+      '',
+      '| Name | Qty |',
+      '| --- | --- |',
+      '| Tea | 2 |'
+    ].join('\n'));
+  });
+});
+
+describe('csvPreview', () => {
+  it('renders a Markdown table, handling quotes and semicolons', () => {
+    const preview = csvPreview('name;note\n"Smith; J";"said ""hi"""\nLee;\n');
+    expect(preview).toBe('2 rows × 2 columns\n\n| name | note |\n| --- | --- |\n| Smith; J | said "hi" |\n| Lee |  |');
+  });
+
+  it('notes when rows were left out', () => {
+    const csv = ['n', ...Array.from({ length: 150 }, (_, i) => String(i))].join('\n');
+    expect(csvPreview(csv)).toMatch(/^150 rows × 1 columns[\s\S]*\| 99 \|\n\nShowing the first 100 of 150 rows\.$/);
+  });
+});
+
+describe('rtfToText', () => {
+  it('drops control groups and decodes escapes and Unicode', () => {
+    const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\*\\generator Word;}\\f0 Caf\\\'e9 \\b bold\\b0\\par\\uc1\\u8364? sign\\tab end}';
+    expect(rtfToText(rtf)).toBe('Café bold\n€ sign\tend');
+  });
+});
+
+describe('odtToMarkdown', () => {
+  it('turns outline-level headings, paragraphs and lists into Markdown', () => {
+    const xml = '<?xml version="1.0"?><office:document-content><office:body><office:text>' +
+      '<text:h text:outline-level="2">Plan</text:h><text:p>First<text:s text:c="2"/>step &amp; more</text:p>' +
+      '<text:list><text:list-item><text:p>Buy</text:p></text:list-item><text:list-item><text:p>Cook</text:p></text:list-item></text:list>' +
+      '<text:p>Done<office:annotation><text:p>hidden</text:p></office:annotation></text:p></office:text></office:body></office:document-content>';
+    expect(odtToMarkdown(xml)).toBe('## Plan\n\nFirst  step & more\n\n- Buy\n- Cook\n\nDone');
+  });
+});
+
+describe('EPUB and ODT archives', () => {
+  it('reads EPUB chapters in spine order', async () => {
+    const epub = buildZip({
+      'mimetype': 'application/epub+zip',
+      'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+      'OEBPS/content.opf': '<package><manifest><item id="c1" href="text/one.xhtml"/><item id="c2" href="text/two%20b.xhtml"/></manifest><spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>',
+      'OEBPS/text/one.xhtml': '<html><body><h1>One</h1><p>First chapter.</p></body></html>',
+      'OEBPS/text/two b.xhtml': '<html><body><h1>Two</h1></body></html>'
+    });
+    expect(await epubToMarkdown(epub)).toBe('# Two\n\n---\n\n# One\n\nFirst chapter.');
+  });
+
+  it('extracts an ODT file with its outline', async () => {
+    const odt = buildZip({
+      'mimetype': 'application/vnd.oasis.opendocument.text',
+      'content.xml': '<office:document-content><office:body><office:text><text:h text:outline-level="1">Intro</text:h><text:p>Hello</text:p></office:text></office:body></office:document-content>'
+    });
+    const file = new File([odt], 'notes.odt', { type: 'application/vnd.oasis.opendocument.text' });
+    expect(await extractDocument(file, 'odt')).toEqual({
+      analysis: '# Intro\n\nHello',
+      structured: { kind: 'outline', sections: [{ heading: 'Intro', level: 1, start: 9, end: 14 }] }
+    });
+  });
+
+  it('refuses legacy binary .doc files with an actionable message', async () => {
+    const file = new File([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1])], 'old.doc', { type: 'application/msword' });
+    await expect(extractDocument(file, 'doc')).rejects.toThrow(/Save the file as \.docx/);
+  });
+});
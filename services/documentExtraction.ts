@@ -0,0 +1,367 @@
+import { AttachmentAnalysis, OutlineSection } from '../types';
+import { openZip, readZipText } from './compression';
+import { PdfText, UNDECODABLE } from './pdfText';
+import { outlineFromMarkdown } from './structuredAnalysis';
+
+// Document formats read in the browser, without a model call
+
+export type LocalFormat = 'html' | 'csv' | 'rtf' | 'odt' | 'epub' | 'doc';
+
+const EXTENSIONS: Record<string, LocalFormat> = {
+  html: 'html', htm: 'html', xhtml: 'html',
+  csv: 'csv', tsv: 'csv',
+  rtf: 'rtf',
+  odt: 'odt',
+  epub: 'epub',
+  doc: 'doc'
+};
+
+const MIME_TYPES: Record<string, LocalFormat> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/epub+zip': 'epub',
+  'application/msword': 'doc'
+};
+
+export const localFormatOf = (file: Pick<File, 'name' | 'type'>): LocalFormat | null =>
+  MIME_TYPES[file.type] ?? EXTENSIONS[file.name.toLowerCase().split('.').pop() || ''] ?? null;
+
+// Markdown from HTML
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'SVG', 'IFRAME', 'BUTTON', 'FORM']);
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'ASIDE', 'NAV', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'ADDRESS', 'BODY']);
+
+const inlineText = (text: string) => text.replace(/\s+/g, ' ');
+
+const tableToMarkdown = (table: Element, render: (node: Node) => string): string => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .map(row => Array.from(row.children)
+      .filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map(cell => render(cell).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()));
+  return markdownTable(rows.filter(row => row.length));
+};
+
+const markdownTable = (rows: string[][]): string => {
+  if (!rows.length) return '';
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, idx) => row[idx] ?? '').join(' | ')} |`;
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+};
+
+export const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const render = (node: Node, listDepth = 0): string => {
+    if (node.nodeType === 3) return inlineText(node.textContent || '');
+    if (node.nodeType !== 1) return '';
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag)) return '';
+    const children = () => Array.from(el.childNodes).map(child => render(child, listDepth)).join('');
+
+    const heading = tag.match(/^H([1-6])$/);
+    if (heading) return `\n\n${'#'.repeat(Number(heading[1]))} ${children().trim()}\n\n`;
+    if (BLOCK_TAGS.has(tag)) return `\n\n${children().trim()}\n\n`;
+
+    switch (tag) {
+      case 'BR': return '\n';
+      case 'HR': return '\n\n---\n\n';
+      case 'STRONG':
+      case 'B': { const text = children().trim(); return text ? `**${text}**` : ''; }
+      case 'EM':
+      case 'I': { const text = children().trim(); return text ? `*${text}*` : ''; }
+      case 'CODE': return `\`${el.textContent || ''}\``;
+      case 'PRE': return `\n\n\`\`\`\n${(el.textContent || '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+      case 'A': {
+        const text = children().trim();
+        const href = el.getAttribute('href') || '';
+        return href && text && !/^(javascript:|#)/i.test(href) ? `[${text}](${href})` : text;
+      }
+      case 'IMG': {
+        const alt = el.getAttribute('alt');
+        return alt ? `![${alt}](${el.getAttribute('src') || ''})` : '';
+      }
+      case 'BLOCKQUOTE':
+        return `\n\n${children().trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+      case 'UL':
+      case 'OL': {
+        const items = Array.from(el.children).filter(child => child.tagName.toUpperCase() === 'LI');
+        const lines = items.map((item, idx) => {
+          const marker = tag === 'OL' ? `${idx + 1}.` : '-';
+          const body = Array.from(item.childNodes).map(child => render(child, listDepth + 1)).join('').trim().replace(/\n{2,}/g, '\n');
+          return `${'  '.repeat(listDepth)}${marker} ${body}`;
+        });
+        return `\n${listDepth ? '' : '\n'}${lines.join('\n')}\n${listDepth ? '' : '\n'}`;
+      }
+      case 'TABLE': return `\n\n${tableToMarkdown(el, child => render(child, listDepth))}\n\n`;
+      default: return children();
+    }
+  };
+
+  return tidyMarkdown(render(doc.body || doc.documentElement));
+};
+
+const tidyMarkdown = (text: string) => text
+  .split('\n')
+  .map(line => line.replace(/[ \t]+$/, '').replace(/^ (?=\S)/, ''))
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// CSV and TSV
+
+const TABLE_PREVIEW_ROWS = 100;
+
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') quoted = true;
+    else if (ch === delimiter) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// The delimiter that splits the first line into the most columns
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+};
+
+export const csvPreview = (text: string, name = ''): string => {
+  const rows = parseDelimited(text.replace(/^﻿/, ''), name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text));
+  if (!rows.length) return 'Empty table.';
+  const dataRows = rows.length - 1;
+  const columns = Math.max(...rows.map(r => r.length));
+  const shown = rows.slice(0, TABLE_PREVIEW_ROWS + 1).map(row => row.map(cell => cell.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()));
+  const note = dataRows > TABLE_PREVIEW_ROWS ? `\n\nShowing the first ${TABLE_PREVIEW_ROWS} of ${dataRows} rows.` : '';
+  return `${dataRows} rows × ${columns} columns\n\n${markdownTable(shown)}${note}`;
+};
+
+// RTF
+
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'fldinst', 'themedata', 'colorschememapping', 'latentstyles',
+  'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'mmathPr', 'filetbl',
+  'revtbl', 'listtext', 'pntext', 'pntxta', 'pntxtb'
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', row: '\n', cell: '\t', tab: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”', emspace: ' ', enspace: ' '
+};
+
+const WIN_ANSI = new TextDecoder('windows-1252');
+
+export const rtfToText = (rtf: string): string => {
+  const stack: { skip: boolean; uc: number }[] = [];
+  let state = { skip: false, uc: 1 };
+  let out = '';
+  let pendingSkip = 0; // Fallback characters still to drop after a \u
+  const emit = (text: string) => {
+    if (pendingSkip > 0) { pendingSkip--; return; }
+    if (!state.skip) out += text;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const ch = rtf[i];
+    if (ch === '{') { stack.push(state); state = { ...state }; continue; }
+    if (ch === '}') { state = stack.pop() ?? state; pendingSkip = 0; continue; }
+    if (ch === '\r' || ch === '\n') continue;
+    if (ch !== '\\') { emit(ch); continue; }
+
+    const next = rtf[i + 1];
+    if (next === undefined) break;
+    if (next === '\\' || next === '{' || next === '}') { emit(next); i++; continue; }
+    if (next === "'") {
+      emit(WIN_ANSI.decode(Uint8Array.of(parseInt(rtf.slice(i + 2, i + 4), 16) || 32)));
+      i += 3;
+      continue;
+    }
+    if (next === '*') { state.skip = true; i++; continue; }
+    if (next === '~') { emit(' '); i++; continue; }
+    if (next === '_') { emit('-'); i++; continue; }
+    if (next === '\n' || next === '\r') { emit('\n'); i++; continue; }
+    if (!/[a-z]/i.test(next)) { i++; continue; }
+
+    const word = rtf.slice(i + 1).match(/^([a-z]+)(-?\d+)? ?/i)!;
+    i += word[0].length;
+    const [, name, param] = word;
+    if (RTF_SKIPPED_DESTINATIONS.has(name)) state.skip = true;
+    else if (name === 'uc') state.uc = Number(param) || 0;
+    else if (name === 'u') {
+      const code = Number(param);
+      emit(String.fromCharCode(code < 0 ? code + 65_536 : code));
+      pendingSkip = state.uc;
+    } else if (name in RTF_SYMBOLS) emit(RTF_SYMBOLS[name]);
+  }
+  return out.split('\n').map(line => line.replace(/[ \t]+$/, '')).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// XML without a DOM: a tag or a run of text at a time
+
+const decodeEntities = (text: string) => text
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const attribute = (attrs: string, name: string): string | undefined => {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${name.replace(/[.:]/g, '\\$&')}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? decodeEntities(match[2] ?? match[3]) : undefined;
+};
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+// ODT
+
+const ODT_SKIPPED = new Set(['office:annotation', 'text:note-citation', 'text:tracked-changes', 'office:forms']);
+
+export const odtToMarkdown = (contentXml: string): string => {
+  const body = contentXml.slice(Math.max(0, contentXml.indexOf('<office:body')));
+  let out = '';
+  let skipDepth = 0;
+  let inCell = false;
+  const itemStack: boolean[] = [];
+  let match: RegExpExecArray | null;
+  XML_TOKEN.lastIndex = 0;
+  while ((match = XML_TOKEN.exec(body))) {
+    const [, cdata, closing, tag, attrs = '', selfClosing, text] = match;
+    if (skipDepth) {
+      if (tag && ODT_SKIPPED.has(tag) && !selfClosing) skipDepth += closing ? -1 : 1;
+      continue;
+    }
+    if (text !== undefined || cdata !== undefined) { out += decodeEntities(text ?? cdata); continue; }
+    if (!tag) continue;
+    if (ODT_SKIPPED.has(tag)) { if (!selfClosing && !closing) skipDepth = 1; continue; }
+
+    if (!closing) {
+      if (tag === 'text:h') out += `\n\n${'#'.repeat(Math.min(6, Number(attribute(attrs, 'text:outline-level')) || 1))} `;
+      else if (tag === 'text:p') out += inCell ? '' : itemStack.length ? '' : '\n\n';
+      else if (tag === 'text:list' && !itemStack.length) out += '\n';
+      else if (tag === 'text:list-item') { out += `\n${'  '.repeat(Math.max(0, itemStack.length))}- `; itemStack.push(true); }
+      else if (tag === 'text:s') out += ' '.repeat(Number(attribute(attrs, 'text:c')) || 1);
+      else if (tag === 'text:tab') out += '\t';
+      else if (tag === 'text:line-break') out += '\n';
+      else if (tag === 'table:table-row') out += '\n| ';
+      else if (tag === 'table:table-cell') inCell = true;
+      else if (tag === 'table:table') out += '\n\n';
+      if (selfClosing && tag === 'text:list-item') itemStack.pop();
+    } else {
+      if (tag === 'text:h') out += '\n\n';
+      else if (tag === 'text:list-item') itemStack.pop();
+      else if (tag === 'text:list' && !itemStack.length) out += '\n\n';
+      else if (tag === 'table:table-cell') { out += ' | '; inCell = false; }
+      else if (tag === 'text:p' && inCell) out += ' ';
+    }
+  }
+  return tidyMarkdown(out.replace(/ \| \n/g, ' |\n').replace(/ \| $/, ' |'));
+};
+
+// EPUB: the spine's XHTML documents in reading order
+
+export const epubToMarkdown = async (bytes: Uint8Array): Promise<string> => {
+  const zip = openZip(bytes);
+  const container = await readZipText(zip, 'META-INF/container.xml');
+  const opfPath = container && attribute(container.match(/<rootfile\b([^>]*)>/)?.[1] || '', 'full-path');
+  const opf = opfPath ? await readZipText(zip, opfPath) : undefined;
+  if (!opfPath || !opf) throw new Error('This EPUB has no readable package file.');
+
+  const base = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+  const manifest = new Map<string, string>();
+  for (const [, attrs] of opf.matchAll(/<item\b([^>]*)>/g)) {
+    const id = attribute(attrs, 'id');
+    const href = attribute(attrs, 'href');
+    if (id && href) manifest.set(id, href);
+  }
+
+  const resolvePath = (href: string) => {
+    const parts: string[] = [];
+    for (const part of (base + decodeURIComponent(href.split('#')[0])).split('/')) {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    }
+    return parts.join('/');
+  };
+
+  const chapters: string[] = [];
+  for (const [, attrs] of opf.matchAll(/<itemref\b([^>]*)>/g)) {
+    const href = manifest.get(attribute(attrs, 'idref') || '');
+    const html = href ? await readZipText(zip, resolvePath(href)) : undefined;
+    const markdown = html ? htmlToMarkdown(html) : '';
+    if (markdown) chapters.push(markdown);
+  }
+  return chapters.join('\n\n---\n\n');
+};
+
+// PDF pages as analysis text, with each page citable as a section
+
+export const pdfAnalysis = ({ pages }: PdfText): AttachmentAnalysis => {
+  let analysis = '';
+  const sections: OutlineSection[] = pages.map((raw, idx) => {
+    const page = raw.split(UNDECODABLE).join('');
+    analysis += `${idx ? '\n\n' : ''}[Page ${idx + 1}]\n`;
+    const start = analysis.length;
+    analysis += page;
+    const section: OutlineSection = { heading: `Page ${idx + 1}`, level: 1, page: idx + 1 };
+    return page ? { ...section, start, end: analysis.length } : section;
+  });
+  return { analysis, structured: { kind: 'outline', sections } };
+};
+
+const LEGACY_WORD_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+const withOutline = (markdown: string): AttachmentAnalysis => {
+  const sections = outlineFromMarkdown(markdown);
+  return sections.length ? { analysis: markdown, structured: { kind: 'outline', sections } } : { analysis: markdown };
+};
+
+// Text and outline of a document in one of the local formats
+export const extractDocument = async (file: File, format: LocalFormat): Promise<AttachmentAnalysis> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const head = new TextDecoder().decode(bytes.subarray(0, 5));
+
+  // Word can save RTF under a .doc name
+  if (format === 'rtf' || (format === 'doc' && head === '{\\rtf')) {
+    return { analysis: rtfToText(new TextDecoder('windows-1252').decode(bytes)) || 'Empty document.' };
+  }
+  if (format === 'doc') {
+    if (LEGACY_WORD_SIGNATURE.every((b, idx) => bytes[idx] === b)) {
+      throw new Error('Legacy Word (.doc) files cannot be read in the browser. Save the file as .docx and attach it again.');
+    }
+    return withOutline(htmlToMarkdown(new TextDecoder().decode(bytes)));
+  }
+
+  const text = () => new TextDecoder().decode(bytes);
+  switch (format) {
+    case 'html': return withOutline(htmlToMarkdown(text()) || 'Empty document.');
+    case 'csv': return { analysis: csvPreview(text(), file.name) };
+    case 'odt': {
+      const content = await readZipText(openZip(bytes), 'content.xml');
+      if (content === undefined) throw new Error('This OpenDocument file has no content.xml.');
+      return withOutline(odtToMarkdown(content) || 'Empty document.');
+    }
+    case 'epub': return withOutline(await epubToMarkdown(bytes) || 'Empty document.');
+  }
+};
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GeminiService } from './geminiService';
+import { MockProvider, DEFAULT_MOCK_FIXTURES } from './providers/mockProvider';
+import { SFL_GENERATION_SCHEMA } from './sflSchema';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_PROVIDER_SETTINGS, DEFAULT_TENOR } from '../types';
+
+// The Node build of mammoth cannot read an ArrayBuffer; routing is what matters here
+vi.mock('mammoth', () => ({
+  default: {
+    extractRawText: vi.fn(async () => ({ value: 'Scope\n\nDocx body\n\nOut of scope\n\nBilling\n\n' })),
+    convertToHtml: vi.fn(async () => ({ value: '<h1>Scope</h1><p>Docx body</p><h2>Out of scope</h2><p>Billing</p>' }))
+  }
+}));
+
+const MOCK_TARGET = { provider: 'mock' as const, model: 'mock-narrator' };
+
+describe('GeminiService with the mock provider', () => {
+  let mock: MockProvider;
+  let service: GeminiService;
+
+  beforeEach(() => {
+    mock = new MockProvider();
+    service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock, gemini: mock });
+  });
+
+  it('returns the canned SFL structure for a goal', async () => {
+    const result = await service.generateSFLFromGoal('A newsletter about AI', MOCK_TARGET);
+    expect(result).toEqual({ data: DEFAULT_MOCK_FIXTURES.sfl, issues: [], repaired: false });
+    expect(mock.calls[0]).toMatchObject({ method: 'generateJSON', model: 'mock-narrator', schema: SFL_GENERATION_SCHEMA });
+  });
+
+  it('returns the canned Tenor for persona analysis', async () => {
+    const files = [new File(['Hello team, lovely work this week.'], 'memo.txt', { type: 'text/plain' })];
+    const result = await service.analyzeFilesForTenor(files, MOCK_TARGET);
+    expect(result?.data).toEqual(DEFAULT_MOCK_FIXTURES.tenor);
+  });
+
+  it('adds local measurements from text sources to the model reading of the voice', async () => {
+    const memo = Array.from({ length: 6 }, (_, i) => `Week ${i + 1}: lovely work, team. One small thing before Friday, though. We ship when the tests pass.`).join('\n');
+    const result = await service.analyzeFilesForTenor([new File([memo], 'memos.txt', { type: 'text/plain' })], MOCK_TARGET);
+    const voice = result?.data.voice;
+    expect(voice?.wordCount).toBeGreaterThan(60);
+    expect(voice?.sentenceLength?.max).toBe(6);
+    expect(voice?.signaturePhrases?.[0]).toBe('one small thing before friday');
+    expect(voice?.signaturePhrases).toContain('lovely work');
+    expect(voice?.lexicalHabits).toContain('Opens with encouragement before any critique');
+  });
+
+  it('streams the canned chunks in order', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of service.executePromptStream('Tell a story', MOCK_TARGET)) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(DEFAULT_MOCK_FIXTURES.stream);
+    expect(await service.executePrompt('Tell a story', MOCK_TARGET)).toBe(DEFAULT_MOCK_FIXTURES.stream.join(''));
+  });
+
+  it('passes the system turn through to the provider', async () => {
+    await service.executePrompt('Tell a story', MOCK_TARGET, 'You are a bard.');
+    expect(mock.calls.at(-1)).toMatchObject({ method: 'streamText', prompt: 'Tell a story', system: 'You are a bard.' });
+  });
+
+  it('passes the generation config through to the provider', async () => {
+    await service.executePrompt('Tell a story', MOCK_TARGET, undefined, { temperature: 0.3, stopSequences: ['THE END'] });
+    expect(mock.calls.at(-1)).toMatchObject({ method: 'streamText', config: { temperature: 0.3, stopSequences: ['THE END'] } });
+  });
+
+  it('sends the whole conversation with the system context', async () => {
+    const turns = [
+      { role: 'user' as const, text: 'Hello', at: 1 },
+      { role: 'model' as const, text: 'Well met.', at: 2 },
+      { role: 'user' as const, text: 'Sing', at: 3 }
+    ];
+    const chunks: string[] = [];
+    for await (const chunk of service.chatStream(turns, MOCK_TARGET, 'You are a bard.')) chunks.push(chunk);
+    expect(chunks).toEqual(DEFAULT_MOCK_FIXTURES.stream);
+    expect(mock.calls.at(-1)).toEqual({ method: 'streamChat', model: 'mock-narrator', turns, system: 'You are a bard.' });
+  });
+});
+
+describe('GeminiService.summarizeChunks', () => {
+  it('batches chunks and maps summaries back in order', async () => {
+    const mock = new MockProvider({
+      json: [JSON.stringify({ summaries: ['First.', 'Second.'] }), JSON.stringify({ summaries: ['Third.'] })]
+    });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+    const chunk = 'word '.repeat(1_000);
+
+    const summaries = await service.summarizeChunks([chunk, chunk, chunk.repeat(4)], MOCK_TARGET);
+    expect(summaries).toEqual(['First.', 'Second.', 'Third.']);
+    expect(mock.calls).toHaveLength(2);
+  });
+
+  it('leaves a blank where the model returned too few summaries', async () => {
+    const mock = new MockProvider({ json: [JSON.stringify({ summaries: ['Only one.'] })] });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+    expect(await service.summarizeChunks(['a', 'b'], MOCK_TARGET)).toEqual(['Only one.', '']);
+  });
+});
+
+describe('GeminiService schema validation', () => {
+  const tenorFile = () => [new File(['Some words'], 'memo.txt', { type: 'text/plain' })];
+
+  it('retries with the validation errors and uses the repaired response', async () => {
+    const mock = new MockProvider({
+      json: [
+        JSON.stringify({ aiPersona: 'Coach', targetAudience: 'Managers', desiredTone: 'Warm', mood: 'sunny' }),
+        JSON.stringify({ aiPersona: 'Coach', targetAudience: ['Managers'], desiredTone: 'Warm', interpersonalStance: 'Mentor' })
+      ]
+    });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+
+    const result = await service.analyzeFilesForTenor(tenorFile(), MOCK_TARGET);
+    expect(result?.repaired).toBe(true);
+    expect(result?.issues).toEqual([
+      '$.interpersonalStance is required',
+      '$.targetAudience expected array, got string',
+      '$.mood is not an allowed property'
+    ]);
+    expect(result?.data).toEqual({ aiPersona: 'Coach', targetAudience: ['Managers'], desiredTone: 'Warm', interpersonalStance: 'Mentor' });
+
+    const repairCall = mock.calls[1];
+    expect(repairCall.method === 'generateJSON' && repairCall.contents).toContain('$.interpersonalStance is required');
+  });
+
+  it('merges an unrepairable response over the defaults', async () => {
+    const mock = new MockProvider({
+      json: [JSON.stringify({ aiPersona: 'Coach', targetAudience: 'Managers, Leads' }), 'still not json']
+    });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+
+    const result = await service.analyzeFilesForTenor(tenorFile(), MOCK_TARGET);
+    expect(result?.repaired).toBe(false);
+    expect(result?.data).toEqual({ ...DEFAULT_TENOR, aiPersona: 'Coach', targetAudience: ['Managers', 'Leads'] });
+  });
+
+  it('fills a partial SFL structure with defaults', async () => {
+    const mock = new MockProvider({ json: ['{"title":"Half","field":{"topic":"Bees"}}', ''] });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+
+    const result = await service.generateSFLFromGoal('bees', MOCK_TARGET);
+    expect(result?.data).toEqual({
+      title: 'Half',
+      field: { ...DEFAULT_FIELD, topic: 'Bees' },
+      tenor: DEFAULT_TENOR,
+      mode: DEFAULT_MODE
+    });
+  });
+});
+
+describe('GeminiService.processFile routing', () => {
+  let mock: MockProvider;
+  let service: GeminiService;
+
+  beforeEach(() => {
+    mock = new MockProvider();
+    service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { gemini: mock });
+  });
+
+  it('pretty-prints JSON files', async () => {
+    const result = await service.processFile(new File(['{"a":1}'], 'data.json', { type: 'application/json' }));
+    expect(result.analysis).toBe('{\n  "a": 1\n}');
+  });
+
+  it('reports malformed JSON instead of throwing', async () => {
+    const result = await service.processFile(new File(['{oops'], 'data.json', { type: 'application/json' }));
+    expect(result.analysis).toMatch(/^Error parsing JSON:/);
+  });
+
+  it('normalises JSONL lines and flags invalid ones', async () => {
+    const body = '{ "a": 1 }\n\n{ "b": [1, 2] }\r\nnot json\n';
+    const result = await service.processFile(new File([body], 'rows.jsonl'));
+    expect(result.analysis).toBe('{"a":1}\n{"b":[1,2]}\n[Line 3] Invalid JSON: not json');
+  });
+
+  it('extracts DOCX text and its heading outline locally', async () => {
+    const file = new File(['zip bytes'], 'draft.docx', {
+      type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    });
+    const result = await service.processFile(file);
+    const text = 'Scope\n\nDocx body\n\nOut of scope\n\nBilling\n\n';
+    expect(result.analysis).toBe(text);
+    expect(result.structured).toEqual({
+      kind: 'outline',
+      sections: [{ heading: 'Scope', level: 1, start: 7, end: 16 }, { heading: 'Out of scope', level: 2, start: 32, end: 39 }]
+    });
+    expect(text.slice(7, 16)).toBe('Docx body');
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it.each([
+    ['clip.mp3', 'audio/mpeg', 'gemini-2.5-flash', 'Transcribe', 'transcript'],
+    ['clip.mp4', 'video/mp4', 'gemini-3-pro-preview', 'Analyze this video', 'transcript'],
+    ['photo.png', 'image/png', 'gemini-3-pro-preview', 'Analyze this image', 'image'],
+    ['paper.pdf', 'application/pdf', 'gemini-2.5-flash', 'Analyze this document', 'outline']
+  ])('sends %s to the media model for a structured analysis', async (name, type, model, instruction, kind) => {
+    const result = await service.processFile(new File(['binary'], name, { type }));
+    expect(result.structured?.kind).toBe(kind);
+    expect(result.analysis).toMatch(/\[(S|T|§)1/);
+    expect(mock.calls).toHaveLength(1);
+    const call = mock.calls[0];
+    expect(call).toMatchObject({ method: 'generateJSON', model });
+    const parts = call.method === 'generateJSON' && Array.isArray(call.contents) ? call.contents : [];
+    expect(parts[0]).toEqual({ inlineData: { mimeType: type, data: btoa('binary') } });
+    expect(parts[1]).toMatchObject({ text: expect.stringContaining(instruction) });
+  });
+
+  it('keeps free-text analysis for non-structured output shapes', async () => {
+    const profile = { provider: 'gemini' as const, model: 'gemini-2.5-flash', instruction: 'Describe it.', outputShape: 'prose' as const };
+    const result = await service.processFile(new File(['binary'], 'photo.png', { type: 'image/png' }), profile);
+    expect(result).toEqual({ analysis: DEFAULT_MOCK_FIXTURES.media });
+    expect(mock.calls[0]).toMatchObject({ method: 'analyzeMedia', instruction: 'Describe it.' });
+  });
+
+  it('uses the given analysis profile and appends its output shape', async () => {
+    const profile = { provider: 'gemini' as const, model: 'gemini-2.5-pro', instruction: 'Transcribe the interview.', outputShape: 'transcript' as const };
+    await service.processFile(new File(['binary'], 'talk.mp3', { type: 'audio/mpeg' }), profile);
+    const call = mock.calls[0];
+    expect(call).toMatchObject({ method: 'analyzeMedia', model: 'gemini-2.5-pro' });
+    expect(call.method === 'analyzeMedia' && call.instruction).toMatch(/^Transcribe the interview\.\n\n.*\[mm:ss\] Speaker N/);
+  });
+
+  it('converts HTML locally instead of reading it as raw text', async () => {
+    const result = await service.processFile(new File(['<h2>Menu</h2><p>Tea &amp; cake</p>'], 'menu.html', { type: 'text/html' }));
+    expect(result.analysis).toBe('## Menu\n\nTea & cake');
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  describe('PDFs with a text layer', () => {
+    const content = 'BT /F1 12 Tf 72 700 Td (The quarterly results beat every forecast we made.) Tj ET';
+    const pdf = [
+      '%PDF-1.4',
+      '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+      '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+      '3 0 obj << /Type /Page /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >> endobj',
+      `4 0 obj << /Length ${content.length} >>\nstream\n${content}\nendstream endobj`,
+      '5 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> endobj',
+      'trailer << /Root 1 0 R >>'
+    ].join('\n');
+    const file = () => new File([pdf], 'report.pdf', { type: 'application/pdf' });
+
+    it('are read locally, one citable section per page', async () => {
+      const result = await service.processFile(file());
+      expect(result.analysis).toBe('[Page 1]\nThe quarterly results beat every forecast we made.');
+      expect(result.structured).toEqual({ kind: 'outline', sections: [{ heading: 'Page 1', level: 1, page: 1, start: 9, end: result.analysis!.length }] });
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('go to the model when the profile turns the text layer off', async () => {
+      const profile = { provider: 'gemini' as const, model: 'gemini-2.5-flash', instruction: 'Summarize.', outputShape: 'prose' as const, useTextLayer: false };
+      await service.processFile(file(), profile);
+      expect(mock.calls[0]).toMatchObject({ method: 'analyzeMedia', model: 'gemini-2.5-flash' });
+    });
+  });
+
+  it('outlines Markdown by its headings', async () => {
+    const result = await service.processFile(new File(['# Heading\nBody'], 'notes.md', { type: 'text/markdown' }));
+    expect(result.analysis).toBe('# Heading\nBody');
+    expect(result.structured).toEqual({ kind: 'outline', sections: [{ heading: 'Heading', level: 1, start: 10, end: 14 }] });
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('reads anything else as plain text', async () => {
+    const result = await service.processFile(new File(['plain words'], 'notes.txt', { type: 'text/plain' }));
+    expect(result).toEqual({ analysis: 'plain words' });
+    expect(mock.calls).toHaveLength(0);
+  });
+});
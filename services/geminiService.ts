@@ -1,51 +1,100 @@
-import { GoogleGenAI } from '@google/genai';
-import { SFLField, SFLTenor, SFLMode, Attachment } from '../types';
+import { SFLField, SFLTenor, SFLMode, AnalysisProfile, ChatTurn, AttachmentAnalysis, MediaKind, ModelTarget, ProviderId, ProviderSettings, DEFAULT_PROVIDER_SETTINGS } from '../types';
+import { ContentPart, ModelProvider, RequestConfig } from './providers/modelProvider';
+import { createProvider } from './providers';
+import { JsonSchema, formatIssue, parseAndValidate } from './jsonSchema';
+import { CHUNK_SUMMARIES_SCHEMA, SFL_GENERATION_SCHEMA, STRUCTURED_ANALYSIS, TENOR_ANALYSIS_SCHEMA, normalizeChunkSummaries, normalizeGeneration, normalizeTenorAnalysis } from './sflSchema';
+import { contextLimitFor, estimateTokens, formatTokens } from './tokenBudget';
+import { DEFAULT_ANALYSIS_PROFILES, buildAnalysisInstruction, mediaKindOf } from './analysisProfiles';
+import { anchorOutline, compactOutline, outlineFromHtml, outlineFromMarkdown, structuredToText } from './structuredAnalysis';
+import { extractDocument, localFormatOf, pdfAnalysis } from './documentExtraction';
+import { hasTextLayer } from './pdfText';
+import { MAX_LOCAL_PDF_BYTES, readPdfText } from './pdfTextReader';
+import { measureStyle, mergeVoiceProfile } from './stylometry';
 import mammoth from 'mammoth';
 
+const DEFAULT_TARGET: ModelTarget = { provider: 'gemini', model: 'gemini-3-pro-preview' };
+
+// Keeps each chunk-summary request well inside even small context windows
+const SUMMARY_BATCH_TOKENS = 6_000;
+
+// Model JSON after schema checking. `issues` lists what was wrong with the first
+// response; `repaired` tells whether the repair retry produced a valid one.
+export interface ValidatedResult<T> {
+  data: T;
+  issues: string[];
+  repaired: boolean;
+}
+
 export class GeminiService {
-  private client: GoogleGenAI;
+  private providers: Partial<Record<ProviderId, ModelProvider>>;
+
+  // Providers passed in take precedence over the ones built from settings (used by tests)
+  constructor(
+    private settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+    providers: Partial<Record<ProviderId, ModelProvider>> = {}
+  ) {
+    this.providers = { ...providers };
+  }
 
-  constructor() {
-    // API key must be obtained exclusively from the environment variable process.env.API_KEY.
-    this.client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  private provider(id: ProviderId): ModelProvider {
+    return (this.providers[id] ||= createProvider(id, this.settings));
   }
 
-  async listModels(): Promise<string[]> {
+  async listModels(provider: ProviderId = 'gemini'): Promise<string[]> {
+    return this.provider(provider).listModels();
+  }
+
+  // Request schema-constrained JSON, retrying once with the validation errors if it does not conform.
+  // Whatever comes back is merged over the defaults by `normalize`.
+  private async generateValidated<T>(
+    target: ModelTarget,
+    contents: string | ContentPart[],
+    schema: JsonSchema,
+    normalize: (raw: unknown) => T
+  ): Promise<ValidatedResult<T> | null> {
+    const provider = this.provider(target.provider);
+    const text = await provider.generateJSON(target.model, contents, schema);
+    if (!text) return null;
+
+    const first = parseAndValidate(text, schema);
+    if (first.issues.length === 0) {
+      return { data: normalize(first.value), issues: [], repaired: false };
+    }
+
+    const issues = first.issues.map(formatIssue);
+    console.warn("Model JSON failed validation, requesting repair:", issues);
+    const repairPrompt = `
+      Your previous response did not match the required JSON Schema.
+
+      Previous response:
+      ${text}
+
+      Validation errors:
+      ${issues.map(i => `- ${i}`).join('\n')}
+
+      Required JSON Schema:
+      ${JSON.stringify(schema)}
+
+      Return only the corrected JSON object.
+    `;
+
     try {
-      const response = await this.client.models.list();
-      const modelNames: string[] = [];
-      
-      // Safety check for iterable response
-      if (response && typeof response[Symbol.asyncIterator] === 'function') {
-        for await (const model of response) {
-          if (model.name) {
-            modelNames.push(model.name);
-          }
-        }
-      } else {
-        console.warn("Model list response is not iterable", response);
-        // Fallback defaults immediately if structure isn't as expected
-        return [
-          'gemini-3-pro-preview',
-          'gemini-2.5-flash',
-          'gemini-2.5-flash-thinking-preview-09-2025'
-        ];
+      const repairedText = await provider.generateJSON(target.model, repairPrompt, schema);
+      const second = repairedText ? parseAndValidate(repairedText, schema) : null;
+      if (second && second.issues.length === 0) {
+        return { data: normalize(second.value), issues, repaired: true };
       }
-      
-      // Filter for gemini models to keep the list clean
-      return modelNames.filter(name => name && name.includes('gemini'));
+      // Still invalid: salvage the latest response that parsed and let the defaults fill the gaps
+      const salvage = second?.value !== undefined ? second.value : first.value;
+      return { data: normalize(salvage), issues, repaired: false };
     } catch (error) {
-      console.warn("Failed to list models, falling back to defaults.", error);
-      return [
-        'gemini-3-pro-preview',
-        'gemini-2.5-flash',
-        'gemini-2.5-flash-thinking-preview-09-2025'
-      ];
+      console.error("JSON Repair Error:", error);
+      return { data: normalize(first.value), issues, repaired: false };
     }
   }
 
   // Generate the initial SFL structure from a vague goal
-  async generateSFLFromGoal(goal: string, model: string = 'gemini-3-pro-preview'): Promise<{ field: SFLField, tenor: SFLTenor, mode: SFLMode, title: string } | null> {
+  async generateSFLFromGoal(goal: string, target: ModelTarget = DEFAULT_TARGET): Promise<ValidatedResult<{ field: SFLField, tenor: SFLTenor, mode: SFLMode, title: string }> | null> {
     const prompt = `
       You are an expert in Systemic Functional Linguistics (SFL) applied to Prompt Engineering.
       Analyze the user's goal: "${goal}".
@@ -61,31 +110,26 @@ export class GeminiService {
     `;
 
     try {
-      const response = await this.client.models.generateContent({
-        model: model,
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json'
-        }
-      });
-      
-      const text = response.text;
-      if (!text) return null;
-      return JSON.parse(text);
+      return await this.generateValidated(target, prompt, SFL_GENERATION_SCHEMA, normalizeGeneration);
     } catch (error) {
-      console.error("Gemini SFL Generation Error:", error);
+      console.error("SFL Generation Error:", error);
       throw error;
     }
   }
 
   // Analyze files to construct a Persona (Tenor)
-  async analyzeFilesForTenor(files: File[], model: string = 'gemini-3-pro-preview'): Promise<SFLTenor | null> {
-    const parts: any[] = [];
+  async analyzeFilesForTenor(files: File[], target: ModelTarget = DEFAULT_TARGET): Promise<ValidatedResult<SFLTenor> | null> {
+    const parts: ContentPart[] = [];
+    const texts: string[] = []; // Text sources, measured locally for the voice fingerprint
 
     for (const file of files) {
       const mimeType = file.type;
       
-      if (mimeType.startsWith('image/') || mimeType.startsWith('audio/') || mimeType === 'application/pdf') {
+      const pdfText = mimeType === 'application/pdf' ? await this.readPdfTextLayer(file) : null;
+      if (pdfText?.analysis) {
+        parts.push({ text: `Content from ${file.name}:\n${pdfText.analysis}` });
+        texts.push(pdfText.analysis.replace(/^\[Page \d+\]$/gm, ''));
+      } else if (mimeType.startsWith('image/') || mimeType.startsWith('audio/') || mimeType === 'application/pdf') {
         const base64 = await this.fileToBase64(file);
         parts.push({ inlineData: { mimeType, data: base64 }});
       } else {
@@ -93,12 +137,19 @@ export class GeminiService {
         const textContent = await this.extractTextFromFile(file);
         if (textContent) {
            parts.push({ text: `Content from ${file.name}:\n${textContent}` });
+           texts.push(textContent);
         }
       }
     }
 
     if (parts.length === 0) return null;
 
+    // Catch oversized text up front instead of waiting for the API to reject it
+    const textTokens = parts.reduce((sum, part) => sum + ('text' in part ? estimateTokens(part.text) : 0), 0);
+    if (textTokens > contextLimitFor(target.model)) {
+      throw new Error(`The uploaded files come to about ${formatTokens(textTokens)} tokens, more than ${target.model} accepts (${formatTokens(contextLimitFor(target.model))}). Please try fewer files or a model with a larger context window.`);
+    }
+
     const prompt = `
       Analyze the provided content (images, audio, or documents) to determine the author's or speaker's persona.
       Identify the distinct voice, tone, and relationship with the audience found in these materials.
@@ -109,41 +160,73 @@ export class GeminiService {
         "aiPersona": "A short, descriptive title for this persona (e.g. 'Witty Analyst', 'Empathetic Coach')",
         "targetAudience": ["Inferred Primary Audience", "Inferred Secondary Audience"],
         "desiredTone": "Adjectives describing the tone (e.g. 'Sarcastic', 'Professional', 'Warm')",
-        "interpersonalStance": "The relationship to the audience (e.g. 'Peer-to-peer', 'Authoritative', 'Servant-Leader')"
+        "interpersonalStance": "The relationship to the audience (e.g. 'Peer-to-peer', 'Authoritative', 'Servant-Leader')",
+        "voice": {
+          "formality": 0.0 to 1.0, where 0 is casual chat and 1 is formal written prose,
+          "lexicalHabits": ["Characteristic word choices and habits, e.g. 'Prefers plain verbs to Latinate ones', 'Opens with a rhetorical question'"],
+          "signaturePhrases": ["Phrases the author repeats, quoted verbatim"],
+          "excerpts": ["Two or three short verbatim passages that best show the voice"]
+        }
       }
     `;
     
     parts.push({ text: prompt });
 
     try {
-      const response = await this.client.models.generateContent({
-        model: model,
-        contents: { parts },
-        config: {
-          responseMimeType: 'application/json'
-        }
-      });
-
-      const text = response.text;
-      if (!text) return null;
-      return JSON.parse(text);
+      const result = await this.generateValidated(target, parts, TENOR_ANALYSIS_SCHEMA, normalizeTenorAnalysis);
+      if (!result) return null;
+      const { voice: reading, ...tenor } = result.data;
+      const voice = mergeVoiceProfile(measureStyle(texts), reading);
+      return { ...result, data: voice ? { ...tenor, voice } : tenor };
     } catch (error: any) {
       console.error("Persona Analysis Error:", error);
       if (error.message && error.message.includes('token count exceeds')) {
-         throw new Error(`The uploaded files exceed the token limit for ${model}. Please try fewer files or use gemini-3-pro-preview.`);
+         throw new Error(`The uploaded files exceed the token limit for ${target.model}. Please try fewer files or use gemini-3-pro-preview.`);
       }
       throw error;
     }
   }
 
+  // Summarize attachment chunks a batch at a time; summaries come back in chunk order,
+  // with '' wherever the model skipped one
+  async summarizeChunks(chunks: string[], target: ModelTarget = DEFAULT_TARGET, onProgress?: (done: number, total: number) => void): Promise<string[]> {
+    const batches: number[][] = [[]];
+    let batchTokens = 0;
+    chunks.forEach((chunk, idx) => {
+      const tokens = estimateTokens(chunk);
+      if (batches[batches.length - 1].length && batchTokens + tokens > SUMMARY_BATCH_TOKENS) {
+        batches.push([]);
+        batchTokens = 0;
+      }
+      batches[batches.length - 1].push(idx);
+      batchTokens += tokens;
+    });
+
+    const summaries: string[] = chunks.map(() => '');
+    for (const batch of batches) {
+      const excerpts = batch.map((idx, n) => `<excerpt index="${n + 1}">\n${chunks[idx]}\n</excerpt>`).join('\n');
+      const prompt = `
+        Summarize each of the ${batch.length} excerpts below in two or three sentences.
+        Keep names, figures and terminology. Return a JSON object whose "summaries" array
+        has exactly one entry per excerpt, in the same order.
+
+        ${excerpts}
+      `;
+      const result = await this.generateValidated(target, prompt, CHUNK_SUMMARIES_SCHEMA, normalizeChunkSummaries);
+      batch.forEach((idx, n) => { summaries[idx] = result?.data[n] || ''; });
+      onProgress?.(batch[batch.length - 1] + 1, chunks.length);
+    }
+    return summaries;
+  }
+
   // Execute the final prompt
-  async executePrompt(compiledPrompt: string, model: string = 'gemini-3-pro-preview'): Promise<string> {
+  async executePrompt(compiledPrompt: string, target: ModelTarget = DEFAULT_TARGET, system?: string, config?: RequestConfig): Promise<string> {
     try {
-      const response = await this.client.models.generateContent({
-        model: model,
-        contents: compiledPrompt,
-      });
-      return response.text || "No response generated.";
+      let text = '';
+      for await (const chunk of this.executePromptStream(compiledPrompt, target, system, config)) {
+        text += chunk;
+      }
+      return text || "No response generated.";
     } catch (error) {
       console.error("Execution Error:", error);
       return `Error: ${(error as Error).message}`;
@@ -151,19 +234,19 @@ export class GeminiService {
   }
   
   // Stream execution
-  async *executePromptStream(compiledPrompt: string, model: string = 'gemini-3-pro-preview') {
-      const responseStream = await this.client.models.generateContentStream({
-        model: model,
-        contents: compiledPrompt,
-      });
+  // `config` is the resolved generation config and response schema (see requestConfigFor)
+  async *executePromptStream(compiledPrompt: string, target: ModelTarget = DEFAULT_TARGET, system?: string, config?: RequestConfig) {
+      yield* this.provider(target.provider).streamText(target.model, compiledPrompt, system, config);
+  }
 
-      for await (const chunk of responseStream) {
-        yield chunk.text;
-      }
+  // Stream the model's next turn in a conversation
+  async *chatStream(turns: ChatTurn[], target: ModelTarget = DEFAULT_TARGET, system?: string, config?: RequestConfig) {
+    yield* this.provider(target.provider).streamChat(target.model, turns, system, config);
   }
 
   // File Processing
-  async processFile(file: File): Promise<{ analysis: string }> {
+  // `profile` overrides the default analysis profile for media files; `signal` stops local PDF reading
+  async processFile(file: File, profile?: AnalysisProfile, signal?: AbortSignal): Promise<AttachmentAnalysis> {
     const fileName = file.name.toLowerCase();
     const mimeType = file.type;
 
@@ -179,27 +262,31 @@ export class GeminiService {
 
     // DOCX Handling
     if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      const text = await this.extractTextFromDOCX(file);
-      return { analysis: text || "Empty document." };
+      return this.processDOCX(file);
     }
 
-    // Route to appropriate model based on file type for Media and PDF
-    if (mimeType.startsWith('audio/') || 
-        mimeType.startsWith('video/') || 
-        mimeType.startsWith('image/') || 
-        mimeType === 'application/pdf') {
-      
-      const base64Data = await this.fileToBase64(file);
+    // Markdown keeps its headings as an outline
+    if (fileName.endsWith('.md') || fileName.endsWith('.markdown')) {
+      return this.processMarkdown(file);
+    }
+
+    // HTML, CSV, RTF, ODT and EPUB are converted in the browser
+    const format = localFormatOf(file);
+    if (format) {
+      return extractDocument(file, format);
+    }
 
-      if (mimeType.startsWith('audio/')) {
-        return this.processAudio(base64Data, mimeType);
-      } else if (mimeType.startsWith('video/')) {
-        return this.processVideo(base64Data, mimeType);
-      } else if (mimeType.startsWith('image/')) {
-        return this.processImage(base64Data, mimeType);
-      } else if (mimeType === 'application/pdf') {
-        return this.processPDF(base64Data, mimeType);
+    // Media and PDF go to the model named by their analysis profile, except
+    // PDFs with a text layer, which are read locally
+    const kind = mediaKindOf(mimeType);
+    if (kind) {
+      const resolved = profile ?? DEFAULT_ANALYSIS_PROFILES[kind];
+      if (kind === 'pdf' && resolved.useTextLayer !== false) {
+        const local = await this.readPdfTextLayer(file, signal);
+        if (local) return local;
       }
+      const base64Data = await this.fileToBase64(file);
+      return this.processMedia(base64Data, mimeType, kind, resolved);
     }
 
     // Default text handling for other types
@@ -212,6 +299,15 @@ export class GeminiService {
     if (fileName.endsWith('.docx')) {
       return await this.extractTextFromDOCX(file);
     }
+    const format = localFormatOf(file);
+    if (format) {
+      try {
+        return (await extractDocument(file, format)).analysis || "";
+      } catch (e) {
+        console.warn(`Could not extract ${file.name}.`, e);
+        return "";
+      }
+    }
     // Try reading as text
     try {
        return await file.text();
@@ -249,56 +345,53 @@ export class GeminiService {
     }
   }
 
-  private async processAudio(base64Data: string, mimeType: string) {
-    const response = await this.client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: "Transcribe this audio verbatim." }
-        ]
-      }
-    });
-    return { analysis: response.text || "No transcription generated." };
+  // Pages of a PDF's text layer, or null when it has none worth using (e.g. a scan)
+  // Null sends the PDF to the model: too large to read locally, no usable text layer, or a reader error.
+  // Cancelling stops the reader and is passed on, so no model call follows.
+  private async readPdfTextLayer(file: File, signal?: AbortSignal) {
+    if (file.size > MAX_LOCAL_PDF_BYTES) return null;
+    try {
+      const text = await readPdfText(new Uint8Array(await file.arrayBuffer()), signal);
+      return text && hasTextLayer(text) ? pdfAnalysis(text) : null;
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.warn("PDF text extraction failed, using the model instead", e);
+      return null;
+    }
   }
 
-  private async processVideo(base64Data: string, mimeType: string) {
-    const response = await this.client.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: "Analyze this video and provide a comprehensive description of the visual and audio content, including any captions or spoken words." }
-        ]
-      }
-    });
-    return { analysis: response.text || "No analysis generated." };
+  private async processMedia(base64Data: string, mimeType: string, kind: MediaKind, profile: AnalysisProfile): Promise<AttachmentAnalysis> {
+    const media = { mimeType, data: base64Data };
+    const instruction = buildAnalysisInstruction(profile, kind);
+    if (profile.outputShape === 'structured') {
+      const { schema, normalize } = STRUCTURED_ANALYSIS[kind];
+      const result = await this.generateValidated(profile, [{ inlineData: media }, { text: instruction }], schema, normalize);
+      if (!result) return { analysis: "No analysis generated." };
+      const analysis = structuredToText(result.data) || "No analysis generated.";
+      const structured = result.data.kind === 'outline' ? { ...result.data, sections: compactOutline(analysis, result.data.sections) } : result.data;
+      return { analysis, structured };
+    }
+    const text = await this.provider(profile.provider).analyzeMedia(profile.model, media, instruction);
+    return { analysis: text || "No analysis generated." };
   }
 
-  private async processImage(base64Data: string, mimeType: string) {
-    const response = await this.client.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: "Analyze this image in detail. Describe the scene, objects, text, and mood." }
-        ]
-      }
-    });
-    return { analysis: response.text || "No analysis generated." };
+  private async processDOCX(file: File): Promise<AttachmentAnalysis> {
+    const text = await this.extractTextFromDOCX(file);
+    if (!text) return { analysis: "Empty document." };
+    try {
+      const { value } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+      const sections = anchorOutline(text, outlineFromHtml(value));
+      if (sections.length) return { analysis: text, structured: { kind: 'outline', sections } };
+    } catch (e) {
+      console.warn("DOCX outline extraction failed", e);
+    }
+    return { analysis: text };
   }
 
-  private async processPDF(base64Data: string, mimeType: string) {
-    const response = await this.client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: "Analyze this document. Summarize the key points and extract the main content." }
-        ]
-      }
-    });
-    return { analysis: response.text || "No analysis generated." };
+  private async processMarkdown(file: File): Promise<AttachmentAnalysis> {
+    const text = await file.text();
+    const sections = outlineFromMarkdown(text);
+    return sections.length ? { analysis: text, structured: { kind: 'outline', sections } } : { analysis: text };
   }
 
   private async extractTextFromDOCX(file: File): Promise<string> {
@@ -331,36 +424,3 @@ export class GeminiService {
     });
   }
 }
-
-export const compileSFLPrompt = (field: SFLField, tenor: SFLTenor, mode: SFLMode, attachments: Attachment[] = []): string => {
-  const attachmentContext = attachments
-    .filter(a => a.status === 'done' && a.analysis)
-    .map(a => `\n### Attachment: ${a.name} (${a.type})\n${a.analysis}`)
-    .join('\n');
-
-  return `
-# CONTEXT (Field)
-**Topic:** ${field.topic}
-**Task:** ${field.taskType}
-**Domain:** ${field.domainSpecifics}
-**Keywords:** ${field.keywords}
-
-${attachmentContext ? `\n# REFERENCE MATERIAL\n${attachmentContext}\n` : ''}
-
-# PERSONA & AUDIENCE (Tenor)
-**Role:** ${tenor.aiPersona}
-**Audience:** ${tenor.targetAudience.join(', ')}
-**Tone:** ${tenor.desiredTone}
-**Stance:** ${tenor.interpersonalStance}
-
-# FORMAT & STRUCTURE (Mode)
-**Format:** ${mode.outputFormat}
-**Structure:** ${mode.rhetoricalStructure}
-**Length:** ${mode.lengthConstraint}
-**Directives:** ${mode.textualDirectives}
-
----
-**INSTRUCTION:**
-Based on the framework and reference material above, please execute the task.
-`.trim();
-};
\ No newline at end of file
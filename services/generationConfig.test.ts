@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { isEmptyGenerationConfig, resolveGenerationConfig, sanitizeGenerationConfig } from './generationConfig';
+import { GenerationConfig } from '../types';
+
+describe('generationConfig', () => {
+  it('lets the narrative override the workspace defaults key by key', () => {
+    const defaults: GenerationConfig = { temperature: 0.2, maxOutputTokens: 512, safety: { harassment: 'BLOCK_NONE', hateSpeech: 'BLOCK_ONLY_HIGH' } };
+    const own: GenerationConfig = { temperature: 1.1, topP: undefined, safety: { hateSpeech: 'BLOCK_LOW_AND_ABOVE' } };
+    expect(resolveGenerationConfig(defaults, own)).toEqual({
+      temperature: 1.1,
+      maxOutputTokens: 512,
+      safety: { harassment: 'BLOCK_NONE', hateSpeech: 'BLOCK_LOW_AND_ABOVE' }
+    });
+    expect(resolveGenerationConfig()).toEqual({});
+  });
+
+  it('pulls values into the range providers accept and drops junk', () => {
+    expect(sanitizeGenerationConfig({
+      temperature: 3,
+      topP: -1,
+      maxOutputTokens: 0.4,
+      thinkingBudget: -20,
+      stopSequences: ['END', '', 'a', 'b', 'c', 'd', 'e'],
+      safety: { harassment: 'LOUD' as never, dangerousContent: 'BLOCK_NONE' }
+    })).toEqual({
+      temperature: 2,
+      topP: 0,
+      maxOutputTokens: 1,
+      thinkingBudget: -1,
+      stopSequences: ['END', 'a', 'b', 'c', 'd'],
+      safety: { dangerousContent: 'BLOCK_NONE' }
+    });
+    expect(isEmptyGenerationConfig({ temperature: NaN, stopSequences: [], safety: {} })).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { GenerationConfig, HarmCategoryId, SafetyThreshold } from '../types';
+
+export const HARM_CATEGORY_LABELS: Record<HarmCategoryId, string> = {
+  harassment: 'Harassment',
+  hateSpeech: 'Hate speech',
+  sexuallyExplicit: 'Sexually explicit',
+  dangerousContent: 'Dangerous content'
+};
+
+export const SAFETY_THRESHOLD_LABELS: Record<SafetyThreshold, string> = {
+  BLOCK_NONE: 'Block none',
+  BLOCK_ONLY_HIGH: 'Block few',
+  BLOCK_MEDIUM_AND_ABOVE: 'Block some',
+  BLOCK_LOW_AND_ABOVE: 'Block most'
+};
+
+// Gemini accepts up to five stop sequences
+export const MAX_STOP_SEQUENCES = 5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const finite = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Keep only values a provider will accept, pulling numbers into range
+export const sanitizeGenerationConfig = (config: GenerationConfig = {}): GenerationConfig => {
+  const clean: GenerationConfig = {};
+  if (finite(config.temperature)) clean.temperature = clamp(config.temperature, 0, 2);
+  if (finite(config.topP)) clean.topP = clamp(config.topP, 0, 1);
+  if (finite(config.maxOutputTokens)) clean.maxOutputTokens = Math.max(1, Math.round(config.maxOutputTokens));
+  if (finite(config.thinkingBudget)) clean.thinkingBudget = Math.max(-1, Math.round(config.thinkingBudget));
+  const stops = (config.stopSequences || []).filter(s => typeof s === 'string' && s !== '').slice(0, MAX_STOP_SEQUENCES);
+  if (stops.length) clean.stopSequences = stops;
+  const safety = Object.fromEntries(Object.entries(config.safety || {}).filter(([category, threshold]) =>
+    category in HARM_CATEGORY_LABELS && !!threshold && threshold in SAFETY_THRESHOLD_LABELS));
+  if (Object.keys(safety).length) clean.safety = safety;
+  return clean;
+};
+
+// The narrative's own settings win key by key; safety thresholds merge per category
+export const resolveGenerationConfig = (defaults: GenerationConfig = {}, overrides: GenerationConfig = {}): GenerationConfig => {
+  const merged: GenerationConfig = { ...defaults };
+  (Object.keys(overrides) as (keyof GenerationConfig)[]).forEach(key => {
+    if (overrides[key] !== undefined) (merged as Record<string, unknown>)[key] = overrides[key];
+  });
+  merged.safety = { ...defaults.safety, ...Object.fromEntries(Object.entries(overrides.safety || {}).filter(([, threshold]) => threshold)) };
+  return sanitizeGenerationConfig(merged);
+};
+
+export const isEmptyGenerationConfig = (config: GenerationConfig = {}): boolean =>
+  Object.keys(sanitizeGenerationConfig(config)).length === 0;
@@ -0,0 +1,127 @@
+// A small JSON Schema subset: enough to describe model outputs and check them at runtime.
+// The same objects are sent to providers as the response schema.
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, expected: JsonSchemaType): boolean => {
+  const actual = typeOf(value);
+  return actual === expected || (expected === 'number' && actual === 'integer');
+};
+
+// Schemas can come from users, so a pattern that does not compile is reported rather than thrown
+export const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+export const validateJson = (value: unknown, schema: JsonSchema, path = '$'): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!expected.some(t => matchesType(value, t))) {
+      return [{ path, message: `expected ${expected.join(' or ')}, got ${typeOf(value)}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern) {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) issues.push({ path, message: `cannot be checked: /${schema.pattern}/ is not a valid pattern` });
+      else if (!pattern.test(value)) issues.push({ path, message: `must match /${schema.pattern}/` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, idx) => issues.push(...validateJson(item, schema.items!, `${path}[${idx}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) issues.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        issues.push(...validateJson(child, childSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJson(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return issues;
+};
+
+export const formatIssue = (issue: SchemaIssue): string => `${issue.path} ${issue.message}`;
+
+// Parse model text and validate it in one step; parse failures become an issue at the root
+export const parseAndValidate = (text: string, schema: JsonSchema): { value: unknown; issues: SchemaIssue[] } => {
+  try {
+    const value = JSON.parse(text);
+    return { value, issues: validateJson(value, schema) };
+  } catch (e) {
+    return { value: undefined, issues: [{ path: '$', message: `is not valid JSON (${(e as Error).message})` }] };
+  }
+};
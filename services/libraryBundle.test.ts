@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, BundleError, bundleToJSON, parseBundle, planImport, promptToYAML } from './libraryBundle';
+import { toYAML } from './yaml';
+import { bindVariables, detectVariables } from './templateVariables';
+import { compilePrompt } from './compileTargets';
+import { EMPTY_FILTER, matchesFilter } from './librarySearch';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR, PromptSFL } from '../types';
+
+const prompt = (id: string, overrides: Partial<PromptSFL> = {}): PromptSFL => ({
+  id,
+  title: `Narrative ${id}`,
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: DEFAULT_FIELD,
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE,
+  ...overrides
+});
+
+describe('libraryBundle', () => {
+  it('round-trips prompts with their attachment analyses', () => {
+    const original = prompt('a', {
+      attachments: [{ id: 'f', name: 'notes.md', type: 'text', mimeType: 'text/markdown', content: '', analysis: 'Key facts', status: 'done' }]
+    });
+    const parsed = parseBundle(bundleToJSON([original]));
+    expect(parsed).toEqual({ prompts: [original], sourceVersion: BUNDLE_VERSION, issues: [] });
+  });
+
+  it('migrates a bare prompt array written before bundles existed', () => {
+    const legacy = [{ ...prompt('a'), description: undefined, sflTenor: { ...DEFAULT_TENOR, targetAudience: 'Kids, Parents' } }];
+    const parsed = parseBundle(JSON.stringify(legacy));
+    expect(parsed.sourceVersion).toBe(0);
+    expect(parsed.prompts[0].description).toBe('');
+    expect(parsed.prompts[0].sflTenor.targetAudience).toEqual(['Kids', 'Parents']);
+  });
+
+  it('reads a raw localStorage dump', () => {
+    const dump = { state: { prompts: [prompt('a')], theme: 'dark' }, version: 0 };
+    expect(parseBundle(JSON.stringify(dump)).prompts.map(p => p.id)).toEqual(['a']);
+  });
+
+  it('leaves out invalid narratives and explains why', () => {
+    const bundle = JSON.parse(bundleToJSON([prompt('a'), prompt('b')]));
+    delete bundle.prompts[1].sflMode;
+    const parsed = parseBundle(JSON.stringify(bundle));
+    expect(parsed.prompts.map(p => p.id)).toEqual(['a']);
+    expect(parsed.issues).toEqual(['"Narrative b": $.prompts[1].sflMode is required']);
+  });
+
+  it('rejects unreadable files and bundles from newer builds', () => {
+    expect(() => parseBundle('{nope')).toThrow(BundleError);
+    expect(() => parseBundle(JSON.stringify({ format: 'sfl-narrative-bundle', version: BUNDLE_VERSION + 1, prompts: [] }))).toThrow(/newer version/);
+  });
+
+  it('resolves id collisions by merge, duplicate or skip', () => {
+    const existing = [prompt('a', { title: 'Mine', updatedAt: 5, tags: ['team'] })];
+    const incoming = [prompt('a', { title: 'Theirs', updatedAt: 9, tags: ['Team', 'review'] }), prompt('b')];
+
+    const merged = planImport(existing, incoming, 'merge');
+    expect(merged).toMatchObject({ added: 1, merged: 1, duplicated: 0, skipped: 0 });
+    expect(merged.prompts[0]).toMatchObject({ id: 'a', title: 'Theirs', tags: ['Team', 'review'] });
+
+    const duplicated = planImport(existing, incoming, 'duplicate');
+    expect(duplicated.duplicated).toBe(1);
+    expect(duplicated.prompts[0].id).not.toBe('a');
+    expect(duplicated.prompts[0].title).toBe('Theirs (Imported)');
+
+    const skipped = planImport(existing, incoming, 'skip');
+    expect(skipped).toMatchObject({ added: 1, skipped: 1 });
+    expect(skipped.prompts.map(p => p.id)).toEqual(['b']);
+  });
+
+  it('gives repeated ids within one bundle fresh ids', () => {
+    const incoming = [prompt('a', { title: 'First' }), prompt('a', { title: 'Second' })];
+    const plan = planImport([], incoming, 'skip');
+    expect(plan).toMatchObject({ added: 1, duplicated: 1 });
+    expect(plan.prompts[0]).toMatchObject({ id: 'a', title: 'First' });
+    expect(plan.prompts[1].id).not.toBe('a');
+    expect(plan.prompts[1].title).toBe('Second (Imported)');
+  });
+
+  it('loads stored narratives carrying keys from newer builds', () => {
+    const future = { ...prompt('a'), sflField: { ...DEFAULT_FIELD, register: 'formal' }, sflMode: { ...DEFAULT_MODE, cadence: 'slow' } };
+    const parsed = parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, prompts: [future] }));
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.prompts).toHaveLength(1);
+  });
+
+  it('opens narratives whose extra stored keys are not strings', () => {
+    const future = {
+      ...prompt('a', { sflField: { ...DEFAULT_FIELD, topic: 'Trip to {{city}}' } }),
+      sflTenor: { ...DEFAULT_TENOR, weights: [1, 2] },
+      sflMode: { ...DEFAULT_MODE, priority: 3 }
+    };
+    const [imported] = parseBundle(JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, prompts: [future] })).prompts;
+    const slots = { field: imported.sflField, tenor: imported.sflTenor, mode: imported.sflMode };
+
+    const variables = detectVariables(slots);
+    expect(variables.map(v => v.name)).toEqual(['city']);
+    const bound = bindVariables(slots, variables, { city: 'Lisbon' });
+    expect(bound.field.topic).toBe('Trip to Lisbon');
+    expect(bound.tenor).toMatchObject({ weights: [1, 2] });
+    expect(compilePrompt('markdown', bound.field, bound.tenor, bound.mode).prompt).toContain('Lisbon');
+    expect(matchesFilter(imported, { ...EMPTY_FILTER, query: 'trip' })).toBe(true);
+  });
+
+  it('writes reviewable YAML', () => {
+    expect(toYAML({ title: 'Tides: a poem', lines: 'one\ntwo', tags: ['sea', 'true'], empty: [], nested: [{ a: 1, b: 'x' }] })).toBe(
+      'title: "Tides: a poem"\nlines: |-\n  one\n  two\ntags:\n- sea\n- "true"\nempty: []\nnested:\n- a: 1\n  b: x\n'
+    );
+    const yaml = promptToYAML(prompt('a', { versions: [] }));
+    expect(yaml).toContain('sflTenor:\n  aiPersona: Helpful Assistant\n  targetAudience: []');
+    expect(yaml).not.toContain('versions');
+  });
+});
@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from 'uuid';
+import { formatIssue, validateJson } from './jsonSchema';
+import { PROMPT_SCHEMA } from './sflSchema';
+import { chunksToOffsets, outlinesToOffsets, sessionsToFingerprints, upgradeLegacyPrompt } from './storeMigrations';
+import { MAX_CHAT_SESSIONS } from './chatSession';
+import { toYAML } from './yaml';
+import { normalizeTags } from './librarySearch';
+import { PromptSFL } from '../types';
+
+export const BUNDLE_FORMAT = 'sfl-narrative-bundle';
+export const BUNDLE_VERSION = 4;
+
+export interface LibraryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  prompts: PromptSFL[];
+}
+
+export type CollisionStrategy = 'merge' | 'duplicate' | 'skip';
+
+export interface ParsedBundle {
+  prompts: PromptSFL[];
+  sourceVersion: number; // Version found in the file, before migration
+  issues: string[]; // One line per narrative that was left out
+}
+
+export interface ImportPlan {
+  prompts: PromptSFL[]; // Upserted by id
+  added: number;
+  merged: number;
+  duplicated: number;
+  skipped: number;
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+export const createBundle = (prompts: PromptSFL[]): LibraryBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  prompts
+});
+
+export const bundleToJSON = (prompts: PromptSFL[]): string => JSON.stringify(createBundle(prompts), null, 2);
+
+// Version history, votes and chat transcripts are left out of the review copy; they are noise in a code review
+export const promptToYAML = (prompt: PromptSFL): string => {
+  const { versions: _versions, votes: _votes, chatSessions: _chatSessions, ...reviewable } = prompt;
+  return toYAML(reviewable);
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const upgradePrompts = (raw: unknown, version: number, upgrade: (prompt: unknown) => unknown) => {
+  const bundle = asRecord(raw);
+  return { ...bundle, version, prompts: Array.isArray(bundle.prompts) ? bundle.prompts.map(upgrade) : bundle.prompts };
+};
+
+// Upgrade steps keyed by the version they start from. Version 0 is anything
+// written before bundles existed: a bare prompt array or a raw localStorage dump.
+const MIGRATIONS: Record<number, (raw: unknown) => unknown> = {
+  0: (raw) => {
+    const prompts = Array.isArray(raw) ? raw : asRecord(asRecord(raw).state).prompts;
+    if (!Array.isArray(prompts)) throw new BundleError('The file does not contain any narratives.');
+    return {
+      format: BUNDLE_FORMAT,
+      version: 1,
+      exportedAt: Date.now(),
+      prompts: prompts.map(upgradeLegacyPrompt)
+    };
+  },
+  // Attachment chunks became offsets into the analysis
+  1: (raw) => upgradePrompts(raw, 2, chunksToOffsets),
+  // So did outline sections whose text is in the analysis
+  2: (raw) => upgradePrompts(raw, 3, outlinesToOffsets),
+  // Chat sessions keep a fingerprint of their context instead of the context itself
+  3: (raw) => upgradePrompts(raw, 4, sessionsToFingerprints)
+};
+
+export const migrateBundle = (raw: unknown): { bundle: Record<string, unknown>; sourceVersion: number } => {
+  const record = asRecord(raw);
+  const sourceVersion = record.format === BUNDLE_FORMAT && typeof record.version === 'number' ? record.version : 0;
+  if (sourceVersion > BUNDLE_VERSION) {
+    throw new BundleError(`This bundle was written by a newer version of the app (format v${sourceVersion}).`);
+  }
+
+  let current: unknown = raw;
+  for (let version = sourceVersion; version < BUNDLE_VERSION; version++) {
+    current = MIGRATIONS[version](current);
+  }
+  return { bundle: asRecord(current), sourceVersion };
+};
+
+export const parseBundle = (text: string): ParsedBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError('The file is not valid JSON.');
+  }
+
+  const { bundle, sourceVersion } = migrateBundle(raw);
+  if (!Array.isArray(bundle.prompts)) throw new BundleError('The bundle has no "prompts" list.');
+
+  const prompts: PromptSFL[] = [];
+  const issues: string[] = [];
+  bundle.prompts.forEach((candidate: unknown, idx: number) => {
+    const problems = validateJson(candidate, PROMPT_SCHEMA, `$.prompts[${idx}]`);
+    if (problems.length) {
+      const title = asRecord(candidate).title;
+      issues.push(`${typeof title === 'string' ? `"${title}"` : `Entry ${idx + 1}`}: ${problems.slice(0, 3).map(formatIssue).join('; ')}`);
+    } else {
+      prompts.push(candidate as PromptSFL);
+    }
+  });
+
+  return { prompts, sourceVersion, issues };
+};
+
+const unionById = <T extends { id: string }>(a: T[] = [], b: T[] = []): T[] =>
+  [...a, ...b.filter(item => !a.some(existing => existing.id === item.id))];
+
+// The more recently edited copy supplies the content; history, votes, chat sessions and tags from both survive
+const mergePrompt = (existing: PromptSFL, incoming: PromptSFL): PromptSFL => {
+  const [newer, older] = incoming.updatedAt > existing.updatedAt ? [incoming, existing] : [existing, incoming];
+  const versions = unionById(newer.versions, older.versions).sort((a, b) => b.savedAt - a.savedAt);
+  const votes = unionById(newer.votes, older.votes).sort((a, b) => b.votedAt - a.votedAt);
+  const chatSessions = unionById(newer.chatSessions, older.chatSessions).sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_CHAT_SESSIONS);
+  const tags = normalizeTags([...(newer.tags || []), ...(older.tags || [])]);
+  return {
+    ...newer,
+    ...(versions.length ? { versions } : {}),
+    ...(votes.length ? { votes } : {}),
+    ...(chatSessions.length ? { chatSessions } : {}),
+    ...(tags.length ? { tags } : {})
+  };
+};
+
+export const planImport = (existing: PromptSFL[], incoming: PromptSFL[], strategy: CollisionStrategy): ImportPlan => {
+  const plan: ImportPlan = { prompts: [], added: 0, merged: 0, duplicated: 0, skipped: 0 };
+  const seen = new Set<string>();
+  for (const prompt of incoming) {
+    const collision = existing.find(p => p.id === prompt.id);
+    if (seen.has(prompt.id)) {
+      // A bundle that repeats an id keeps every copy; later ones get fresh ids whatever the strategy
+      plan.prompts.push({ ...prompt, id: uuidv4(), title: `${prompt.title} (Imported)` });
+      plan.duplicated++;
+      continue;
+    }
+    seen.add(prompt.id);
+    if (!collision) {
+      plan.prompts.push(prompt);
+      plan.added++;
+    } else if (strategy === 'merge') {
+      plan.prompts.push(mergePrompt(collision, prompt));
+      plan.merged++;
+    } else if (strategy === 'duplicate') {
+      plan.prompts.push({ ...prompt, id: uuidv4(), title: `${prompt.title} (Imported)` });
+      plan.duplicated++;
+    } else {
+      plan.skipped++;
+    }
+  }
+  return plan;
+};
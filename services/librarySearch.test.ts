@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_FILTER, collectFacets, filterPrompts, normalizeTags } from './librarySearch';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR, PromptSFL } from '../types';
+
+const prompt = (id: string, overrides: Partial<PromptSFL> = {}): PromptSFL => ({
+  id,
+  title: `Narrative ${id}`,
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: DEFAULT_FIELD,
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE,
+  ...overrides
+});
+
+const library = [
+  prompt('a', { title: 'Quarterly memo', updatedAt: 3, createdAt: 1, tags: ['Finance'], sflField: { ...DEFAULT_FIELD, taskType: 'Memo', topic: 'Revenue forecast' } }),
+  prompt('b', { title: 'bedtime story', updatedAt: 1, createdAt: 3, tags: ['kids', 'finance'], sflTenor: { ...DEFAULT_TENOR, aiPersona: 'Grandmother' } }),
+  prompt('c', { title: 'Changelog', updatedAt: 2, createdAt: 2, sflMode: { ...DEFAULT_MODE, outputFormat: 'JSON', textualDirectives: 'No revenue talk' } })
+];
+
+describe('librarySearch', () => {
+  it('matches every query term across the title and all SFL slots', () => {
+    expect(filterPrompts(library, { ...EMPTY_FILTER, query: 'revenue' }).map(p => p.id)).toEqual(['a', 'c']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, query: 'REVENUE forecast' }).map(p => p.id)).toEqual(['a']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, query: 'grandmother' }).map(p => p.id)).toEqual(['b']);
+  });
+
+  it('applies facet and tag filters case-insensitively', () => {
+    expect(filterPrompts(library, { ...EMPTY_FILTER, taskType: 'memo' }).map(p => p.id)).toEqual(['a']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, outputFormat: 'json' }).map(p => p.id)).toEqual(['c']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, tags: ['FINANCE'] }).map(p => p.id)).toEqual(['a', 'b']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, tags: ['finance', 'kids'] }).map(p => p.id)).toEqual(['b']);
+  });
+
+  it('sorts by updated, created or title', () => {
+    expect(filterPrompts(library, { ...EMPTY_FILTER, sort: 'updated' }).map(p => p.id)).toEqual(['a', 'c', 'b']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, sort: 'created' }).map(p => p.id)).toEqual(['b', 'c', 'a']);
+    expect(filterPrompts(library, { ...EMPTY_FILTER, sort: 'title' }).map(p => p.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('counts facet values and folds tag spellings together', () => {
+    const facets = collectFacets(library);
+    expect(facets.tags).toEqual([{ value: 'Finance', count: 2 }, { value: 'kids', count: 1 }]);
+    expect(facets.personas[0]).toEqual({ value: DEFAULT_TENOR.aiPersona, count: 2 });
+    expect(normalizeTags([' draft', 'Draft', '', 'final '])).toEqual(['draft', 'final']);
+  });
+});
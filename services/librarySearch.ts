@@ -0,0 +1,84 @@
+import { LibraryFilter, PromptSFL } from '../types';
+
+export const EMPTY_FILTER: LibraryFilter = { query: '', tags: [], sort: 'updated' };
+
+export interface Facet {
+  value: string;
+  count: number;
+}
+
+export interface LibraryFacets {
+  taskTypes: Facet[];
+  outputFormats: Facet[];
+  personas: Facet[];
+  tags: Facet[];
+}
+
+// Everything a user might remember about a narrative: title, description, tags, every SFL slot and the examples
+const searchableText = (prompt: PromptSFL): string => [
+  prompt.title,
+  prompt.description,
+  ...(prompt.tags || []),
+  ...Object.values(prompt.sflField),
+  prompt.sflTenor.aiPersona,
+  ...prompt.sflTenor.targetAudience,
+  prompt.sflTenor.desiredTone,
+  prompt.sflTenor.interpersonalStance,
+  ...Object.values(prompt.sflMode),
+  ...(prompt.examples || []).flatMap(e => [e.input || '', e.output])
+].join('\n').toLowerCase();
+
+const sameValue = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Every whitespace-separated term must appear somewhere; facets match exactly (case-insensitive)
+export const matchesFilter = (prompt: PromptSFL, filter: LibraryFilter): boolean => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length) {
+    const text = searchableText(prompt);
+    if (!terms.every(term => text.includes(term))) return false;
+  }
+  if (filter.taskType && !sameValue(prompt.sflField.taskType, filter.taskType)) return false;
+  if (filter.outputFormat && !sameValue(prompt.sflMode.outputFormat, filter.outputFormat)) return false;
+  if (filter.persona && !sameValue(prompt.sflTenor.aiPersona, filter.persona)) return false;
+  const tags = prompt.tags || [];
+  return filter.tags.every(tag => tags.some(t => sameValue(t, tag)));
+};
+
+export const sortPrompts = (prompts: PromptSFL[], sort: LibraryFilter['sort']): PromptSFL[] => {
+  const sorted = [...prompts];
+  switch (sort) {
+    case 'created':
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }));
+    default:
+      return sorted.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+};
+
+export const filterPrompts = (prompts: PromptSFL[], filter: LibraryFilter): PromptSFL[] =>
+  sortPrompts(prompts.filter(p => matchesFilter(p, filter)), filter.sort);
+
+const countValues = (values: string[]): Facet[] => {
+  const counts = new Map<string, Facet>();
+  for (const raw of values) {
+    const value = raw.trim();
+    if (!value) continue;
+    const key = value.toLowerCase();
+    const facet = counts.get(key);
+    if (facet) facet.count++;
+    else counts.set(key, { value, count: 1 });
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const collectFacets = (prompts: PromptSFL[]): LibraryFacets => ({
+  taskTypes: countValues(prompts.map(p => p.sflField.taskType)),
+  outputFormats: countValues(prompts.map(p => p.sflMode.outputFormat)),
+  personas: countValues(prompts.map(p => p.sflTenor.aiPersona)),
+  tags: countValues(prompts.flatMap(p => p.tags || []))
+});
+
+// Tags are compared case-insensitively, so keep only the first spelling of each
+export const normalizeTags = (tags: string[]): string[] =>
+  tags.map(t => t.trim()).filter((t, idx, all) => t && all.findIndex(other => sameValue(other, t)) === idx);
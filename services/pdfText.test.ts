@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import { extractPdfText, hasTextLayer, parseToUnicode } from './pdfText';
+import { MAX_LOCAL_PDF_BYTES, readPdfText } from './pdfTextReader';
+
+const latin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0));
+
+// A minimal PDF; each stream is given as [dictionary entries, data]
+const buildPdf = (objects: (string | [string, Uint8Array])[]): Uint8Array => {
+  const parts: Uint8Array[] = [latin1('%PDF-1.7\n')];
+  objects.forEach((object, idx) => {
+    if (typeof object === 'string') {
+      parts.push(latin1(`${idx + 1} 0 obj\n${object}\nendobj\n`));
+    } else {
+      const [dict, data] = object;
+      parts.push(latin1(`${idx + 1} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n`), data, latin1('\nendstream\nendobj\n'));
+    }
+  });
+  parts.push(latin1('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => { out.set(p, offset); return offset + p.length; }, 0);
+  return out;
+};
+
+const page = (contents: string, fonts: string) =>
+  `<< /Type /Page /Parent 2 0 R /Contents ${contents} /Resources << /Font << ${fonts} >> >> >>`;
+
+describe('extractPdfText', () => {
+  it('reads text operators page by page, in page tree order', async () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 >>',
+      page('6 0 R', '/F1 5 0 R'),
+      page('7 0 R', '/F1 5 0 R'),
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      ['', latin1('BT /F1 12 Tf 72 700 Td (Second page) Tj ET')],
+      ['/Filter /FlateDecode', deflateSync(latin1('BT /F1 12 Tf 72 700 Td (Caf\\351 \\(menu\\)) Tj 0 -14 Td [(Line) -250 (two)] TJ ET'))]
+    ]);
+    const result = await extractPdfText(pdf);
+    expect(result?.pages).toEqual(['Café (menu)\nLine two', 'Second page']);
+    expect(hasTextLayer(result!)).toBe(true);
+  });
+
+  it('maps composite font codes through the ToUnicode CMap', async () => {
+    const cmap = '/CIDInit /ProcSet findresource begin 1 begincodespacerange <0000> <FFFF> endcodespacerange\n' +
+      '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar\n1 beginbfrange <0010> <0012> <0061> endbfrange end';
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      page('5 0 R', '/F1 4 0 R'),
+      '<< /Type /Font /Subtype /Type0 /Encoding /Identity-H /ToUnicode 6 0 R >>',
+      ['', latin1('BT /F1 12 Tf [<00010002> -300 <001000110012>] TJ ET')],
+      ['', latin1(cmap)]
+    ]);
+    expect((await extractPdfText(pdf))?.pages).toEqual(['Hi abc']);
+  });
+
+  it('treats scans and undecodable fonts as having no text layer', async () => {
+    const scan = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Contents 4 0 R /Resources << /XObject << /Im0 5 0 R >> >> >>',
+      ['', latin1('q 612 0 0 792 0 0 cm /Im0 Do Q')],
+      ['/Type /XObject /Subtype /Image /Width 1 /Height 1', latin1('\xff')]
+    ]);
+    expect(hasTextLayer((await extractPdfText(scan))!)).toBe(false);
+    expect(hasTextLayer({ pages: ['�'.repeat(200) + ' Ruby'] })).toBe(false);
+  });
+
+  it('gives up on encrypted files and non-PDF input', async () => {
+    expect(await extractPdfText(latin1('%PDF-1.4\ntrailer << /Root 1 0 R /Encrypt 9 0 R >>'))).toBeNull();
+    expect(await extractPdfText(latin1('binary'))).toBeNull();
+  });
+});
+
+describe('parseToUnicode', () => {
+  it('expands ranges with an array of destinations', () => {
+    const { map, codeBytes } = parseToUnicode('1 begincodespacerange <00> <FF> endcodespacerange 1 beginbfrange <41> <42> [<0058> <00590059>] endbfrange');
+    expect(codeBytes).toBe(1);
+    expect([map.get(0x41), map.get(0x42)]).toEqual(['X', 'YY']);
+  });
+});
+
+describe('readPdfText', () => {
+  it('leaves files over the size cap to the model and honours cancellation', async () => {
+    expect(await readPdfText(new Uint8Array(MAX_LOCAL_PDF_BYTES + 1))).toBeNull();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(readPdfText(latin1('%PDF-1.4'), controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,486 @@
+import { inflate } from './compression';
+
+// A small reader for the text layer of a PDF: enough of the object syntax to find
+// the pages, their fonts and content streams, and the text-showing operators.
+// Anything it cannot decode is left out, and callers fall back to the model.
+// The app calls it through readPdfText, which runs it in a worker.
+
+type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfValue[] | PdfDict;
+interface PdfName { kind: 'name'; name: string }
+interface PdfString { kind: 'string'; bytes: string } // One char per byte
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfDict { kind: 'dict'; entries: Record<string, PdfValue> }
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Uint8Array; // Raw stream data, still encoded
+}
+
+type Token =
+  | { type: 'value'; value: PdfValue }
+  | { type: 'keyword'; word: string }
+  | { type: '[' | ']' | '<<' | '>>' };
+
+// Bytes as a string with one char per byte (TextDecoder's 'latin1' is really windows-1252)
+const binaryString = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8_192) out += String.fromCharCode(...bytes.subarray(i, i + 8_192));
+  return out;
+};
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const isRegular = (ch: string) => !WHITESPACE.includes(ch) && !DELIMITERS.includes(ch);
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+class Lexer {
+  constructor(private src: string, public pos = 0) {}
+
+  next(): Token | null {
+    const src = this.src;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (WHITESPACE.includes(ch)) { this.pos++; continue; }
+      if (ch === '%') { while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') this.pos++; continue; }
+      break;
+    }
+    if (this.pos >= src.length) return null;
+
+    const ch = src[this.pos];
+    if (ch === '(') return { type: 'value', value: { kind: 'string', bytes: this.literal() } };
+    if (ch === '<' && src[this.pos + 1] === '<') { this.pos += 2; return { type: '<<' }; }
+    if (ch === '>' && src[this.pos + 1] === '>') { this.pos += 2; return { type: '>>' }; }
+    if (ch === '<') return { type: 'value', value: { kind: 'string', bytes: this.hex() } };
+    if (ch === '[' || ch === ']') { this.pos++; return { type: ch }; }
+    if (ch === '/') {
+      const start = ++this.pos;
+      while (this.pos < src.length && isRegular(src[this.pos])) this.pos++;
+      const name = src.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16)));
+      return { type: 'value', value: { kind: 'name', name } };
+    }
+    if (ch === '{' || ch === '}' || ch === ')' || ch === '>') { this.pos++; return this.next(); }
+
+    const start = this.pos;
+    while (this.pos < src.length && isRegular(src[this.pos])) this.pos++;
+    const word = src.slice(start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'value', value: Number(word) };
+    if (word === 'true' || word === 'false') return { type: 'value', value: word === 'true' };
+    if (word === 'null') return { type: 'value', value: null };
+    return { type: 'keyword', word };
+  }
+
+  // Inline image data is binary; skip past its EI operator
+  skipInlineImage() {
+    const match = /\sEI(?=[\s]|$)/g;
+    match.lastIndex = this.pos;
+    const found = match.exec(this.src);
+    this.pos = found ? found.index + found[0].length : this.src.length;
+  }
+
+  private literal(): string {
+    const src = this.src;
+    let depth = 0;
+    let out = '';
+    this.pos++;
+    while (this.pos < src.length) {
+      const ch = src[this.pos++];
+      if (ch === '\\') {
+        const next = src[this.pos++];
+        if (next in ESCAPES) out += ESCAPES[next];
+        else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(src[this.pos])) octal += src[this.pos++];
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r') { if (src[this.pos] === '\n') this.pos++; }
+        else if (next !== '\n') out += next;
+      } else if (ch === '(') { depth++; out += ch; }
+      else if (ch === ')') { if (depth-- === 0) break; out += ch; }
+      else out += ch;
+    }
+    return out;
+  }
+
+  private hex(): string {
+    const end = this.src.indexOf('>', this.pos);
+    const digits = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end < 0 ? this.src.length : end + 1;
+    let out = '';
+    for (let i = 0; i < digits.length; i += 2) out += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+    return out;
+  }
+}
+
+// Read one value, folding "n g R" into a reference
+const parseValue = (lexer: Lexer, token: Token | null = lexer.next()): PdfValue | undefined => {
+  if (!token) return undefined;
+  if (token.type === 'value') {
+    if (typeof token.value === 'number' && Number.isInteger(token.value)) {
+      const mark = lexer.pos;
+      const gen = lexer.next();
+      const r = gen?.type === 'value' && typeof gen.value === 'number' ? lexer.next() : null;
+      if (r?.type === 'keyword' && r.word === 'R') return { kind: 'ref', num: token.value };
+      lexer.pos = mark;
+    }
+    return token.value;
+  }
+  if (token.type === '[') {
+    const items: PdfValue[] = [];
+    for (let next = lexer.next(); next && next.type !== ']'; next = lexer.next()) {
+      const item = parseValue(lexer, next);
+      if (item !== undefined) items.push(item);
+    }
+    return items;
+  }
+  if (token.type === '<<') {
+    const entries: Record<string, PdfValue> = {};
+    for (let next = lexer.next(); next && next.type !== '>>'; next = lexer.next()) {
+      const key = next.type === 'value' ? nameOf(next.value) : undefined;
+      if (!key) continue;
+      const value = parseValue(lexer);
+      if (value !== undefined) entries[key] = value;
+    }
+    return { kind: 'dict', entries };
+  }
+  return undefined;
+};
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'dict';
+
+const nameOf = (value: PdfValue | undefined): string | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'name' ? value.name : undefined;
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private decoded = new Map<Uint8Array, Promise<Uint8Array | null>>();
+  readonly src: string;
+
+  constructor(private bytes: Uint8Array) {
+    this.src = binaryString(bytes);
+  }
+
+  private skipSpace(pos: number) {
+    while (pos < this.src.length && WHITESPACE.includes(this.src[pos])) pos++;
+    return pos;
+  }
+
+  get encrypted() {
+    return /\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(this.src);
+  }
+
+  // Every "n g obj" in file order; later definitions (incremental updates) win
+  async load() {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.src))) {
+      const lexer = new Lexer(this.src, header.lastIndex);
+      const value = parseValue(lexer);
+      if (value === undefined) continue;
+      const object: PdfObject = { value };
+      const after = new Lexer(this.src, lexer.pos);
+      const keyword = after.next();
+      if (keyword?.type === 'keyword' && keyword.word === 'stream') {
+        let start = after.pos;
+        if (this.src[start] === '\r') start++;
+        if (this.src[start] === '\n') start++;
+        const length = isDict(value) ? value.entries.Length : undefined;
+        let end = typeof length === 'number' && this.src.startsWith('endstream', this.skipSpace(start + length)) ? start + length : this.src.indexOf('endstream', start);
+        if (end < 0) end = this.src.length;
+        object.stream = this.bytes.subarray(start, end);
+        header.lastIndex = end;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+
+    // Objects packed into compressed object streams
+    for (const object of [...this.objects.values()]) {
+      if (!isDict(object.value) || nameOf(object.value.entries.Type) !== 'ObjStm' || !object.stream) continue;
+      const data = await this.streamData(object);
+      if (!data) continue;
+      const text = binaryString(data);
+      const first = Number(object.value.entries.First) || 0;
+      const count = Number(object.value.entries.N) || 0;
+      const lexer = new Lexer(text);
+      const offsets: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        const num = parseValue(lexer);
+        const offset = parseValue(lexer);
+        if (typeof num === 'number' && typeof offset === 'number') offsets.push([num, offset]);
+      }
+      for (const [num, offset] of offsets) {
+        if (this.objects.has(num)) continue;
+        const value = parseValue(new Lexer(text, first + offset));
+        if (value !== undefined) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'ref' && depth < 10) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  objectFor(value: PdfValue | undefined): PdfObject | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'ref' ? this.objects.get(value.num) : undefined;
+  }
+
+  dict(value: PdfValue | undefined): Record<string, PdfValue> {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved.entries : {};
+  }
+
+  // Decoded stream bytes; null for filters other than FlateDecode
+  streamData(object: PdfObject): Promise<Uint8Array | null> {
+    const stream = object.stream!;
+    let pending = this.decoded.get(stream);
+    if (!pending) {
+      const filter = isDict(object.value) ? this.resolve(object.value.entries.Filter) : undefined;
+      const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => nameOf(f));
+      pending = filters.length === 0
+        ? Promise.resolve(stream)
+        : filters.length === 1 && filters[0] === 'FlateDecode'
+          ? inflate(stream, 'deflate').catch(() => null)
+          : Promise.resolve(null);
+      this.decoded.set(stream, pending);
+    }
+    return pending;
+  }
+
+  // Page dictionaries in reading order, each with its inherited resources
+  pages(): { page: Record<string, PdfValue>; resources: Record<string, PdfValue> }[] {
+    const roots = [...this.src.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+    const catalog = roots.length ? this.dict({ kind: 'ref', num: Number(roots[roots.length - 1][1]) }) : {};
+    const result: { page: Record<string, PdfValue>; resources: Record<string, PdfValue> }[] = [];
+    const seen = new Set<Record<string, PdfValue>>();
+    const walk = (node: Record<string, PdfValue>, inherited: Record<string, PdfValue>) => {
+      if (seen.has(node)) return;
+      seen.add(node);
+      const resources = node.Resources ? this.dict(node.Resources) : inherited;
+      const kids = this.resolve(node.Kids);
+      if (Array.isArray(kids)) kids.forEach(kid => walk(this.dict(kid), resources));
+      else if (nameOf(node.Type) === 'Page' || node.Contents) result.push({ page: node, resources });
+    };
+    if (catalog.Pages) walk(this.dict(catalog.Pages), {});
+    if (result.length) return result;
+
+    // No usable page tree: take page objects in object order
+    return [...this.objects.values()]
+      .filter(object => isDict(object.value) && nameOf(object.value.entries.Type) === 'Page')
+      .map(object => {
+        const page = (object.value as PdfDict).entries;
+        return { page, resources: this.dict(page.Resources) };
+      });
+  }
+}
+
+interface FontDecoder {
+  codeBytes: number;
+  decode: (bytes: string) => string;
+}
+
+const utf16be = (bytes: string): string => {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return out;
+};
+
+const codeOf = (bytes: string) => [...bytes].reduce((code, ch) => code * 256 + ch.charCodeAt(0), 0);
+
+// bfchar and bfrange entries of a ToUnicode CMap
+export const parseToUnicode = (cmap: string): { map: Map<number, string>; codeBytes: number } => {
+  const map = new Map<number, string>();
+  const lexer = new Lexer(cmap);
+  let codeBytes = 0;
+  let section: string | null = null;
+  const operands: PdfValue[] = [];
+  for (let token = lexer.next(); token; token = lexer.next()) {
+    if (token.type === 'keyword') {
+      if (token.word.startsWith('begin')) { section = token.word; operands.length = 0; continue; }
+      if (token.word.startsWith('end')) { section = null; operands.length = 0; continue; }
+      continue;
+    }
+    const value = parseValue(lexer, token);
+    if (value === undefined || !section) continue;
+    operands.push(value);
+    const str = (v: PdfValue) => (v as PdfString).bytes;
+    if (section === 'begincodespacerange' && operands.length === 2) {
+      codeBytes ||= str(operands[0]).length;
+      operands.length = 0;
+    } else if (section === 'beginbfchar' && operands.length === 2) {
+      map.set(codeOf(str(operands[0])), utf16be(str(operands[1])));
+      operands.length = 0;
+    } else if (section === 'beginbfrange' && operands.length === 3) {
+      const [lo, hi, dst] = operands;
+      const from = codeOf(str(lo));
+      const to = Math.min(codeOf(str(hi)), from + 0xffff);
+      codeBytes ||= str(lo).length;
+      if (Array.isArray(dst)) {
+        dst.forEach((d, idx) => from + idx <= to && map.set(from + idx, utf16be(str(d))));
+      } else {
+        const base = utf16be(str(dst));
+        for (let code = from; code <= to; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - from));
+        }
+      }
+      operands.length = 0;
+    }
+  }
+  return { map, codeBytes: codeBytes || 1 };
+};
+
+const WIN_ANSI = new TextDecoder('windows-1252');
+
+// Stands in for glyphs with no known text, so hasTextLayer can see how much is missing
+export const UNDECODABLE = '\uFFFD';
+
+const fontDecoder = async (doc: PdfDocument, fontRef: PdfValue | undefined): Promise<FontDecoder> => {
+  const font = doc.dict(fontRef);
+  const composite = nameOf(font.Subtype) === 'Type0';
+  const toUnicode = doc.objectFor(font.ToUnicode);
+  if (toUnicode?.stream) {
+    const data = await doc.streamData(toUnicode);
+    if (data) {
+      const { map, codeBytes } = parseToUnicode(binaryString(data));
+      const width = composite ? Math.max(codeBytes, 2) : codeBytes;
+      return {
+        codeBytes: width,
+        decode: (bytes) => {
+          let out = '';
+          for (let i = 0; i < bytes.length; i += width) {
+            const code = codeOf(bytes.slice(i, i + width));
+            out += map.get(code) ?? (width === 1 ? WIN_ANSI.decode(Uint8Array.of(code)) : UNDECODABLE);
+          }
+          return out;
+        }
+      };
+    }
+  }
+  // Composite fonts without a ToUnicode map use glyph ids that mean nothing as text
+  if (composite) return { codeBytes: 2, decode: (bytes) => UNDECODABLE.repeat(Math.ceil(bytes.length / 2)) };
+  return { codeBytes: 1, decode: (bytes) => WIN_ANSI.decode(Uint8Array.from(bytes, ch => ch.charCodeAt(0))) };
+};
+
+const MAX_FORM_DEPTH = 4;
+
+// Text shown by one content stream; Form XObjects are followed into
+const contentText = async (
+  doc: PdfDocument,
+  data: Uint8Array,
+  resources: Record<string, PdfValue>,
+  depth = 0
+): Promise<string> => {
+  const lexer = new Lexer(binaryString(data));
+  const fonts = doc.dict(resources.Font);
+  const decoders = new Map<string, FontDecoder>();
+  let font: FontDecoder | undefined;
+  let out = '';
+  let lineY: number | undefined;
+  const operands: PdfValue[] = [];
+
+  const newline = () => { if (out && !out.endsWith('\n')) out += '\n'; };
+  const space = () => { if (out && !/\s$/.test(out)) out += ' '; };
+  const show = (value: PdfValue) => {
+    if (value && typeof value === 'object' && !Array.isArray(value) && value.kind === 'string' && font) out += font.decode(value.bytes);
+  };
+
+  for (let token = lexer.next(); token; token = lexer.next()) {
+    if (token.type !== 'keyword') {
+      const value = parseValue(lexer, token);
+      if (value !== undefined) operands.push(value);
+      continue;
+    }
+    const op = token.word;
+    switch (op) {
+      case 'Tf': {
+        const name = nameOf(operands[0]);
+        if (name) {
+          if (!decoders.has(name)) decoders.set(name, await fontDecoder(doc, fonts[name]));
+          font = decoders.get(name);
+        }
+        break;
+      }
+      case 'Tj': show(operands[0]); break;
+      case "'": newline(); show(operands[0]); break;
+      case '"': newline(); show(operands[2]); break;
+      case 'TJ':
+        if (Array.isArray(operands[0])) {
+          for (const item of operands[0]) {
+            if (typeof item === 'number') { if (item < -180) space(); }
+            else show(item);
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD': {
+        const [tx, ty] = operands as number[];
+        if (ty) { newline(); lineY = (lineY ?? 0) + ty; }
+        else if (tx > 0) space();
+        break;
+      }
+      case 'Tm': {
+        const y = operands[5] as number;
+        if (lineY !== undefined && y !== lineY) newline(); else space();
+        lineY = y;
+        break;
+      }
+      case 'T*': newline(); break;
+      case 'ET': space(); break;
+      case 'BI': lexer.skipInlineImage(); break;
+      case 'Do': {
+        const name = nameOf(operands[0]);
+        const form = name ? doc.objectFor(doc.dict(resources.XObject)[name]) : undefined;
+        if (form?.stream && depth < MAX_FORM_DEPTH && isDict(form.value) && nameOf(form.value.entries.Subtype) === 'Form') {
+          const formData = await doc.streamData(form);
+          const formResources = form.value.entries.Resources ? doc.dict(form.value.entries.Resources) : resources;
+          if (formData) { newline(); out += await contentText(doc, formData, formResources, depth + 1); newline(); }
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+  return out;
+};
+
+const tidy = (text: string) => text
+  .split('\n')
+  .map(line => line.replace(/[ \t]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+export interface PdfText {
+  pages: string[];
+}
+
+// Text of each page, or null when the file is encrypted or unreadable
+export const extractPdfText = async (bytes: Uint8Array): Promise<PdfText | null> => {
+  const doc = new PdfDocument(bytes);
+  if (!doc.src.startsWith('%PDF') || doc.encrypted) return null;
+  await doc.load();
+
+  const pages: string[] = [];
+  for (const { page, resources } of doc.pages()) {
+    const contents = doc.resolve(page.Contents);
+    const refs = Array.isArray(contents) ? contents : [page.Contents];
+    let text = '';
+    for (const ref of refs) {
+      const object = doc.objectFor(ref);
+      const data = object?.stream ? await doc.streamData(object) : null;
+      if (data) text += `${await contentText(doc, data, resources)}\n`;
+    }
+    pages.push(tidy(text));
+  }
+  return pages.length ? { pages } : null;
+};
+
+// Scanned PDFs have no text to speak of; broken font maps produce mostly symbols
+export const hasTextLayer = ({ pages }: PdfText): boolean => {
+  const text = pages.join('\n');
+  const wordChars = text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  const junk = text.match(/[\uFFFD\u0000-\u0008\u000E-\u001F]/g)?.length ?? 0;
+  return wordChars >= Math.max(20, pages.length * 10) && junk < wordChars * 0.1;
+};
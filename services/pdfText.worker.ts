@@ -0,0 +1,14 @@
+import { PdfText, extractPdfText } from './pdfText';
+
+export type PdfWorkerReply = { text: PdfText | null } | { error: string };
+
+// Runs the text layer reader off the main thread; see readPdfText
+self.onmessage = async (event: MessageEvent<Uint8Array>) => {
+  let reply: PdfWorkerReply;
+  try {
+    reply = { text: await extractPdfText(event.data) };
+  } catch (error) {
+    reply = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(reply);
+};
@@ -0,0 +1,33 @@
+import { PdfText, extractPdfText } from './pdfText';
+import type { PdfWorkerReply } from './pdfText.worker';
+
+// The reader holds the whole file as a string; anything larger goes to the model
+export const MAX_LOCAL_PDF_BYTES = 20 * 1024 * 1024;
+
+const aborted = () => new DOMException('PDF reading was cancelled.', 'AbortError');
+
+// Text layer of a PDF, read in a worker so a large file cannot freeze the page.
+// Aborting terminates the worker. Null when the file is too large or unreadable.
+export const readPdfText = (bytes: Uint8Array, signal?: AbortSignal): Promise<PdfText | null> => {
+  if (bytes.length > MAX_LOCAL_PDF_BYTES) return Promise.resolve(null);
+  if (signal?.aborted) return Promise.reject(aborted());
+  // No workers in tests or very old browsers
+  if (typeof Worker === 'undefined') return extractPdfText(bytes);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./pdfText.worker.ts', import.meta.url), { type: 'module' });
+    const onAbort = () => finish(() => reject(aborted()));
+    const finish = (settle: () => void) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      settle();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<PdfWorkerReply>) => {
+      const reply = event.data;
+      finish(() => 'error' in reply ? reject(new Error(reply.error)) : resolve(reply.text));
+    };
+    worker.onerror = (event) => finish(() => reject(new Error(event.message || 'The PDF reader stopped unexpectedly.')));
+    worker.postMessage(bytes, [bytes.buffer]);
+  });
+};
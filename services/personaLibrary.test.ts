@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { createPersona, parsePersonaBundle, personaUsage, personasToJSON, sameTenor } from './personaLibrary';
+import { BundleError } from './libraryBundle';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR, PromptSFL } from '../types';
+
+const prompt = (id: string, personaId?: string): PromptSFL => ({
+  id,
+  title: id,
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: DEFAULT_FIELD,
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE,
+  personaId
+});
+
+describe('personaLibrary', () => {
+  it('shares personas without their local blob ids', () => {
+    const persona = createPersona(DEFAULT_TENOR, {
+      sampleUtterances: ['Right then.'],
+      sourceFiles: [{ name: 'talk.mp3', mimeType: 'audio/mpeg', size: 10, blobId: 'local' }]
+    });
+    const parsed = parsePersonaBundle(personasToJSON([persona]));
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.personas[0].sourceFiles).toEqual([{ name: 'talk.mp3', mimeType: 'audio/mpeg', size: 10 }]);
+    expect(parsed.personas[0].name).toBe(DEFAULT_TENOR.aiPersona);
+  });
+
+  it('leaves out invalid personas and rejects other files', () => {
+    const bundle = JSON.parse(personasToJSON([createPersona(DEFAULT_TENOR), createPersona(DEFAULT_TENOR, { name: 'Broken' })]));
+    delete bundle.personas[1].tenor;
+    const parsed = parsePersonaBundle(JSON.stringify(bundle));
+    expect(parsed.personas).toHaveLength(1);
+    expect(parsed.issues).toEqual(['"Broken": $.personas[1].tenor is required']);
+    expect(() => parsePersonaBundle(JSON.stringify({ format: 'sfl-narrative-bundle', prompts: [] }))).toThrow(BundleError);
+  });
+
+  it('finds the narratives that use a persona and notices Tenor edits', () => {
+    expect(personaUsage('p', [prompt('a', 'p'), prompt('b'), prompt('c', 'q')]).map(p => p.id)).toEqual(['a']);
+    expect(sameTenor(DEFAULT_TENOR, { ...DEFAULT_TENOR, targetAudience: [] })).toBe(true);
+    expect(sameTenor(DEFAULT_TENOR, { ...DEFAULT_TENOR, desiredTone: 'Wry' })).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { formatIssue, validateJson } from './jsonSchema';
+import { PERSONA_SCHEMA } from './sflSchema';
+import { BundleError } from './libraryBundle';
+import { putBlob } from './blobStore';
+import { GeminiService, ValidatedResult } from './geminiService';
+import { ModelTarget, Persona, PersonaSourceFile, PromptSFL, SFLTenor } from '../types';
+
+export const PERSONA_BUNDLE_FORMAT = 'sfl-persona-bundle';
+export const PERSONA_BUNDLE_VERSION = 1;
+
+export interface PersonaBundle {
+  format: typeof PERSONA_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  personas: Persona[];
+}
+
+export interface ParsedPersonaBundle {
+  personas: Persona[];
+  issues: string[]; // One line per persona that was left out
+}
+
+export const createPersona = (tenor: SFLTenor, overrides: Partial<Persona> = {}): Persona => ({
+  id: uuidv4(),
+  name: tenor.aiPersona,
+  description: '',
+  tenor,
+  sampleUtterances: [],
+  sourceFiles: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  ...overrides
+});
+
+export const sameTenor = (a: SFLTenor, b: SFLTenor): boolean =>
+  a.aiPersona === b.aiPersona &&
+  a.desiredTone === b.desiredTone &&
+  a.interpersonalStance === b.interpersonalStance &&
+  a.targetAudience.join('\n') === b.targetAudience.join('\n') &&
+  JSON.stringify(a.voice) === JSON.stringify(b.voice);
+
+// Narratives whose Tenor was picked from the persona
+export const personaUsage = (personaId: string, prompts: PromptSFL[]): PromptSFL[] =>
+  prompts.filter(p => p.personaId === personaId);
+
+// Analyze files for a Tenor and keep the originals, so a persona saved from the
+// result can record what it was built from. Analysis still runs if storage fails.
+export const analyzeVoiceFiles = async (
+  service: GeminiService,
+  files: File[],
+  target: ModelTarget
+): Promise<{ result: ValidatedResult<SFLTenor> | null; sourceFiles: PersonaSourceFile[] }> => {
+  const result = await service.analyzeFilesForTenor(files, target);
+  const sourceFiles = await Promise.all(files.map(async (file): Promise<PersonaSourceFile> => {
+    const source: PersonaSourceFile = { name: file.name, mimeType: file.type, size: file.size };
+    try {
+      const blobId = uuidv4();
+      await putBlob(blobId, file);
+      return { ...source, blobId };
+    } catch (err) {
+      console.warn(`Original of ${file.name} was not stored`, err);
+      return source;
+    }
+  }));
+  return { result, sourceFiles };
+};
+
+// Blob ids only mean something in this browser, so shared copies keep file names only
+export const personasToJSON = (personas: Persona[]): string => {
+  const bundle: PersonaBundle = {
+    format: PERSONA_BUNDLE_FORMAT,
+    version: PERSONA_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    personas: personas.map(p => ({ ...p, sourceFiles: p.sourceFiles.map(({ blobId: _blobId, ...file }) => file) }))
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+export const parsePersonaBundle = (text: string): ParsedPersonaBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError('The file is not valid JSON.');
+  }
+
+  const bundle = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (bundle.format !== PERSONA_BUNDLE_FORMAT) throw new BundleError('The file is not a persona bundle.');
+  if (typeof bundle.version === 'number' && bundle.version > PERSONA_BUNDLE_VERSION) {
+    throw new BundleError(`This bundle was written by a newer version of the app (format v${bundle.version}).`);
+  }
+  if (!Array.isArray(bundle.personas)) throw new BundleError('The bundle has no "personas" list.');
+
+  const personas: Persona[] = [];
+  const issues: string[] = [];
+  bundle.personas.forEach((candidate: unknown, idx: number) => {
+    const problems = validateJson(candidate, PERSONA_SCHEMA, `$.personas[${idx}]`);
+    if (problems.length) {
+      const name = (candidate as Record<string, unknown> | null)?.name;
+      issues.push(`${typeof name === 'string' ? `"${name}"` : `Entry ${idx + 1}`}: ${problems.slice(0, 3).map(formatIssue).join('; ')}`);
+    } else {
+      personas.push(candidate as Persona);
+    }
+  });
+  return { personas, issues };
+};
@@ -0,0 +1,118 @@
+import { GenerateContentConfig, GoogleGenAI, HarmBlockThreshold, HarmCategory } from '@google/genai';
+import { ContentPart, InlineData, ModelProvider, RequestConfig } from './modelProvider';
+import { JsonSchema } from '../jsonSchema';
+import { ChatTurn, HarmCategoryId } from '../../types';
+
+const FALLBACK_MODELS = [
+  'gemini-3-pro-preview',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-thinking-preview-09-2025'
+];
+
+const HARM_CATEGORIES: Record<HarmCategoryId, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT
+};
+
+const toGeminiConfig = (system?: string, config: RequestConfig = {}): GenerateContentConfig => {
+  const safety = Object.entries(config.safety || {}) as [HarmCategoryId, string][];
+  return {
+    ...(system ? { systemInstruction: system } : {}),
+    ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+    ...(config.topP !== undefined ? { topP: config.topP } : {}),
+    ...(config.maxOutputTokens !== undefined ? { maxOutputTokens: config.maxOutputTokens } : {}),
+    ...(config.stopSequences?.length ? { stopSequences: config.stopSequences } : {}),
+    ...(config.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: config.thinkingBudget } } : {}),
+    ...(config.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: config.responseSchema } : {}),
+    ...(safety.length ? {
+      safetySettings: safety.map(([category, threshold]) => ({ category: HARM_CATEGORIES[category], threshold: threshold as HarmBlockThreshold }))
+    } : {})
+  };
+};
+
+export class GeminiProvider implements ModelProvider {
+  readonly id = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor() {
+    // API key must be obtained exclusively from the environment variable process.env.API_KEY.
+    this.client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await this.client.models.list();
+      const modelNames: string[] = [];
+      
+      // Safety check for iterable response
+      if (response && typeof response[Symbol.asyncIterator] === 'function') {
+        for await (const model of response) {
+          if (model.name) {
+            modelNames.push(model.name);
+          }
+        }
+      } else {
+        console.warn("Model list response is not iterable", response);
+        // Fallback defaults immediately if structure isn't as expected
+        return FALLBACK_MODELS;
+      }
+      
+      // Filter for gemini models to keep the list clean
+      return modelNames.filter(name => name && name.includes('gemini'));
+    } catch (error) {
+      console.warn("Failed to list models, falling back to defaults.", error);
+      return FALLBACK_MODELS;
+    }
+  }
+
+  async generateJSON(model: string, contents: string | ContentPart[], schema?: JsonSchema): Promise<string | undefined> {
+    const response = await this.client.models.generateContent({
+      model: model,
+      contents: typeof contents === 'string' ? contents : { parts: contents },
+      config: {
+        responseMimeType: 'application/json',
+        ...(schema ? { responseJsonSchema: schema } : {})
+      }
+    });
+    return response.text;
+  }
+
+  async *streamText(model: string, prompt: string, system?: string, config?: RequestConfig): AsyncGenerator<string> {
+    const responseStream = await this.client.models.generateContentStream({
+      model: model,
+      contents: prompt,
+      config: toGeminiConfig(system, config)
+    });
+
+    for await (const chunk of responseStream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async *streamChat(model: string, turns: ChatTurn[], system?: string, config?: RequestConfig): AsyncGenerator<string> {
+    const responseStream = await this.client.models.generateContentStream({
+      model: model,
+      contents: turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+      config: toGeminiConfig(system, config)
+    });
+
+    for await (const chunk of responseStream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async analyzeMedia(model: string, media: InlineData, instruction: string): Promise<string | undefined> {
+    const response = await this.client.models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          { inlineData: media },
+          { text: instruction }
+        ]
+      }
+    });
+    return response.text;
+  }
+}
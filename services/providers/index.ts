@@ -0,0 +1,19 @@
+import { ProviderId, ProviderSettings } from '../../types';
+import { ModelProvider } from './modelProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { MockProvider } from './mockProvider';
+
+export const createProvider = (id: ProviderId, settings: ProviderSettings): ModelProvider => {
+  // SFL_OFFLINE=true routes every role to the mock so the app runs without network
+  if (process.env.SFL_OFFLINE === 'true') return new MockProvider();
+
+  switch (id) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(settings.openaiBaseUrl, settings.openaiApiKey);
+    case 'mock':
+      return new MockProvider();
+  }
+};
@@ -0,0 +1,123 @@
+import { ChatTurn, SFLField, SFLMode, SFLTenor } from '../../types';
+import { ContentPart, InlineData, ModelProvider, RequestConfig } from './modelProvider';
+import { JsonSchema } from '../jsonSchema';
+
+export interface MockFixtures {
+  models: string[];
+  sfl: { title: string; field: SFLField; tenor: SFLTenor; mode: SFLMode };
+  tenor: SFLTenor;
+  stream: string[];
+  media: string;
+  structured: { segments: unknown; image: unknown; sections: unknown }; // Replies to the structured analysis schemas
+  json?: string[]; // Raw JSON replies served in order before falling back to the canned objects
+}
+
+export type MockCall =
+  | { method: 'generateJSON'; model: string; contents: string | ContentPart[]; schema?: JsonSchema }
+  | { method: 'streamText'; model: string; prompt: string; system?: string; config?: RequestConfig }
+  | { method: 'streamChat'; model: string; turns: ChatTurn[]; system?: string; config?: RequestConfig }
+  | { method: 'analyzeMedia'; model: string; media: InlineData; instruction: string };
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  models: ['mock-narrator', 'mock-narrator-lite'],
+  sfl: {
+    title: 'The Quiet Dispatch',
+    field: {
+      topic: 'Weekly AI trends',
+      taskType: 'Newsletter',
+      domainSpecifics: 'Machine learning tooling',
+      keywords: 'agents, evaluation, open weights'
+    },
+    tenor: {
+      aiPersona: 'Witty Analyst',
+      targetAudience: ['Developers', 'Technical leads'],
+      desiredTone: 'Playful but precise',
+      interpersonalStance: 'Peer-to-peer'
+    },
+    mode: {
+      outputFormat: 'Markdown',
+      rhetoricalStructure: 'Headline, three stories, closing thought',
+      lengthConstraint: '400 words',
+      textualDirectives: 'Use short paragraphs'
+    }
+  },
+  tenor: {
+    aiPersona: 'Empathetic Coach',
+    targetAudience: ['First-time managers'],
+    desiredTone: 'Warm',
+    interpersonalStance: 'Servant-Leader',
+    voice: {
+      formality: 0.35,
+      lexicalHabits: ['Opens with encouragement before any critique', 'Uses "we" for shared problems'],
+      signaturePhrases: ['lovely work', 'one small thing'],
+      excerpts: ['Hello team, lovely work this week.']
+    }
+  },
+  stream: ['Once upon a time, ', 'a prompt ', 'found its voice.'],
+  media: 'Mock analysis of the attached media.',
+  structured: {
+    segments: [
+      { start: 0, end: 4.5, speaker: 'Host', text: 'Welcome back to the show.' },
+      { start: 4.5, end: 9, speaker: 'Guest', text: 'Glad to be here.' }
+    ],
+    image: { caption: 'A handwritten note on a desk.', text: ['Call Ada', 'Friday 3pm'], objects: [{ label: 'Note', description: 'Yellow sticky note' }] },
+    sections: [
+      { heading: 'Introduction', level: 1, page: 1, content: 'Why the study was run.' },
+      { heading: 'Findings', level: 1, page: 2, content: 'What the study found.' }
+    ]
+  }
+};
+
+// Deterministic, network-free provider. Every request is recorded in `calls`
+// so tests can assert on what the service sent.
+export class MockProvider implements ModelProvider {
+  readonly id = 'mock' as const;
+  readonly calls: MockCall[] = [];
+  private fixtures: MockFixtures;
+  private jsonQueue: string[];
+
+  constructor(fixtures: Partial<MockFixtures> = {}) {
+    this.fixtures = { ...DEFAULT_MOCK_FIXTURES, ...fixtures };
+    this.jsonQueue = [...(this.fixtures.json || [])];
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.fixtures.models;
+  }
+
+  async generateJSON(model: string, contents: string | ContentPart[], schema?: JsonSchema): Promise<string | undefined> {
+    this.calls.push({ method: 'generateJSON', model, contents, schema });
+    if (this.jsonQueue.length > 0) return this.jsonQueue.shift();
+
+    // Structured media analysis is recognised by its schema
+    const properties = schema?.properties || {};
+    if ('segments' in properties) return JSON.stringify({ segments: this.fixtures.structured.segments });
+    if ('objects' in properties) return JSON.stringify(this.fixtures.structured.image);
+    if ('sections' in properties) return JSON.stringify({ sections: this.fixtures.structured.sections });
+
+    // The SFL request asks for a "field" object; the Tenor analysis does not
+    const text = typeof contents === 'string'
+      ? contents
+      : contents.map(part => ('text' in part ? part.text : '')).join('\n');
+    return JSON.stringify(text.includes('"field"') ? this.fixtures.sfl : this.fixtures.tenor);
+  }
+
+  async *streamText(model: string, prompt: string, system?: string, config?: RequestConfig): AsyncGenerator<string> {
+    this.calls.push({ method: 'streamText', model, prompt, system, ...(config ? { config } : {}) });
+    for (const chunk of this.fixtures.stream) {
+      yield chunk;
+    }
+  }
+
+  async *streamChat(model: string, turns: ChatTurn[], system?: string, config?: RequestConfig): AsyncGenerator<string> {
+    this.calls.push({ method: 'streamChat', model, turns, system, ...(config ? { config } : {}) });
+    for (const chunk of this.fixtures.stream) {
+      yield chunk;
+    }
+  }
+
+  async analyzeMedia(model: string, media: InlineData, instruction: string): Promise<string | undefined> {
+    this.calls.push({ method: 'analyzeMedia', model, media, instruction });
+    return this.fixtures.media;
+  }
+}
@@ -0,0 +1,32 @@
+import { ChatTurn, GenerationConfig, ProviderId } from '../../types';
+import { JsonSchema } from '../jsonSchema';
+
+export interface InlineData {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+// A run's settings: the resolved generation config and, for structured output, the response schema
+export type RequestConfig = GenerationConfig & { responseSchema?: JsonSchema };
+
+// Mirrors the Gemini part shape; other providers translate it to their own format
+export type ContentPart = { text: string } | { inlineData: InlineData };
+
+export interface ModelProvider {
+  readonly id: ProviderId;
+  listModels(): Promise<string[]>;
+  // Returns the raw JSON text produced by the model, constrained by the schema where supported
+  generateJSON(model: string, contents: string | ContentPart[], schema?: JsonSchema): Promise<string | undefined>;
+  // `system` is sent as the system turn where the provider has one. Settings in
+  // `config` the provider has no equivalent for are left out.
+  streamText(model: string, prompt: string, system?: string, config?: RequestConfig): AsyncGenerator<string>;
+  // Continues a conversation; the last turn is the user's new message
+  streamChat(model: string, turns: ChatTurn[], system?: string, config?: RequestConfig): AsyncGenerator<string>;
+  analyzeMedia(model: string, media: InlineData, instruction: string): Promise<string | undefined>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+  'mock': 'Offline Mock'
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const streamOf = (lines: string[]) => new Response(lines.map(line => `${line}\n`).join(''), { status: 200 });
+
+const collect = async (stream: AsyncGenerator<string>) => {
+  const parts: string[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts.join('');
+};
+
+describe('OpenAICompatibleProvider.streamChat', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('skips event lines that are not JSON', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(streamOf([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"choices":[{"del',
+      'data: keep-alive',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}',
+      'data: [DONE]'
+    ]));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1');
+    expect(await collect(provider.streamText('llama3', 'hi'))).toBe('Hello');
+  });
+
+  it('reads a last event that has no trailing newline', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"delta":{"content":"lo"}}]}',
+      { status: 200 }
+    ));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1');
+    expect(await collect(provider.streamText('llama3', 'hi'))).toBe('Hello');
+  });
+
+  it('raises error events with their message', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(streamOf([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"error":{"message":"context length exceeded"}}'
+    ]));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1');
+    await expect(collect(provider.streamText('llama3', 'hi'))).rejects.toThrow('context length exceeded');
+  });
+});
@@ -0,0 +1,149 @@
+import { ContentPart, InlineData, ModelProvider, RequestConfig } from './modelProvider';
+import { JsonSchema } from '../jsonSchema';
+import { ChatTurn } from '../../types';
+
+type ChatContent = string | Array<
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } }
+>;
+
+// One streamed "data:" payload; keep-alives and partial lines some servers emit are skipped, error events are raised
+const readStreamEvent = (payload: string): string | undefined => {
+  let event;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return undefined;
+  }
+  if (event?.error) {
+    const message = typeof event.error === 'string' ? event.error : event.error.message;
+    throw new Error(`The server reported an error mid-stream: ${message || JSON.stringify(event.error)}`);
+  }
+  return event?.choices?.[0]?.delta?.content;
+};
+
+// Speaks the /v1/chat/completions dialect shared by OpenAI, Ollama, llama.cpp, vLLM and LM Studio
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly id = 'openai-compatible' as const;
+
+  constructor(private baseUrl: string, private apiKey: string = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await this.request('/models', { method: 'GET' });
+      const body = await response.json();
+      return (body.data || []).map((m: { id: string }) => m.id).filter(Boolean);
+    } catch (error) {
+      console.warn(`Failed to list models from ${this.baseUrl}.`, error);
+      return [];
+    }
+  }
+
+  async generateJSON(model: string, contents: string | ContentPart[], schema?: JsonSchema): Promise<string | undefined> {
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: this.toChatContent(contents) }],
+        response_format: schema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+          : { type: 'json_object' }
+      })
+    });
+    const body = await response.json();
+    return body.choices?.[0]?.message?.content ?? undefined;
+  }
+
+  async *streamText(model: string, prompt: string, system?: string, config?: RequestConfig): AsyncGenerator<string> {
+    yield* this.streamChat(model, [{ role: 'user', text: prompt, at: Date.now() }], system, config);
+  }
+
+  // Thinking budgets and safety thresholds have no equivalent in this dialect
+  async *streamChat(model: string, turns: ChatTurn[], system?: string, config: RequestConfig = {}): AsyncGenerator<string> {
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          ...turns.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }))
+        ],
+        ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+        ...(config.topP !== undefined ? { top_p: config.topP } : {}),
+        ...(config.maxOutputTokens !== undefined ? { max_tokens: config.maxOutputTokens } : {}),
+        ...(config.stopSequences?.length ? { stop: config.stopSequences } : {}),
+        ...(config.responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: config.responseSchema } } } : {}),
+        stream: true
+      })
+    });
+    if (!response.body) throw new Error('The server returned an empty stream.');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      // A server may close without a trailing newline; its last line is still an event
+      if (done) buffer += '\n';
+      else buffer += value;
+
+      // Server-sent events: one "data: {...}" payload per line
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const delta = readStreamEvent(payload);
+        if (delta) yield delta;
+      }
+      if (done) break;
+    }
+  }
+
+  async analyzeMedia(model: string, media: InlineData, instruction: string): Promise<string | undefined> {
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: this.toChatContent([{ inlineData: media }, { text: instruction }]) }]
+      })
+    });
+    const body = await response.json();
+    return body.choices?.[0]?.message?.content ?? undefined;
+  }
+
+  private toChatContent(contents: string | ContentPart[]): ChatContent {
+    if (typeof contents === 'string') return contents;
+    return contents.map(part => {
+      if ('text' in part) return { type: 'text' as const, text: part.text };
+
+      const { mimeType, data } = part.inlineData;
+      if (mimeType.startsWith('image/')) {
+        return { type: 'image_url' as const, image_url: { url: `data:${mimeType};base64,${data}` } };
+      }
+      if (mimeType === 'audio/wav' || mimeType === 'audio/mpeg' || mimeType === 'audio/mp3') {
+        return { type: 'input_audio' as const, input_audio: { data, format: mimeType === 'audio/wav' ? 'wav' : 'mp3' } };
+      }
+      throw new Error(`The OpenAI-compatible provider cannot read ${mimeType} files. Use Gemini for this material.`);
+    });
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      }
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,391 @@
+import { JsonSchema } from './jsonSchema';
+import { SFLField, SFLTenor, SFLMode, DEFAULT_FIELD, DEFAULT_TENOR, DEFAULT_MODE, StructuredAnalysis, MediaKind, VoiceProfile } from '../types';
+
+const text = (description: string): JsonSchema => ({ type: 'string', description });
+
+export const SFL_FIELD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    topic: text('The central subject matter'),
+    taskType: text('What kind of output is produced, e.g. Essay, Code, Summary'),
+    domainSpecifics: text('Specialized knowledge required'),
+    keywords: text('Comma-separated key terms')
+  },
+  required: ['topic', 'taskType', 'domainSpecifics', 'keywords'],
+  additionalProperties: false
+};
+
+export const SFL_TENOR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    aiPersona: text('A short, descriptive title for the persona'),
+    targetAudience: { type: 'array', items: { type: 'string' }, description: 'Intended audiences' },
+    desiredTone: text('Adjectives describing the tone'),
+    interpersonalStance: text('The relationship to the audience')
+  },
+  required: ['aiPersona', 'targetAudience', 'desiredTone', 'interpersonalStance'],
+  additionalProperties: false
+};
+
+const textList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+// The model's reading of a voice; sentence statistics are measured locally instead
+const VOICE_READING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    formality: { type: 'number', minimum: 0, maximum: 1, description: '0 for casual chat, 1 for formal prose' },
+    lexicalHabits: textList('Characteristic word choices and habits'),
+    signaturePhrases: textList('Phrases the author repeats, verbatim'),
+    excerpts: textList('Two or three short verbatim passages that best show the voice')
+  },
+  required: ['formality', 'lexicalHabits', 'signaturePhrases', 'excerpts'],
+  additionalProperties: false
+};
+
+// Voice analysis reply. The reading is optional so replies from models that skip it still validate.
+export const TENOR_ANALYSIS_SCHEMA: JsonSchema = {
+  ...SFL_TENOR_SCHEMA,
+  properties: { ...SFL_TENOR_SCHEMA.properties, voice: VOICE_READING_SCHEMA }
+};
+
+// Model replies are closed to extra keys; stored copies accept them so data written by newer builds still loads
+const stored = ({ additionalProperties: _closed, ...schema }: JsonSchema): JsonSchema => schema;
+
+const STORED_TENOR_SCHEMA: JsonSchema = stored({
+  ...SFL_TENOR_SCHEMA,
+  properties: {
+    ...SFL_TENOR_SCHEMA.properties,
+    voice: stored({
+      ...VOICE_READING_SCHEMA,
+      properties: {
+        ...VOICE_READING_SCHEMA.properties,
+        sentenceLength: { type: 'object', required: ['mean', 'median', 'stdDev', 'min', 'max'] },
+        wordCount: { type: 'number' }
+      }
+    })
+  }
+});
+
+export const SFL_MODE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    outputFormat: text('e.g. Markdown, JSON, Plain Text'),
+    rhetoricalStructure: text('e.g. Problem-Solution, Chronological'),
+    lengthConstraint: text('e.g. Brief, 500 words'),
+    textualDirectives: text('Style rules for the output')
+  },
+  required: ['outputFormat', 'rhetoricalStructure', 'lengthConstraint', 'textualDirectives'],
+  additionalProperties: false
+};
+
+export const SFL_GENERATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: text('A short poetic title for this prompt'),
+    field: SFL_FIELD_SCHEMA,
+    tenor: SFL_TENOR_SCHEMA,
+    mode: SFL_MODE_SCHEMA
+  },
+  required: ['title', 'field', 'tenor', 'mode'],
+  additionalProperties: false
+};
+
+export const CHUNK_SUMMARIES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summaries: { type: 'array', items: text('Two or three sentences covering one excerpt'), description: 'One summary per excerpt, in order' }
+  },
+  required: ['summaries'],
+  additionalProperties: false
+};
+
+export const TRANSCRIPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      description: 'One entry per utterance, in order',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'number', minimum: 0, description: 'Start time in seconds' },
+          end: { type: 'number', minimum: 0, description: 'End time in seconds' },
+          speaker: text('Speaker name if stated, otherwise "Speaker N"'),
+          text: text('What was said, verbatim')
+        },
+        required: ['start', 'text']
+      }
+    }
+  },
+  required: ['segments'],
+  additionalProperties: false
+};
+
+export const IMAGE_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    caption: text('One or two sentences describing the scene and its mood'),
+    text: { type: 'array', items: { type: 'string' }, description: 'Each line of visible text, in reading order' },
+    objects: {
+      type: 'array',
+      description: 'Notable objects or people',
+      items: {
+        type: 'object',
+        properties: { label: text('Short name'), description: text('Appearance or role in the scene') },
+        required: ['label']
+      }
+    }
+  },
+  required: ['caption', 'text', 'objects'],
+  additionalProperties: false
+};
+
+export const OUTLINE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    sections: {
+      type: 'array',
+      description: 'Document sections in reading order',
+      items: {
+        type: 'object',
+        properties: {
+          heading: text('Section heading'),
+          level: { type: 'integer', minimum: 1, maximum: 6, description: '1 for top-level headings' },
+          page: { type: 'integer', minimum: 1, description: 'Page the section starts on' },
+          content: text('The section text, or a faithful condensation of it')
+        },
+        required: ['heading', 'level']
+      }
+    }
+  },
+  required: ['sections'],
+  additionalProperties: false
+};
+
+const ATTACHMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: ['audio', 'video', 'image', 'text', 'pdf', 'document', 'other'] },
+    mimeType: { type: 'string' },
+    content: { type: 'string' },
+    blobId: { type: 'string' },
+    size: { type: 'number' },
+    chunks: {
+      type: 'array',
+      items: { type: 'object', properties: { start: { type: 'integer', minimum: 0 }, end: { type: 'integer', minimum: 0 }, summary: { type: 'string' } }, required: ['start', 'end'] }
+    },
+    inclusion: { type: 'string', enum: ['full', 'summary', 'relevant', 'cited'] },
+    structured: { type: 'object', required: ['kind'] },
+    citations: { type: 'array', items: { type: 'string' } },
+    analysisProfile: { type: 'object', required: ['provider', 'model', 'instruction', 'outputShape'] },
+    analysis: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'processing', 'done', 'error'] }
+  },
+  required: ['id', 'name', 'type', 'status']
+};
+
+const EXAMPLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    input: { type: 'string' },
+    output: { type: 'string' }
+  },
+  required: ['id', 'output']
+};
+
+const GENERATION_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    temperature: { type: 'number' },
+    topP: { type: 'number' },
+    maxOutputTokens: { type: 'number' },
+    stopSequences: { type: 'array', items: { type: 'string' } },
+    thinkingBudget: { type: 'number' },
+    safety: { type: 'object' }
+  }
+};
+
+// A stored narrative, as persisted or bundled. Only what the app needs to open it is
+// required; unknown keys pass through so data written by newer builds still loads.
+export const PROMPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    createdAt: { type: 'number' },
+    updatedAt: { type: 'number' },
+    sflField: stored(SFL_FIELD_SCHEMA),
+    sflTenor: STORED_TENOR_SCHEMA,
+    sflMode: stored(SFL_MODE_SCHEMA),
+    attachments: { type: 'array', items: ATTACHMENT_SCHEMA },
+    examples: { type: 'array', items: EXAMPLE_SCHEMA },
+    compiledPrompt: { type: 'string' },
+    generationConfig: GENERATION_CONFIG_SCHEMA,
+    responseSchema: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    personaId: { type: 'string' },
+    versions: { type: 'array' },
+    votes: { type: 'array' },
+    chatSessions: { type: 'array' },
+    variables: { type: 'array' }
+  },
+  required: ['id', 'title', 'createdAt', 'updatedAt', 'sflField', 'sflTenor', 'sflMode']
+};
+
+// A library persona, as persisted or shared. Source files travel as names only;
+// the originals stay in the browser that analyzed them.
+export const PERSONA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    tenor: STORED_TENOR_SCHEMA,
+    sampleUtterances: { type: 'array', items: { type: 'string' } },
+    sourceFiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, mimeType: { type: 'string' }, size: { type: 'number' }, blobId: { type: 'string' } },
+        required: ['name', 'mimeType']
+      }
+    },
+    createdAt: { type: 'number' },
+    updatedAt: { type: 'number' }
+  },
+  required: ['id', 'name', 'description', 'tenor', 'sampleUtterances', 'sourceFiles', 'createdAt', 'updatedAt']
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// Coerce whatever the model produced into a string, or undefined to keep the default
+const asText = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.filter(v => typeof v === 'string').join(', ');
+  return undefined;
+};
+
+const pickText = <T extends object>(defaults: T, raw: unknown): T => {
+  const record = asRecord(raw);
+  const result = { ...defaults };
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    if (typeof defaults[key] !== 'string') return;
+    const value = asText(record[key as string]);
+    if (value !== undefined) result[key] = value as T[keyof T];
+  });
+  return result;
+};
+
+// Merge model output over the defaults, dropping stray keys and fixing shapes
+export const normalizeField = (raw: unknown): SFLField => pickText(DEFAULT_FIELD, raw);
+
+export const normalizeMode = (raw: unknown): SFLMode => pickText(DEFAULT_MODE, raw);
+
+export const normalizeTenor = (raw: unknown): SFLTenor => {
+  const tenor = pickText(DEFAULT_TENOR, raw);
+  const audience = asRecord(raw).targetAudience;
+  if (Array.isArray(audience)) {
+    tenor.targetAudience = audience.map(asText).filter((a): a is string => !!a && a.trim() !== '');
+  } else if (typeof audience === 'string') {
+    tenor.targetAudience = audience.split(',').map(a => a.trim()).filter(Boolean);
+  } else {
+    tenor.targetAudience = [...DEFAULT_TENOR.targetAudience];
+  }
+  return tenor;
+};
+
+const asTextList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asText).filter((v): v is string => !!v && v.trim() !== '') : [];
+
+// Models sometimes answer on a 1–10 or 0–100 scale instead of 0–1
+export const normalizeVoiceReading = (raw: unknown): VoiceProfile => {
+  const record = asRecord(raw);
+  let formality = asNumber(record.formality) ?? 0.5;
+  if (formality > 10) formality /= 100;
+  else if (formality > 1) formality /= 10;
+  return {
+    formality: Math.min(1, Math.max(0, formality)),
+    lexicalHabits: asTextList(record.lexicalHabits),
+    signaturePhrases: asTextList(record.signaturePhrases),
+    excerpts: asTextList(record.excerpts)
+  };
+};
+
+export const normalizeTenorAnalysis = (raw: unknown): SFLTenor => {
+  const tenor = normalizeTenor(raw);
+  const voice = asRecord(raw).voice;
+  return voice && typeof voice === 'object' ? { ...tenor, voice: normalizeVoiceReading(voice) } : tenor;
+};
+
+export const normalizeGeneration = (raw: unknown): { title: string; field: SFLField; tenor: SFLTenor; mode: SFLMode } => {
+  const record = asRecord(raw);
+  return {
+    title: asText(record.title) || 'Untitled Narrative',
+    field: normalizeField(record.field),
+    tenor: normalizeTenor(record.tenor),
+    mode: normalizeMode(record.mode)
+  };
+};
+
+export const normalizeChunkSummaries = (raw: unknown): string[] => {
+  const summaries = asRecord(raw).summaries;
+  return Array.isArray(summaries) ? summaries.map(s => asText(s) || '') : [];
+};
+
+const asNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const asRecords = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.map(asRecord) : [];
+
+export const normalizeTranscript = (raw: unknown): StructuredAnalysis => ({
+  kind: 'transcript',
+  segments: asRecords(asRecord(raw).segments)
+    .map(segment => ({
+      start: Math.max(0, asNumber(segment.start) ?? 0),
+      end: asNumber(segment.end),
+      speaker: asText(segment.speaker) || undefined,
+      text: asText(segment.text)?.trim() || ''
+    }))
+    .filter(segment => segment.text)
+});
+
+export const normalizeImageAnalysis = (raw: unknown): StructuredAnalysis => {
+  const record = asRecord(raw);
+  return {
+    kind: 'image',
+    caption: asText(record.caption) || undefined,
+    text: (Array.isArray(record.text) ? record.text : []).map(asText).filter((line): line is string => !!line && line.trim() !== ''),
+    objects: asRecords(record.objects)
+      .map(object => ({ label: asText(object.label)?.trim() || '', description: asText(object.description) || undefined }))
+      .filter(object => object.label)
+  };
+};
+
+export const normalizeOutline = (raw: unknown): StructuredAnalysis => ({
+  kind: 'outline',
+  sections: asRecords(asRecord(raw).sections)
+    .map(section => ({
+      heading: asText(section.heading)?.trim() || '',
+      level: Math.min(6, Math.max(1, Math.round(asNumber(section.level) ?? 1))),
+      page: asNumber(section.page),
+      content: asText(section.content) || undefined
+    }))
+    .filter(section => section.heading)
+});
+
+// Schema and normalizer asked of the model for each media type's structured analysis
+export const STRUCTURED_ANALYSIS: Record<MediaKind, { schema: JsonSchema; normalize: (raw: unknown) => StructuredAnalysis }> = {
+  audio: { schema: TRANSCRIPT_SCHEMA, normalize: normalizeTranscript },
+  video: { schema: TRANSCRIPT_SCHEMA, normalize: normalizeTranscript },
+  image: { schema: IMAGE_ANALYSIS_SCHEMA, normalize: normalizeImageAnalysis },
+  pdf: { schema: OUTLINE_SCHEMA, normalize: normalizeOutline }
+};
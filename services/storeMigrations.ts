@@ -0,0 +1,141 @@
+import { formatIssue, validateJson } from './jsonSchema';
+import { PROMPT_SCHEMA } from './sflSchema';
+import { chunkRanges } from './attachmentChunks';
+import { compactOutline } from './structuredAnalysis';
+import { MAX_CHAT_SESSIONS, contextFingerprint } from './chatSession';
+import { PromptSFL, QuarantinedPrompt } from '../types';
+
+export const STORE_KEY = 'sfl-narrative-storage';
+export const BACKUP_KEY = `${STORE_KEY}-backup`;
+
+// Bump when a persisted shape changes and add the step from the previous version to MIGRATIONS
+export const STORE_VERSION = 4;
+
+type PersistedRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): PersistedRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as PersistedRecord : {};
+
+// Shapes written before the schema was versioned: a missing description and
+// targetAudience stored as a comma-separated string
+export const upgradeLegacyPrompt = (raw: unknown): unknown => {
+  const prompt = asRecord(raw);
+  if (!Object.keys(prompt).length) return raw;
+  const tenor = asRecord(prompt.sflTenor);
+  return {
+    ...prompt,
+    description: typeof prompt.description === 'string' ? prompt.description : '',
+    ...(typeof tenor.targetAudience === 'string'
+      ? { sflTenor: { ...tenor, targetAudience: tenor.targetAudience.split(',').map(s => s.trim()).filter(Boolean) } }
+      : {})
+  };
+};
+
+// Chunks used to carry their own copy of the text. They are cut again from the analysis
+// as offsets; summaries are kept when the parts still line up.
+const upgradeAttachmentChunks = (raw: unknown): unknown => {
+  const attachment = asRecord(raw);
+  const { chunks, ...rest } = attachment;
+  if (!Array.isArray(chunks) || !chunks.some(c => typeof asRecord(c).text === 'string')) return raw;
+  const ranges = chunkRanges(typeof attachment.analysis === 'string' ? attachment.analysis : '');
+  if (!ranges.length) return rest;
+  const summaries = chunks.length === ranges.length ? chunks.map(c => asRecord(c).summary) : [];
+  return { ...rest, chunks: ranges.map((range, idx) => typeof summaries[idx] === 'string' ? { ...range, summary: summaries[idx] } : range) };
+};
+
+// Outline sections used to repeat text that is already in the analysis
+const upgradeOutlineOffsets = (raw: unknown): unknown => {
+  const attachment = asRecord(raw);
+  const structured = asRecord(attachment.structured);
+  if (structured.kind !== 'outline' || !Array.isArray(structured.sections) || typeof attachment.analysis !== 'string') return raw;
+  return { ...attachment, structured: { ...structured, sections: compactOutline(attachment.analysis, structured.sections) } };
+};
+
+// Apply an attachment upgrade to a prompt and its saved versions; shared with bundle import
+const eachAttachment = (upgrade: (attachment: unknown) => unknown) => {
+  const upgradeList = (holder: unknown): unknown => {
+    const record = asRecord(holder);
+    return Array.isArray(record.attachments) ? { ...record, attachments: record.attachments.map(upgrade) } : holder;
+  };
+  return (raw: unknown): unknown => {
+    if (!Object.keys(asRecord(raw)).length) return raw;
+    const prompt = asRecord(upgradeList(raw));
+    return Array.isArray(prompt.versions) ? { ...prompt, versions: prompt.versions.map(upgradeList) } : prompt;
+  };
+};
+
+export const chunksToOffsets = eachAttachment(upgradeAttachmentChunks);
+export const outlinesToOffsets = eachAttachment(upgradeOutlineOffsets);
+
+// Chat sessions used to store their whole context, attachments included, without limit
+export const sessionsToFingerprints = (raw: unknown): unknown => {
+  const prompt = asRecord(raw);
+  if (!Array.isArray(prompt.chatSessions)) return raw;
+  const chatSessions = prompt.chatSessions.slice(0, MAX_CHAT_SESSIONS).map(session => {
+    const { system, ...rest } = asRecord(session);
+    return typeof system === 'string' ? { ...rest, contextHash: contextFingerprint(system) } : session;
+  });
+  return { ...prompt, chatSessions };
+};
+
+// Steps keyed by the version they upgrade from; 0 is every install before versioning
+const MIGRATIONS: Record<number, (state: PersistedRecord) => PersistedRecord> = {
+  0: (state) => ({
+    ...state,
+    prompts: Array.isArray(state.prompts) ? state.prompts.map(upgradeLegacyPrompt) : [],
+    workflows: Array.isArray(state.workflows) ? state.workflows : []
+  }),
+  1: (state) => ({
+    ...state,
+    prompts: Array.isArray(state.prompts) ? state.prompts.map(chunksToOffsets) : state.prompts
+  }),
+  2: (state) => ({
+    ...state,
+    prompts: Array.isArray(state.prompts) ? state.prompts.map(outlinesToOffsets) : state.prompts
+  }),
+  3: (state) => ({
+    ...state,
+    prompts: Array.isArray(state.prompts) ? state.prompts.map(sessionsToFingerprints) : state.prompts
+  })
+};
+
+export const migratePersistedState = (persisted: unknown, fromVersion: number): PersistedRecord => {
+  let state = asRecord(persisted);
+  for (let version = fromVersion; version < STORE_VERSION; version++) {
+    state = MIGRATIONS[version]?.(state) ?? state;
+  }
+  return state;
+};
+
+// Attachments cannot still be processing after a reload; nothing is working on them any more
+const settleInterruptedAttachments = (prompt: PromptSFL): PromptSFL => {
+  if (!prompt.attachments?.some(a => a.status === 'pending' || a.status === 'processing')) return prompt;
+  return {
+    ...prompt,
+    attachments: prompt.attachments.map(a => a.status === 'pending' || a.status === 'processing'
+      ? { ...a, status: 'error', errorMessage: 'Processing was interrupted. Remove and attach the file again.' }
+      : a)
+  };
+};
+
+// Split rehydrated prompts into ones the app can open and ones it cannot.
+// The latter are kept verbatim so nothing is lost.
+export const quarantineInvalidPrompts = (raw: unknown): { prompts: PromptSFL[]; quarantined: QuarantinedPrompt[] } => {
+  if (!Array.isArray(raw)) {
+    return raw === undefined
+      ? { prompts: [], quarantined: [] }
+      : { prompts: [], quarantined: [{ raw, reason: 'The prompt list is not an array', quarantinedAt: Date.now() }] };
+  }
+
+  const prompts: PromptSFL[] = [];
+  const quarantined: QuarantinedPrompt[] = [];
+  raw.forEach((candidate, idx) => {
+    const issues = validateJson(candidate, PROMPT_SCHEMA, `$.prompts[${idx}]`);
+    if (issues.length) {
+      quarantined.push({ raw: candidate, reason: issues.slice(0, 3).map(formatIssue).join('; '), quarantinedAt: Date.now() });
+    } else {
+      prompts.push(settleInterruptedAttachments(candidate as PromptSFL));
+    }
+  });
+  return { prompts, quarantined };
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { anchorOutline, citableUnits, citedExcerpts, compactOutline, formatTimestamp, outlineFromHtml, outlineFromMarkdown, structuredToText } from './structuredAnalysis';
+import { attachmentBody } from './attachmentChunks';
+import { normalizeTranscript } from './sflSchema';
+import { Attachment, StructuredAnalysis } from '../types';
+
+const transcript: StructuredAnalysis = {
+  kind: 'transcript',
+  segments: [
+    { start: 0, end: 4, speaker: 'Host', text: 'Welcome back.' },
+    { start: 4, end: 3725, speaker: 'Guest', text: 'Thanks for having me.' }
+  ]
+};
+
+describe('structured analysis', () => {
+  it('numbers citable units per kind', () => {
+    expect(citableUnits(transcript).map(u => u.id)).toEqual(['S1', 'S2']);
+    expect(citableUnits({ kind: 'image', text: ['EXIT'], objects: [{ label: 'Door' }] }).map(u => u.id)).toEqual(['T1', 'O1']);
+    expect(citableUnits({ kind: 'outline', sections: [{ heading: 'Intro', level: 1 }] })[0]).toMatchObject({ id: '§1', label: 'Intro' });
+  });
+
+  it('renders timestamps and unit ids into the text form', () => {
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+    expect(structuredToText(transcript)).toBe('[S1 · 00:00–00:04 · Host] Welcome back.\n[S2 · 00:04–1:02:05 · Guest] Thanks for having me.');
+  });
+
+  it('compiles only the cited units in cited mode', () => {
+    const attachment: Attachment = {
+      id: 'a', name: 'talk.mp3', type: 'audio', mimeType: 'audio/mpeg', content: '', status: 'done',
+      analysis: structuredToText(transcript), structured: transcript, citations: ['S2'], inclusion: 'cited'
+    };
+    expect(citedExcerpts(attachment)).toBe('[S2 · 00:04–1:02:05 · Guest] Thanks for having me.');
+    expect(attachmentBody(attachment, { topic: '', keywords: '' })).toMatch(/^\[Cited excerpts\]\n\[S2/);
+    expect(attachmentBody({ ...attachment, citations: [] }, { topic: '', keywords: '' })).toBe(attachment.analysis);
+  });
+
+  it('builds outlines from Markdown and HTML headings, with bodies as offsets', () => {
+    const markdown = 'Preamble\n# Title\nText\n```\n# not a heading\n```\n## Part';
+    const [title, part] = outlineFromMarkdown(markdown);
+    expect(title).toMatchObject({ heading: 'Title', level: 1 });
+    expect(markdown.slice(title.start, title.end)).toBe('Text\n```\n# not a heading\n```');
+    expect(part).toEqual({ heading: 'Part', level: 2 });
+
+    const headings = outlineFromHtml('<h2>Terms &amp; fees</h2><p>One</p><p>Two</p><h3>Notes</h3>');
+    expect(headings).toEqual([{ heading: 'Terms & fees', level: 2 }, { heading: 'Notes', level: 3 }]);
+    const text = 'Terms & fees\n\nOne\n\nTwo\n\nNotes\n\n';
+    const units = citableUnits({ kind: 'outline', sections: anchorOutline(text, headings) }, text);
+    expect(units.map(u => u.text)).toEqual(['One\n\nTwo', '']);
+  });
+
+  it('keeps model-written section text as offsets when the analysis already has it', () => {
+    const outline: StructuredAnalysis = { kind: 'outline', sections: [{ heading: 'Intro', level: 1, content: 'Hello' }, { heading: 'End', level: 1, content: 'Bye' }] };
+    const analysis = structuredToText(outline);
+    const sections = compactOutline(analysis, outline.sections);
+    expect(sections.every(section => section.content === undefined)).toBe(true);
+    expect(citableUnits({ kind: 'outline', sections }, analysis).map(u => u.text)).toEqual(['Hello', 'Bye']);
+    expect(compactOutline('unrelated', outline.sections)[0].content).toBe('Hello');
+  });
+
+  it('normalizes model transcripts, dropping empty segments', () => {
+    expect(normalizeTranscript({ segments: [{ start: '12.5', text: ' Hi ' }, { start: 3, text: '' }] })).toEqual({
+      kind: 'transcript',
+      segments: [{ start: 12.5, end: undefined, speaker: undefined, text: 'Hi' }]
+    });
+  });
+});
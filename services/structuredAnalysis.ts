@@ -0,0 +1,141 @@
+import { Attachment, OutlineSection, StructuredAnalysis } from '../types';
+
+// One citable piece of a structured analysis: a transcript segment, a line of
+// detected text, an object, or an outline section
+export interface CitableUnit {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+};
+
+// A section's body: its own text when a model wrote it, otherwise cut from the analysis
+export const sectionText = (section: OutlineSection, analysis = ''): string =>
+  section.content ?? (section.start !== undefined ? analysis.slice(section.start, section.end) : '');
+
+// `analysis` supplies the text of outline sections stored as offsets
+export const citableUnits = (structured: StructuredAnalysis, analysis = ''): CitableUnit[] => {
+  switch (structured.kind) {
+    case 'transcript':
+      return structured.segments.map((segment, idx) => ({
+        id: `S${idx + 1}`,
+        label: [
+          segment.end !== undefined ? `${formatTimestamp(segment.start)}–${formatTimestamp(segment.end)}` : formatTimestamp(segment.start),
+          segment.speaker
+        ].filter(Boolean).join(' · '),
+        text: segment.text
+      }));
+    case 'image':
+      return [
+        ...structured.text.map((line, idx) => ({ id: `T${idx + 1}`, label: 'Text', text: line })),
+        ...structured.objects.map((object, idx) => ({
+          id: `O${idx + 1}`,
+          label: 'Object',
+          text: object.description ? `${object.label}: ${object.description}` : object.label
+        }))
+      ];
+    case 'outline':
+      return structured.sections.map((section, idx) => ({
+        id: `§${idx + 1}`,
+        label: [section.heading, section.page !== undefined ? `p. ${section.page}` : ''].filter(Boolean).join(' · '),
+        text: sectionText(section, analysis)
+      }));
+  }
+};
+
+const renderUnit = (unit: CitableUnit) =>
+  unit.text ? `[${unit.id}${unit.label ? ` · ${unit.label}` : ''}] ${unit.text}` : `[${unit.id} · ${unit.label}]`;
+
+// Text form used as `analysis`, so chunking, budgets and compile keep working.
+// Unit ids are kept so the model can refer back to a segment.
+export const structuredToText = (structured: StructuredAnalysis): string => {
+  if (structured.kind === 'outline') {
+    return structured.sections.map((section, idx) => {
+      const heading = `${'#'.repeat(Math.min(Math.max(section.level, 1), 6))} [§${idx + 1}] ${section.heading}${section.page !== undefined ? ` (p. ${section.page})` : ''}`;
+      return section.content ? `${heading}\n${section.content}` : heading;
+    }).join('\n\n');
+  }
+  const units = citableUnits(structured).map(renderUnit);
+  if (structured.kind === 'image' && structured.caption) return [structured.caption, ...units].join('\n');
+  return units.join('\n');
+};
+
+// Excerpts picked for 'cited' mode, in document order
+export const citedExcerpts = (attachment: Attachment): string | undefined => {
+  if (!attachment.structured || !attachment.citations?.length) return undefined;
+  const cited = new Set(attachment.citations);
+  const units = citableUnits(attachment.structured, attachment.analysis).filter(unit => cited.has(unit.id));
+  return units.length ? units.map(renderUnit).join('\n') : undefined;
+};
+
+// Section text that appears verbatim in the analysis is kept as offsets, not as a second copy
+export const compactOutline = (analysis: string, sections: OutlineSection[]): OutlineSection[] => {
+  let cursor = 0;
+  return sections.map(({ content, ...section }) => {
+    if (!content) return section;
+    const at = analysis.indexOf(content, cursor);
+    if (at === -1) return { ...section, content };
+    cursor = at + content.length;
+    return { ...section, start: at, end: at + content.length };
+  });
+};
+
+// Place headings found in another rendering (e.g. DOCX HTML) in the plain text. Each body
+// runs from the end of its heading to the next heading that was found.
+export const anchorOutline = (text: string, headings: OutlineSection[]): OutlineSection[] => {
+  let cursor = 0;
+  const positions = headings.map(section => {
+    const at = text.indexOf(section.heading, cursor);
+    if (at !== -1) cursor = at + section.heading.length;
+    return at;
+  });
+  return headings.map((section, idx) => {
+    if (positions[idx] === -1) return section;
+    let start = positions[idx] + section.heading.length;
+    let end = positions.slice(idx + 1).find(at => at !== -1) ?? text.length;
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return end > start ? { ...section, start, end } : section;
+  });
+};
+
+// Headings from HTML, e.g. mammoth's DOCX conversion; see anchorOutline for their text
+export const outlineFromHtml = (html: string): OutlineSection[] => {
+  const stripTags = (fragment: string) => fragment
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'")
+    .trim();
+  return [...html.matchAll(/<h([1-6])[^>]*>([\s\S]*?)<\/h[1-6]>/gi)]
+    .map(([, level, heading]) => ({ heading: stripTags(heading), level: Number(level) }))
+    .filter(section => section.heading);
+};
+
+// Sections from ATX headings (# Title), with bodies as offsets into the text; fenced code is skipped
+export const outlineFromMarkdown = (markdown: string): OutlineSection[] => {
+  const sections: OutlineSection[] = [];
+  let inFence = false;
+  let offset = 0;
+  for (const raw of markdown.split('\n')) {
+    const start = offset;
+    offset += raw.length + 1;
+    const line = raw.replace(/\r$/, '');
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      sections.push({ heading: heading[2], level: heading[1].length });
+    } else if (sections.length && line.trim()) {
+      const last = sections[sections.length - 1];
+      last.start ??= start;
+      last.end = start + line.length;
+    }
+  }
+  return sections;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { ResponseSchemaError, checkStructuredOutput, parseResponseSchema, requestConfigFor, uncheckedKeywords } from './structuredOutput';
+import { formatIssue } from './jsonSchema';
+
+const SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    score: { type: 'integer', minimum: 1, maximum: 5 },
+    tags: { type: 'array', items: { type: 'string', format: 'slug' } }
+  },
+  required: ['summary', 'score'],
+  anyOf: []
+});
+
+describe('structuredOutput', () => {
+  it('rejects schemas that are not a JSON object', () => {
+    expect(() => parseResponseSchema('{ type: object }')).toThrow(ResponseSchemaError);
+    expect(() => parseResponseSchema('[]')).toThrow('must be a JSON object');
+  });
+
+  it('rejects subschemas and patterns it could not check', () => {
+    expect(() => parseResponseSchema('{"type":"object","properties":{"a":null}}')).toThrow('$.properties.a must be a schema object');
+    expect(() => parseResponseSchema('{"type":"string","pattern":"["}')).toThrow(ResponseSchemaError);
+    expect(() => parseResponseSchema('{"items":{"pattern":"(a"}}')).toThrow('$.items.pattern is not a valid regular expression');
+  });
+
+  it('reports a pattern that does not compile as an issue instead of throwing', () => {
+    const issues = checkStructuredOutput('"x"', { type: 'string', pattern: '[' }).issues;
+    expect(issues.map(formatIssue)).toEqual(['$ cannot be checked: /[/ is not a valid pattern']);
+  });
+
+  it('lists keywords the Oracle does not check', () => {
+    expect(uncheckedKeywords(parseResponseSchema(SCHEMA))).toEqual(['$.properties.tags.items.format', '$.anyOf']);
+  });
+
+  it('reports each broken rule and accepts fenced JSON that matches', () => {
+    const schema = parseResponseSchema(SCHEMA);
+    expect(checkStructuredOutput('{"score": 9, "tags": [1]}', schema).issues.map(formatIssue)).toEqual([
+      '$.summary is required',
+      '$.score must be <= 5',
+      '$.tags[0] expected string, got integer'
+    ]);
+    const fenced = checkStructuredOutput('```json\n{"summary": "Fine", "score": 4}\n```', schema);
+    expect(fenced).toEqual({ value: { summary: 'Fine', score: 4 }, issues: [] });
+    expect(checkStructuredOutput('Sure! Here it is', schema).issues[0].message).toMatch(/is not valid JSON/);
+  });
+
+  it('sends the schema with the generation config only when the narrative has one', () => {
+    expect(requestConfigFor({ temperature: 0.5 }, { responseSchema: SCHEMA })).toMatchObject({
+      temperature: 0.5,
+      responseSchema: { type: 'object', required: ['summary', 'score'] }
+    });
+    expect(requestConfigFor({}, { responseSchema: '  ' })).toEqual({});
+  });
+});
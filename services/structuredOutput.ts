@@ -0,0 +1,100 @@
+import { JsonSchema, SchemaIssue, compilePattern, parseAndValidate } from './jsonSchema';
+import { resolveGenerationConfig } from './generationConfig';
+import { RequestConfig } from './providers/modelProvider';
+import { GenerationConfig, PromptSFL } from '../types';
+
+// Keywords the Oracle checks. Providers may enforce more, but anything else is not verified here.
+const CHECKED_KEYWORDS = new Set([
+  'type', 'description', 'properties', 'required', 'additionalProperties', 'items', 'enum',
+  'minItems', 'maxItems', 'minLength', 'maxLength', 'minimum', 'maximum', 'pattern',
+  'title', '$schema'
+]);
+
+// Raised when a narrative's response schema cannot be used
+export class ResponseSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResponseSchemaError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The keywords the Oracle reads must have the shape it expects, at every level
+const checkShape = (schema: unknown, path: string) => {
+  if (!isRecord(schema)) throw new ResponseSchemaError(`${path} must be a schema object.`);
+  const { properties, items, additionalProperties, required, enum: options, pattern } = schema;
+  if (properties !== undefined) {
+    if (!isRecord(properties)) throw new ResponseSchemaError(`${path}.properties must be an object.`);
+    for (const [name, child] of Object.entries(properties)) checkShape(child, `${path}.properties.${name}`);
+  }
+  if (items !== undefined) checkShape(items, `${path}.items`);
+  if (additionalProperties !== undefined && typeof additionalProperties !== 'boolean') {
+    checkShape(additionalProperties, `${path}.additionalProperties`);
+  }
+  if (required !== undefined && !(Array.isArray(required) && required.every(key => typeof key === 'string'))) {
+    throw new ResponseSchemaError(`${path}.required must be a list of property names.`);
+  }
+  if (options !== undefined && !Array.isArray(options)) {
+    throw new ResponseSchemaError(`${path}.enum must be a list.`);
+  }
+  if (pattern !== undefined && (typeof pattern !== 'string' || !compilePattern(pattern))) {
+    throw new ResponseSchemaError(`${path}.pattern is not a valid regular expression.`);
+  }
+};
+
+export const parseResponseSchema = (text: string): JsonSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (e) {
+    throw new ResponseSchemaError(`The response schema is not valid JSON (${(e as Error).message}).`);
+  }
+  if (!isRecord(schema)) {
+    throw new ResponseSchemaError('The response schema must be a JSON object.');
+  }
+  checkShape(schema, '$');
+  return schema as JsonSchema;
+};
+
+// Paths of keywords the Oracle will not check, e.g. "$.properties.tags.anyOf"
+export const uncheckedKeywords = (schema: JsonSchema, path = '$'): string[] => {
+  const found: string[] = [];
+  for (const [key, value] of Object.entries(schema)) {
+    if (!CHECKED_KEYWORDS.has(key)) found.push(`${path}.${key}`);
+    else if (key === 'properties' && value && typeof value === 'object') {
+      for (const [name, child] of Object.entries(value as Record<string, JsonSchema>)) {
+        found.push(...uncheckedKeywords(child, `${path}.properties.${name}`));
+      }
+    } else if ((key === 'items' || key === 'additionalProperties') && value && typeof value === 'object') {
+      found.push(...uncheckedKeywords(value as JsonSchema, `${path}.${key}`));
+    }
+  }
+  return found;
+};
+
+// Everything sent with a run: the generation config, plus the response schema when the narrative has one
+export const requestConfigFor = (
+  defaults: GenerationConfig,
+  prompt: Pick<PromptSFL, 'generationConfig' | 'responseSchema'>
+): RequestConfig => ({
+  ...resolveGenerationConfig(defaults, prompt.generationConfig),
+  ...(prompt.responseSchema?.trim() ? { responseSchema: parseResponseSchema(prompt.responseSchema) } : {})
+});
+
+// Some servers wrap JSON in a Markdown fence even when asked for JSON only
+const unfence = (text: string) => text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/, '$1');
+
+export const checkStructuredOutput = (text: string, schema: JsonSchema): { value: unknown; issues: SchemaIssue[] } =>
+  parseAndValidate(unfence(text), schema);
+
+export const EXAMPLE_RESPONSE_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+    tags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary', 'sentiment']
+}, null, 2);
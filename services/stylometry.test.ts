@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { measureStyle, mergeVoiceProfile, sentenceLengthStats, signaturePhrases, splitSentences } from './stylometry';
+
+const CASUAL = [
+  "Hey folks! Here's the thing: we don't ship on Fridays. You know why? Because one small thing always breaks.",
+  "I'm not kidding. Last week one small thing took down the build, and we spent the weekend on it.",
+  "So here's the thing. Test it early, test it often, and you'll sleep fine. Sound good? Great!"
+].join('\n');
+
+const FORMAL = [
+  'The committee has considered the submitted proposal in considerable detail and has determined that the financial projections require substantial revision before approval can be recommended.',
+  'Accordingly, the applicant is requested to provide independently audited statements, together with a comprehensive assessment of the operational risks identified in the preliminary evaluation.',
+  'Furthermore, the committee observes that the implementation timeline appears insufficiently justified, particularly with respect to the procurement of specialised equipment and personnel.'
+].join(' ');
+
+describe('stylometry', () => {
+  it('splits sentences without breaking on abbreviations', () => {
+    expect(splitSentences('Dr. Smith arrived. Was it late? Yes!\nHeading line')).toEqual([
+      'Dr. Smith arrived.', 'Was it late?', 'Yes!', 'Heading line'
+    ]);
+  });
+
+  it('summarises sentence lengths', () => {
+    expect(sentenceLengthStats(['One two three.', 'One two three four five.', 'One.'])).toEqual({
+      mean: 3, median: 3, stdDev: 1.6, min: 1, max: 5
+    });
+  });
+
+  it('finds repeated phrases and prefers the longest form', () => {
+    const phrases = signaturePhrases(splitSentences(CASUAL));
+    expect(phrases).toContain("here's the thing");
+    expect(phrases).toContain('one small thing');
+    expect(phrases).not.toContain('small thing');
+  });
+
+  it('scores casual writing lower than formal writing', () => {
+    const casual = measureStyle([CASUAL])!;
+    const formal = measureStyle([FORMAL])!;
+    expect(casual.formality).toBeLessThan(0.4);
+    expect(formal.formality).toBeGreaterThan(0.7);
+    expect(casual.lexicalHabits.some(h => h.startsWith('Uses contractions freely'))).toBe(true);
+    expect(casual.lexicalHabits.some(h => h.startsWith('Asks questions often'))).toBe(true);
+    expect(formal.lexicalHabits.some(h => h.startsWith('Favors long words'))).toBe(true);
+    expect(formal.sentenceLength.mean).toBeGreaterThan(20);
+    expect(casual.excerpts.length).toBeGreaterThan(0);
+  });
+
+  it('skips samples too short to measure', () => {
+    expect(measureStyle(['Just a few words here.'])).toBeNull();
+  });
+
+  it('puts measured evidence ahead of the model reading', () => {
+    const measured = measureStyle([CASUAL])!;
+    const merged = mergeVoiceProfile(measured, {
+      formality: 0.5,
+      lexicalHabits: ['Self-deprecating humour', measured.lexicalHabits[0].toUpperCase()],
+      signaturePhrases: ['sound good'],
+      excerpts: []
+    })!;
+    expect(merged.formality).toBeCloseTo((measured.formality + 0.5) / 2, 2);
+    expect(merged.lexicalHabits).toEqual([...measured.lexicalHabits, 'Self-deprecating humour']);
+    expect(merged.signaturePhrases.at(-1)).toBe('sound good');
+    expect(merged.sentenceLength).toEqual(measured.sentenceLength);
+  });
+});
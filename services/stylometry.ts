@@ -0,0 +1,215 @@
+import { SentenceLengthStats, VoiceProfile } from '../types';
+
+// Below this the counts say more about the sample than about the writer
+export const MIN_STYLOMETRY_WORDS = 40;
+
+const MAX_HABITS = 10;
+const MAX_PHRASES = 8;
+const MAX_EXCERPTS = 5;
+
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'fig', 'no']);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'i', 'you', 'we',
+  'they', 'he', 'she', 'me', 'us', 'them', 'my', 'your', 'our', 'their', 'his', 'her', 'so', 'not', 'do', 'have',
+  'has', 'had', 'will', 'would', 'can', 'just', 'there', 'what', 'which', 'who'
+]);
+
+// Phrases cut off mid-thought, e.g. "end of the"
+const DANGLING_END = new Set(['a', 'an', 'the', 'of', 'to', 'and', 'or', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'is', 'are', 'was', 'my', 'your', 'our']);
+const DANGLING_START = new Set(['a', 'an', 'the', 'and', 'of', 'or']);
+
+const FIRST_SINGULAR = new Set(['i', 'me', 'my', 'mine', 'myself', "i'm", "i've", "i'll", "i'd"]);
+const FIRST_PLURAL = new Set(['we', 'us', 'our', 'ours', 'ourselves']);
+const SECOND_PERSON = new Set(['you', 'your', 'yours', 'yourself', 'yourselves']);
+
+export const words = (text: string): string[] =>
+  text.toLowerCase().replace(/’/g, "'").match(/[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu) || [];
+
+// Sentences per line, so headings and transcript turns never run together.
+// Common abbreviations ("Dr.", "e.g.") do not end a sentence.
+export const splitSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  for (const line of text.split(/\n+/)) {
+    let pending = '';
+    for (const piece of line.trim().split(/(?<=[.!?…]["'”’)\]]*)\s+/)) {
+      pending = pending ? `${pending} ${piece}` : piece;
+      const last = pending.match(/([\p{L}.]+)\.$/u)?.[1].toLowerCase();
+      if (last && ABBREVIATIONS.has(last)) continue;
+      if (words(pending).length) sentences.push(pending);
+      pending = '';
+    }
+    if (pending && words(pending).length) sentences.push(pending);
+  }
+  return sentences;
+};
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+export const sentenceLengthStats = (sentences: string[]): SentenceLengthStats => {
+  const lengths = sentences.map(s => words(s).length).filter(n => n > 0).sort((a, b) => a - b);
+  if (!lengths.length) return { mean: 0, median: 0, stdDev: 0, min: 0, max: 0 };
+  const mean = lengths.reduce((sum, n) => sum + n, 0) / lengths.length;
+  const mid = Math.floor(lengths.length / 2);
+  const median = lengths.length % 2 ? lengths[mid] : (lengths[mid - 1] + lengths[mid]) / 2;
+  const variance = lengths.reduce((sum, n) => sum + (n - mean) ** 2, 0) / lengths.length;
+  return { mean: round(mean), median, stdDev: round(Math.sqrt(variance)), min: lengths[0], max: lengths[lengths.length - 1] };
+};
+
+// Vocabulary variety as a moving-average type-token ratio, which unlike the plain
+// ratio does not fall just because the sample is longer
+const movingTypeTokenRatio = (tokens: string[], window = 100): number => {
+  if (tokens.length <= window) return new Set(tokens).size / Math.max(tokens.length, 1);
+  let total = 0;
+  let windows = 0;
+  for (let start = 0; start + window <= tokens.length; start += window / 2) {
+    total += new Set(tokens.slice(start, start + window)).size / window;
+    windows++;
+  }
+  return total / windows;
+};
+
+// Repeated 2–5 word phrases within sentences. Longer repeats score higher, and a
+// phrase that overlaps one already picked (shares a word pair) is left out.
+export const signaturePhrases = (sentences: string[], limit = MAX_PHRASES): string[] => {
+  const counts = new Map<string, number>();
+  for (const sentence of sentences) {
+    const tokens = words(sentence);
+    for (let n = 2; n <= 5; n++) {
+      for (let i = 0; i + n <= tokens.length; i++) {
+        const gram = tokens.slice(i, i + n);
+        if (gram.every(w => STOPWORDS.has(w)) || DANGLING_START.has(gram[0]) || DANGLING_END.has(gram[n - 1])) continue;
+        const key = gram.join(' ');
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+  }
+  const pairs = (phrase: string) => {
+    const tokens = phrase.split(' ');
+    return tokens.slice(1).map((word, idx) => `${tokens[idx]} ${word}`);
+  };
+  const picked: string[] = [];
+  const usedPairs = new Set<string>();
+  const ranked = [...counts]
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] * b[0].split(' ').length - a[1] * a[0].split(' ').length || b[1] - a[1]);
+  for (const [phrase] of ranked) {
+    if (picked.length >= limit) break;
+    if (pairs(phrase).some(pair => usedPairs.has(pair))) continue;
+    picked.push(phrase);
+    pairs(phrase).forEach(pair => usedPairs.add(pair));
+  }
+  return picked;
+};
+
+const per100 = (count: number, total: number) => round((count / Math.max(total, 1)) * 100);
+const share = (count: number, total: number) => Math.round((count / Math.max(total, 1)) * 100);
+
+// Rough 0–1 formality from surface features: long sentences and long words push it up;
+// contractions, personal pronouns and exclamations pull it down
+const formalityScore = (stats: SentenceLengthStats, longWordShare: number, contractionRate: number, personalRate: number, exclaimShare: number) => {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+  const score = 0.5
+    + clamp((stats.mean - 15) / 30, -0.2, 0.2)
+    + clamp((longWordShare - 0.22) * 1.5, -0.15, 0.15)
+    - Math.min(contractionRate / 8, 0.2)
+    - Math.min(personalRate / 20, 0.15)
+    - Math.min(exclaimShare, 0.1);
+  return round(clamp(score, 0, 1), 2);
+};
+
+// Sentences of typical length that use a signature phrase, then the most typical ones
+const pickExcerpts = (sentences: string[], phrases: string[], median: number, limit = 3): string[] => {
+  const candidates = sentences
+    .map((text, idx) => ({ text, idx, length: words(text).length }))
+    .filter(s => s.length >= 6 && s.length <= 40);
+  const score = (s: { text: string; length: number }) => {
+    const tokens = ` ${words(s.text).join(' ')} `;
+    const hits = phrases.filter(p => tokens.includes(` ${p} `)).length;
+    return hits * 10 - Math.abs(s.length - median);
+  };
+  return candidates
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit)
+    .sort((a, b) => a.idx - b.idx)
+    .map(s => s.text);
+};
+
+// Local measurements over the text sources, or null when there is too little text
+export const measureStyle = (texts: string[]): Required<VoiceProfile> | null => {
+  const text = texts.join('\n');
+  const tokens = words(text);
+  if (tokens.length < MIN_STYLOMETRY_WORDS) return null;
+
+  const sentences = splitSentences(text);
+  const stats = sentenceLengthStats(sentences);
+  const count = (set: Set<string>) => tokens.filter(w => set.has(w)).length;
+  const contractions = tokens.filter(w => w.includes("'") && !/'s$/.test(w)).length;
+  const firstSingular = per100(count(FIRST_SINGULAR), tokens.length);
+  const firstPlural = per100(count(FIRST_PLURAL), tokens.length);
+  const second = per100(count(SECOND_PERSON), tokens.length);
+  const contractionRate = per100(contractions, tokens.length);
+  const questions = share(sentences.filter(s => /\?["'”’)\]]*$/.test(s)).length, sentences.length);
+  const exclamations = share(sentences.filter(s => /!["'”’)\]]*$/.test(s)).length, sentences.length);
+  const longWords = tokens.filter(w => w.length >= 7).length / tokens.length;
+  const variety = movingTypeTokenRatio(tokens);
+  const dashes = (text.match(/—|\s(?:–|--)\s/g) || []).length;
+  const semicolons = (text.match(/;/g) || []).length;
+
+  const habits: string[] = [];
+  if (contractionRate >= 2) habits.push(`Uses contractions freely (${contractionRate} per 100 words)`);
+  else if (contractions === 0 && tokens.length >= 150) habits.push('Avoids contractions');
+  if (firstSingular >= 3) habits.push(`Speaks in the first person (${firstSingular} I/me/my per 100 words)`);
+  if (firstPlural > firstSingular && firstPlural >= 1.5) habits.push(`Prefers "we" to "I" (${firstPlural} per 100 words)`);
+  if (second >= 2) habits.push(`Addresses the reader directly (${second} you/your per 100 words)`);
+  if (questions >= 15) habits.push(`Asks questions often (${questions}% of sentences)`);
+  if (exclamations >= 10) habits.push(`Uses exclamations (${exclamations}% of sentences)`);
+  if (longWords >= 0.3) habits.push(`Favors long words (${share(longWords, 1)}% have 7+ letters)`);
+  else if (longWords <= 0.15) habits.push(`Prefers short, plain words (${share(longWords, 1)}% have 7+ letters)`);
+  if (variety >= 0.78) habits.push('Draws on a varied vocabulary');
+  else if (variety <= 0.6) habits.push('Returns to a small core vocabulary');
+  if (stats.mean && stats.stdDev / stats.mean >= 0.6) habits.push('Mixes very short and long sentences');
+  else if (sentences.length >= 5 && stats.stdDev / stats.mean <= 0.3) habits.push('Keeps sentences a steady length');
+  if (per100(dashes, sentences.length) >= 20) habits.push('Leans on dashes for asides');
+  if (per100(semicolons, sentences.length) >= 15) habits.push('Joins clauses with semicolons');
+
+  const phrases = signaturePhrases(sentences);
+  return {
+    formality: formalityScore(stats, longWords, contractionRate, firstSingular + second, exclamations / 100),
+    lexicalHabits: habits,
+    signaturePhrases: phrases,
+    excerpts: pickExcerpts(sentences, phrases, stats.median),
+    sentenceLength: stats,
+    wordCount: tokens.length
+  };
+};
+
+const mergeLists = (lists: string[][], limit: number): string[] => {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  for (const item of lists.flat()) {
+    const key = item.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(item.trim());
+  }
+  return merged.slice(0, limit);
+};
+
+// Measured evidence first, then the model's reading, which also covers audio and images
+export const mergeVoiceProfile = (measured: Required<VoiceProfile> | null, reading?: VoiceProfile): VoiceProfile | undefined => {
+  if (!measured) return reading;
+  if (!reading) return measured;
+  return {
+    formality: round((measured.formality + reading.formality) / 2, 2),
+    lexicalHabits: mergeLists([measured.lexicalHabits, reading.lexicalHabits], MAX_HABITS),
+    signaturePhrases: mergeLists([measured.signaturePhrases, reading.signaturePhrases], MAX_PHRASES + 2),
+    excerpts: mergeLists([measured.excerpts, reading.excerpts], MAX_EXCERPTS),
+    sentenceLength: measured.sentenceLength,
+    wordCount: measured.wordCount
+  };
+};
+
+export const formalityLabel = (formality: number): string =>
+  formality >= 0.8 ? 'formal' : formality >= 0.6 ? 'fairly formal' : formality > 0.4 ? 'neutral' : formality > 0.2 ? 'fairly casual' : 'casual';
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { bindVariables, detectVariables, MissingVariablesError } from './templateVariables';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR, PromptVariable } from '../types';
+
+const slots = {
+  field: { ...DEFAULT_FIELD, topic: 'Weekly newsletter on {{topic}}', keywords: '{{ topic }}, {{count}}' },
+  tenor: { ...DEFAULT_TENOR, targetAudience: ['{{audience}}'] },
+  mode: { ...DEFAULT_MODE, lengthConstraint: '{{count}} words' }
+};
+
+describe('templateVariables', () => {
+  it('detects placeholders across all slots in order of appearance', () => {
+    expect(detectVariables(slots).map(v => v.name)).toEqual(['topic', 'count', 'audience']);
+  });
+
+  it('keeps existing settings for variables that are still present', () => {
+    const existing: PromptVariable[] = [
+      { name: 'count', type: 'number', required: false, defaultValue: '300' },
+      { name: 'gone', type: 'text', required: true }
+    ];
+    const detected = detectVariables(slots, existing);
+    expect(detected.find(v => v.name === 'count')).toEqual(existing[0]);
+    expect(detected.map(v => v.name)).not.toContain('gone');
+  });
+
+  it('substitutes inputs and falls back to defaults', () => {
+    const variables = detectVariables(slots).map(v => v.name === 'count' ? { ...v, type: 'number' as const, defaultValue: '300' } : v);
+    const bound = bindVariables(slots, variables, { topic: 'tides', audience: 'sailors' });
+    expect(bound.field.topic).toBe('Weekly newsletter on tides');
+    expect(bound.field.keywords).toBe('tides, 300');
+    expect(bound.tenor.targetAudience).toEqual(['sailors']);
+    expect(bound.mode.lengthConstraint).toBe('300 words');
+  });
+
+  it('fails clearly when required inputs are missing or malformed', () => {
+    const variables = detectVariables(slots).map(v => v.name === 'count' ? { ...v, type: 'number' as const } : v);
+    expect(() => bindVariables(slots, variables, { topic: 'tides', count: 'many' })).toThrow(MissingVariablesError);
+    try {
+      bindVariables(slots, variables, { topic: 'tides', count: 'many' });
+    } catch (e) {
+      expect((e as MissingVariablesError).missing).toEqual(['audience']);
+      expect((e as MissingVariablesError).invalid).toEqual(['count']);
+      expect((e as Error).message).toBe('Missing required variables: {{audience}}. Not a number: {{count}}.');
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { PromptVariable, SFLField, SFLTenor, SFLMode } from '../types';
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export interface SFLSlots {
+  field: SFLField;
+  tenor: SFLTenor;
+  mode: SFLMode;
+}
+
+export class MissingVariablesError extends Error {
+  constructor(public missing: string[], public invalid: string[] = []) {
+    super([
+      missing.length ? `Missing required variables: ${missing.map(n => `{{${n}}}`).join(', ')}.` : '',
+      invalid.length ? `Not a number: ${invalid.map(n => `{{${n}}}`).join(', ')}.` : ''
+    ].filter(Boolean).join(' '));
+    this.name = 'MissingVariablesError';
+  }
+}
+
+// Every Field and Mode slot by name. Records keyed by the interfaces keep the lists complete,
+// and reading a slot that is not a string fails the type-check rather than the scan.
+const FIELD_SLOTS: Record<keyof SFLField, true> = { topic: true, taskType: true, domainSpecifics: true, keywords: true };
+const MODE_SLOTS: Record<keyof SFLMode, true> = { outputFormat: true, rhetoricalStructure: true, lengthConstraint: true, textualDirectives: true };
+
+const slotNames = <T extends object>(slots: Record<keyof T, true>) => Object.keys(slots) as (keyof T)[];
+
+const slotTexts = ({ field, tenor, mode }: SFLSlots): string[] => [
+  ...slotNames<SFLField>(FIELD_SLOTS).map(key => field[key]),
+  tenor.aiPersona,
+  ...tenor.targetAudience,
+  tenor.desiredTone,
+  tenor.interpersonalStance,
+  ...slotNames<SFLMode>(MODE_SLOTS).map(key => mode[key])
+];
+
+// Scan every SFL slot for {{name}} placeholders, in order of first appearance.
+// Settings the user already chose for a variable survive re-detection.
+export const detectVariables = (slots: SFLSlots, existing: PromptVariable[] = []): PromptVariable[] => {
+  const names: string[] = [];
+  for (const text of slotTexts(slots)) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!names.includes(match[1])) names.push(match[1]);
+    }
+  }
+  return names.map(name => existing.find(v => v.name === name) || { name, type: 'text', required: true });
+};
+
+const substitute = (text: string, values: Record<string, string>) =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+// Stored slots may carry keys from newer builds; only their strings are touched
+const substituteAll = <T extends object>(slots: T, values: Record<string, string>): T =>
+  Object.fromEntries(Object.entries(slots).map(([key, value]) => [
+    key,
+    typeof value === 'string' ? substitute(value, values)
+      : Array.isArray(value) ? value.map(item => (typeof item === 'string' ? substitute(item, values) : item))
+      : value
+  ])) as T;
+
+// Replace placeholders with run-time inputs (falling back to defaults).
+// Throws MissingVariablesError rather than compiling a prompt with holes in it.
+export const bindVariables = (
+  slots: SFLSlots,
+  variables: PromptVariable[],
+  inputs: Record<string, string>
+): SFLSlots => {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+  const invalid: string[] = [];
+
+  for (const variable of variables) {
+    const input = inputs[variable.name];
+    const value = input !== undefined && input.trim() !== '' ? input : variable.defaultValue || '';
+    if (value.trim() === '') {
+      if (variable.required) missing.push(variable.name);
+    } else if (variable.type === 'number' && Number.isNaN(Number(value))) {
+      invalid.push(variable.name);
+    }
+    values[variable.name] = value;
+  }
+
+  if (missing.length || invalid.length) throw new MissingVariablesError(missing, invalid);
+
+  return {
+    field: substituteAll(slots.field, values),
+    tenor: substituteAll(slots.tenor, values),
+    mode: substituteAll(slots.mode, values)
+  };
+};
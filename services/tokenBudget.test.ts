@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { budgetReport, contextLimitFor, DEFAULT_CONTEXT_LIMIT, estimateTokens, formatTokens } from './tokenBudget';
+import { attachmentCosts } from './attachmentChunks';
+import { Attachment, DEFAULT_FIELD } from '../types';
+
+const attachment = (id: string, analysis: string): Attachment => ({
+  id, name: `${id}.txt`, type: 'text', mimeType: 'text/plain', content: '', analysis, status: 'done'
+});
+
+describe('tokenBudget', () => {
+  it('estimates about four characters per token for ASCII and more for other scripts', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('a'.repeat(400))).toBe(100);
+    expect(estimateTokens('日本語のテキスト')).toBeGreaterThan(estimateTokens('japanese'));
+  });
+
+  it('looks up context windows by model family', () => {
+    expect(contextLimitFor('gemini-2.5-flash')).toBe(1_048_576);
+    expect(contextLimitFor('models/gemini-2.5-flash')).toBe(1_048_576);
+    expect(contextLimitFor('llama3.1:8b')).toBe(128_000);
+    expect(contextLimitFor('llama3:8b')).toBe(8_192);
+    expect(contextLimitFor('something-new')).toBe(DEFAULT_CONTEXT_LIMIT);
+  });
+
+  it('stays quiet while the prompt fits comfortably', () => {
+    const report = budgetReport('short prompt', attachmentCosts([attachment('a', 'notes')], DEFAULT_FIELD), 'mock-narrator');
+    expect(report.status).toBe('ok');
+    expect(report.suggestions).toEqual([]);
+    expect(report.attachments.map(a => a.id)).toEqual(['a']);
+  });
+
+  it('suggests trimming the largest attachments first when over budget', () => {
+    const big = attachment('big', 'x'.repeat(120_000));
+    const small = attachment('small', 'y'.repeat(4_000));
+    const tiny = attachment('tiny', 'z'.repeat(400));
+    const text = [big, small, tiny].map(a => a.analysis).join('\n');
+
+    const report = budgetReport(text, attachmentCosts([tiny, big, small], DEFAULT_FIELD), 'llama3:8b');
+    expect(report.status).toBe('over');
+    expect(report.attachments.map(a => a.id)).toEqual(['big', 'small', 'tiny']);
+    expect(report.suggestions.map(s => [s.id, s.action])).toEqual([['big', 'summarize']]);
+  });
+
+  it('ignores attachments that have no analysis yet', () => {
+    const pending: Attachment = { ...attachment('p', ''), status: 'processing' };
+    expect(attachmentCosts([pending], DEFAULT_FIELD)).toEqual([]);
+  });
+
+  it('formats token counts compactly', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(1_234)).toBe('1.2k');
+    expect(formatTokens(128_000)).toBe('128k');
+    expect(formatTokens(1_048_576)).toBe('1.0M');
+  });
+});
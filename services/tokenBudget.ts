@@ -0,0 +1,103 @@
+// Rough token estimates so the Architect can warn before a call fails.
+// No tokenizer ships with the app; ~4 characters per token holds well for
+// English prose and code, while non-Latin scripts run closer to one token per
+// one or two characters, so those are counted more heavily.
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 1.5);
+};
+
+// Input context windows by model family, first match wins
+const CONTEXT_LIMITS: [RegExp, number][] = [
+  [/^gemini-(1\.5|2|3)/, 1_048_576],
+  [/^mock-/, 32_768],
+  [/claude/, 200_000],
+  [/gpt-4o|gpt-4\.1|^o\d/, 128_000],
+  [/llama-?3\.[1-9]|qwen2\.5|mistral-nemo/, 128_000],
+  [/llama-?3|gemma/, 8_192],
+  [/mistral|mixtral/, 32_768]
+];
+
+export const DEFAULT_CONTEXT_LIMIT = 32_768;
+
+// The Gemini API lists models as "models/gemini-…"; that prefix is dropped before matching
+export const contextLimitFor = (model: string): number => {
+  const name = model.toLowerCase().replace(/^models\//, '');
+  return CONTEXT_LIMITS.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_CONTEXT_LIMIT;
+};
+
+// Leave room for the response; small windows would otherwise fill with prompt alone
+const outputReserve = (limit: number) => Math.min(8_192, Math.floor(limit * 0.1));
+
+// Share of the usable window at which the meter turns amber
+const TIGHT_SHARE = 0.8;
+
+// Attachments this large are worth summarizing rather than dropping
+const SUMMARIZE_ABOVE = 2_000;
+
+export type BudgetStatus = 'ok' | 'tight' | 'over';
+
+export interface AttachmentCost {
+  id: string;
+  name: string;
+  tokens: number;
+}
+
+export interface TrimSuggestion extends AttachmentCost {
+  action: 'summarize' | 'remove';
+}
+
+export interface BudgetReport {
+  promptTokens: number;
+  limit: number;
+  // Window minus the output reserve
+  usable: number;
+  share: number;
+  status: BudgetStatus;
+  attachments: AttachmentCost[];
+  suggestions: TrimSuggestion[];
+}
+
+// Largest attachments first until the prompt would sit comfortably inside the window
+const suggestTrims = (costs: AttachmentCost[], excess: number): TrimSuggestion[] => {
+  const suggestions: TrimSuggestion[] = [];
+  let saved = 0;
+  for (const cost of costs) {
+    if (saved >= excess) break;
+    const action = cost.tokens > SUMMARIZE_ABOVE ? 'summarize' : 'remove';
+    suggestions.push({ ...cost, action });
+    // A summary keeps roughly a tenth of the original
+    saved += action === 'summarize' ? Math.floor(cost.tokens * 0.9) : cost.tokens;
+  }
+  return suggestions;
+};
+
+// `costs` comes from attachmentCosts, so trims are weighed by what each attachment actually contributes
+export const budgetReport = (compiledText: string, costs: AttachmentCost[], model: string): BudgetReport => {
+  const promptTokens = estimateTokens(compiledText);
+  const limit = contextLimitFor(model);
+  const usable = limit - outputReserve(limit);
+  const share = promptTokens / usable;
+  const status: BudgetStatus = share > 1 ? 'over' : share > TIGHT_SHARE ? 'tight' : 'ok';
+  return {
+    promptTokens,
+    limit,
+    usable,
+    share,
+    status,
+    attachments: costs,
+    suggestions: status === 'ok' ? [] : suggestTrims(costs, promptTokens - Math.floor(usable * TIGHT_SHARE))
+  };
+};
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens < 1_000) return `${tokens}`;
+  if (tokens < 1_000_000) return `${(tokens / 1_000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { createsCycle, runWorkflow, topologicalOrder, WorkflowRunEvent } from './workflowRunner';
+import { GeminiService } from './geminiService';
+import { MockProvider } from './providers/mockProvider';
+import { DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_PROVIDER_SETTINGS, DEFAULT_TENOR, PromptSFL, Workflow } from '../types';
+
+const prompt = (id: string): PromptSFL => ({
+  id,
+  title: `Narrative ${id}`,
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: { ...DEFAULT_FIELD, topic: `Topic ${id}` },
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE
+});
+
+const workflow: Workflow = {
+  id: 'w',
+  title: 'Chain',
+  createdAt: 1,
+  updatedAt: 1,
+  nodes: [
+    { id: 'summary', promptId: 'b', position: { x: 0, y: 0 } },
+    { id: 'draft', promptId: 'a', position: { x: 0, y: 0 } }
+  ],
+  edges: [{ id: 'e', source: 'draft', target: 'summary', slot: 'reference' }]
+};
+
+describe('workflowRunner', () => {
+  it('orders nodes so sources run before their targets', () => {
+    expect(topologicalOrder(workflow)).toEqual(['draft', 'summary']);
+  });
+
+  it('rejects cycles', () => {
+    expect(createsCycle(workflow, 'summary', 'draft')).toBe(true);
+    expect(createsCycle(workflow, 'draft', 'summary')).toBe(false);
+    const cyclic = { ...workflow, edges: [...workflow.edges, { id: 'back', source: 'summary', target: 'draft', slot: 'topic' as const }] };
+    expect(() => topologicalOrder(cyclic)).toThrow(/cycle/);
+  });
+
+  it('pipes upstream output into the reference material of the next node', async () => {
+    const mock = new MockProvider({ stream: ['first ', 'draft'] });
+    const service = new GeminiService(DEFAULT_PROVIDER_SETTINGS, { mock });
+    const events: WorkflowRunEvent[] = [];
+    for await (const event of runWorkflow(workflow, [prompt('a'), prompt('b')], service, { provider: 'mock', model: 'm' })) {
+      events.push(event);
+    }
+
+    expect(events.filter(e => e.type === 'done').map(e => e.nodeId)).toEqual(['draft', 'summary']);
+    const summaryPrompt = mock.calls[1];
+    expect(summaryPrompt.method === 'streamText' && summaryPrompt.prompt).toContain('### Attachment: Output of Narrative a (text)\nfirst draft');
+  });
+});
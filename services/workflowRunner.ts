@@ -0,0 +1,157 @@
+import { GeminiService } from './geminiService';
+import { CompiledPrompt, compilePrompt } from './compileTargets';
+import { bindVariables } from './templateVariables';
+import { requestConfigFor } from './structuredOutput';
+import { Attachment, GenerationConfig, ModelTarget, PromptSFL, SFLField, Workflow, WorkflowSlot } from '../types';
+
+export const WORKFLOW_SLOTS: { value: WorkflowSlot; label: string }[] = [
+  { value: 'topic', label: 'Topic' },
+  { value: 'taskType', label: 'Task Type' },
+  { value: 'domainSpecifics', label: 'Domain Specifics' },
+  { value: 'keywords', label: 'Keywords' },
+  { value: 'reference', label: 'Reference Material' }
+];
+
+export type WorkflowRunEvent =
+  | { type: 'start'; nodeId: string; compiledPrompt: string }
+  | { type: 'chunk'; nodeId: string; text: string }
+  | { type: 'done'; nodeId: string; output: string }
+  | { type: 'error'; nodeId: string; message: string };
+
+// Kahn's algorithm. Throws if the graph contains a cycle, since a cyclic
+// constellation has no valid execution order.
+export const topologicalOrder = (workflow: Workflow): string[] => {
+  const inDegree = new Map<string, number>();
+  const outgoing = new Map<string, string[]>();
+  workflow.nodes.forEach(n => {
+    inDegree.set(n.id, 0);
+    outgoing.set(n.id, []);
+  });
+
+  for (const edge of workflow.edges) {
+    if (!inDegree.has(edge.source) || !inDegree.has(edge.target)) continue;
+    inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+    outgoing.get(edge.source)!.push(edge.target);
+  }
+
+  const queue = workflow.nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of outgoing.get(id)!) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  if (order.length !== workflow.nodes.length) {
+    throw new Error('The constellation contains a cycle. Remove a connection to run it.');
+  }
+  return order;
+};
+
+// Would adding source -> target close a loop?
+export const createsCycle = (workflow: Workflow, source: string, target: string): boolean => {
+  if (source === target) return true;
+  const stack = [target];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === source) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    workflow.edges.filter(e => e.source === id).forEach(e => stack.push(e.target));
+  }
+  return false;
+};
+
+// Merge upstream outputs into a node's Field slots and reference material
+export const compileWorkflowNode = (
+  workflow: Workflow,
+  nodeId: string,
+  prompt: PromptSFL,
+  outputs: Record<string, string>,
+  prompts: PromptSFL[]
+): CompiledPrompt => {
+  const field: SFLField = { ...prompt.sflField };
+  const attachments: Attachment[] = [...(prompt.attachments || [])];
+  const piped: Partial<Record<keyof SFLField, string[]>> = {};
+
+  for (const edge of workflow.edges.filter(e => e.target === nodeId)) {
+    const output = outputs[edge.source];
+    if (output === undefined) continue;
+
+    if (edge.slot === 'reference') {
+      const sourceNode = workflow.nodes.find(n => n.id === edge.source);
+      const sourcePrompt = prompts.find(p => p.id === sourceNode?.promptId);
+      attachments.push({
+        id: edge.id,
+        name: `Output of ${sourcePrompt?.title || 'upstream narrative'}`,
+        type: 'text',
+        mimeType: 'text/markdown',
+        content: '',
+        analysis: output,
+        status: 'done'
+      });
+    } else {
+      (piped[edge.slot] ||= []).push(output);
+    }
+  }
+
+  (Object.keys(piped) as (keyof SFLField)[]).forEach(slot => {
+    field[slot] = piped[slot]!.join('\n\n');
+  });
+
+  // Template variables run on their defaults inside a constellation
+  const bound = bindVariables({ field, tenor: prompt.sflTenor, mode: prompt.sflMode }, prompt.variables || [], {});
+  return compilePrompt(prompt.compileTarget, bound.field, bound.tenor, bound.mode, attachments, prompt.examples);
+};
+
+// Execute every node in topological order, streaming each node's output.
+// A failed node stops the run, as its dependents would receive no input.
+export async function* runWorkflow(
+  workflow: Workflow,
+  prompts: PromptSFL[],
+  service: GeminiService,
+  target: ModelTarget,
+  generationDefaults: GenerationConfig = {}
+): AsyncGenerator<WorkflowRunEvent> {
+  const order = topologicalOrder(workflow);
+  const outputs: Record<string, string> = {};
+
+  for (const nodeId of order) {
+    const node = workflow.nodes.find(n => n.id === nodeId)!;
+    const prompt = prompts.find(p => p.id === node.promptId);
+    if (!prompt) {
+      yield { type: 'error', nodeId, message: 'The narrative for this node no longer exists.' };
+      return;
+    }
+
+    let compiled: CompiledPrompt;
+    try {
+      compiled = compileWorkflowNode(workflow, nodeId, prompt, outputs, prompts);
+    } catch (error) {
+      yield { type: 'error', nodeId, message: (error as Error).message };
+      return;
+    }
+    yield { type: 'start', nodeId, compiledPrompt: compiled.text };
+
+    try {
+      let output = '';
+      const config = requestConfigFor(generationDefaults, prompt);
+      for await (const chunk of service.executePromptStream(compiled.prompt, target, compiled.system, config)) {
+        if (!chunk) continue;
+        output += chunk;
+        yield { type: 'chunk', nodeId, text: chunk };
+      }
+      outputs[nodeId] = output;
+      yield { type: 'done', nodeId, output };
+    } catch (error) {
+      yield { type: 'error', nodeId, message: (error as Error).message };
+      return;
+    }
+  }
+}
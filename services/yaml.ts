@@ -0,0 +1,73 @@
+// Minimal YAML emitter for human review of a narrative. Output only; there is no parser.
+// Multi-line strings become literal blocks so prose diffs line by line.
+
+const PLAIN_KEY = /^[A-Za-z_][\w-]*$/;
+const RESERVED = /^(true|false|null|yes|no|on|off|~)$/i;
+
+const quote = (text: string) => JSON.stringify(text);
+
+const scalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = String(value);
+  const needsQuotes =
+    text === '' ||
+    text !== text.trim() ||
+    RESERVED.test(text) ||
+    /^[-+]?(\d|\.\d)/.test(text) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |\s#|:$/.test(text);
+  return needsQuotes ? quote(text) : text;
+};
+
+const key = (name: string) => (PLAIN_KEY.test(name) ? name : quote(name));
+
+const isBlock = (value: unknown): value is string =>
+  typeof value === 'string' && value.includes('\n') && !/^\s/.test(value);
+
+const blockLines = (text: string, pad: string): string[] => {
+  const indicator = text.endsWith('\n') ? '|' : '|-';
+  const body = text.replace(/\n$/, '').split('\n').map(line => (line ? `${pad}${line}` : ''));
+  return [indicator, ...body];
+};
+
+const isEmptyCollection = (value: unknown) =>
+  (Array.isArray(value) && value.length === 0) ||
+  (value !== null && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+
+const isCollection = (value: unknown) => value !== null && typeof value === 'object' && !isEmptyCollection(value);
+
+const emit = (value: unknown, indent: number): string[] => {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isCollection(item)) {
+        // The first line of the nested block shares the dash
+        const [first, ...rest] = emit(item, indent + 2);
+        return [`${pad}- ${first.trimStart()}`, ...rest];
+      }
+      if (isBlock(item)) {
+        const [indicator, ...body] = blockLines(item, `${pad}  `);
+        return [`${pad}- ${indicator}`, ...body];
+      }
+      return [`${pad}- ${isEmptyCollection(item) ? JSON.stringify(item) : scalar(item)}`];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, child]) => child !== undefined)
+    .flatMap(([name, child]) => {
+      if (isCollection(child)) return [`${pad}${key(name)}:`, ...emit(child, Array.isArray(child) ? indent : indent + 2)];
+      if (isBlock(child)) {
+        const [indicator, ...body] = blockLines(child, `${pad}  `);
+        return [`${pad}${key(name)}: ${indicator}`, ...body];
+      }
+      return [`${pad}${key(name)}: ${isEmptyCollection(child) ? JSON.stringify(child) : scalar(child)}`];
+    });
+};
+
+export const toYAML = (value: unknown): string => {
+  if (!isCollection(value)) return `${isEmptyCollection(value) ? JSON.stringify(value) : scalar(value)}\n`;
+  return `${emit(value, 0).join('\n')}\n`;
+};
@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useStore } from './store';
+import { BACKUP_KEY, STORE_KEY, STORE_VERSION } from './services/storeMigrations';
+import { MAX_CHAT_SESSIONS, contextFingerprint } from './services/chatSession';
+import { PromptSFL, Workflow, DEFAULT_FIELD, DEFAULT_MODE, DEFAULT_TENOR } from './types';
+
+const makePrompt = (id: string, overrides: Partial<PromptSFL> = {}): PromptSFL => ({
+  id,
+  title: `Narrative ${id}`,
+  description: '',
+  createdAt: 1,
+  updatedAt: 1,
+  sflField: { ...DEFAULT_FIELD, topic: 'Original topic' },
+  sflTenor: DEFAULT_TENOR,
+  sflMode: DEFAULT_MODE,
+  ...overrides
+});
+
+const initialState = useStore.getState();
+
+describe('store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useStore.setState(initialState, true);
+  });
+
+  it('adds prompts newest first', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().addPrompt(makePrompt('b'));
+    expect(useStore.getState().prompts.map(p => p.id)).toEqual(['b', 'a']);
+  });
+
+  it('updates a prompt and bumps updatedAt', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().updatePrompt('a', { title: 'Renamed' });
+    const prompt = useStore.getState().prompts[0];
+    expect(prompt.title).toBe('Renamed');
+    expect(prompt.updatedAt).toBeGreaterThan(1);
+  });
+
+  it('snapshots the previous wording on a revision save', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().savePromptRevision('a', { sflField: { ...DEFAULT_FIELD, topic: 'New topic' } });
+
+    const prompt = useStore.getState().prompts[0];
+    expect(prompt.sflField.topic).toBe('New topic');
+    expect(prompt.versions).toHaveLength(1);
+    expect(prompt.versions![0].sflField.topic).toBe('Original topic');
+  });
+
+  it('does not record a version when nothing authored changed', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().savePromptRevision('a', { compiledPrompt: 'recompiled' });
+    expect(useStore.getState().prompts[0].versions).toBeUndefined();
+  });
+
+  it('treats edited examples as a revision but an empty list as no change', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().savePromptRevision('a', { examples: [] });
+    expect(useStore.getState().prompts[0].versions).toBeUndefined();
+
+    useStore.getState().savePromptRevision('a', { examples: [{ id: 'e1', output: 'Ideal answer' }] });
+    useStore.getState().savePromptRevision('a', { examples: [{ id: 'e1', output: 'Better answer' }] });
+    const prompt = useStore.getState().prompts[0];
+    expect(prompt.versions).toHaveLength(2);
+    expect(prompt.versions![0].examples).toEqual([{ id: 'e1', output: 'Ideal answer' }]);
+  });
+
+  it('restores a version and keeps the replaced draft in history', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().savePromptRevision('a', { sflField: { ...DEFAULT_FIELD, topic: 'New topic' } });
+    const versionId = useStore.getState().prompts[0].versions![0].id;
+
+    useStore.getState().restorePromptVersion('a', versionId);
+    const prompt = useStore.getState().prompts[0];
+    expect(prompt.sflField.topic).toBe('Original topic');
+    expect(prompt.versions!.map(v => v.sflField.topic)).toEqual(['New topic', 'Original topic']);
+  });
+
+  it('versions description, tags, variables and compile target edits and restores them', () => {
+    useStore.getState().addPrompt(makePrompt('a', { tags: ['draft'] }));
+    useStore.getState().savePromptRevision('a', { tags: [], variables: [] });
+    expect(useStore.getState().prompts[0].versions).toHaveLength(1);
+
+    useStore.getState().savePromptRevision('a', {
+      description: 'Sharper goal',
+      compileTarget: 'xml',
+      variables: [{ name: 'city', type: 'text', required: true }]
+    });
+    const versions = useStore.getState().prompts[0].versions!;
+    expect(versions).toHaveLength(2);
+
+    useStore.getState().restorePromptVersion('a', versions[1].id);
+    const prompt = useStore.getState().prompts[0];
+    expect(prompt).toMatchObject({ description: '', tags: ['draft'], compileTarget: undefined });
+    expect(prompt.versions![0]).toMatchObject({ description: 'Sharper goal', compileTarget: 'xml' });
+  });
+
+  it('deletes a prompt, clears it as active and prunes its workflow nodes', () => {
+    const workflow: Workflow = {
+      id: 'w',
+      title: 'Chain',
+      createdAt: 1,
+      updatedAt: 1,
+      nodes: [
+        { id: 'n1', promptId: 'a', position: { x: 0, y: 0 } },
+        { id: 'n2', promptId: 'b', position: { x: 0, y: 0 } }
+      ],
+      edges: [{ id: 'e', source: 'n1', target: 'n2', slot: 'topic' }]
+    };
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().addPrompt(makePrompt('b'));
+    useStore.getState().addWorkflow(workflow);
+    useStore.getState().setActivePrompt('a');
+
+    useStore.getState().deletePrompt('a');
+    const state = useStore.getState();
+    expect(state.prompts.map(p => p.id)).toEqual(['b']);
+    expect(state.activePromptId).toBeNull();
+    expect(state.workflows[0].nodes.map(n => n.id)).toEqual(['n2']);
+    expect(state.workflows[0].edges).toEqual([]);
+  });
+
+  it('imports narratives by replacing matching ids and adding the rest on top', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().addPrompt(makePrompt('b'));
+    useStore.getState().importPrompts([makePrompt('a', { title: 'Imported a' }), makePrompt('c')]);
+    const prompts = useStore.getState().prompts;
+    expect(prompts.map(p => p.id)).toEqual(['c', 'b', 'a']);
+    expect(prompts.find(p => p.id === 'a')?.title).toBe('Imported a');
+  });
+
+  it('unlinks narratives from a deleted persona but keeps their Tenor', () => {
+    const tenor = { ...DEFAULT_TENOR, aiPersona: 'Lighthouse Keeper' };
+    useStore.getState().addPersona({
+      id: 'p', name: 'Keeper', description: '', tenor, sampleUtterances: [], sourceFiles: [], createdAt: 1, updatedAt: 1
+    });
+    useStore.getState().addPrompt(makePrompt('a', { sflTenor: tenor, personaId: 'p' }));
+    useStore.getState().updatePersona('p', { description: 'Gruff but kind' });
+    expect(useStore.getState().personas[0]).toMatchObject({ description: 'Gruff but kind' });
+
+    useStore.getState().deletePersona('p');
+    const prompt = useStore.getState().prompts[0];
+    expect(useStore.getState().personas).toEqual([]);
+    expect(prompt.personaId).toBeUndefined();
+    expect(prompt.sflTenor.aiPersona).toBe('Lighthouse Keeper');
+  });
+
+  it('saves chat sessions newest first without recording a version', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    const session = { id: 's1', title: 'Hello', contextHash: 'h', provider: 'mock' as const, model: 'm', turns: [], createdAt: 1, updatedAt: 1 };
+    useStore.getState().saveChatSession('a', session);
+    useStore.getState().saveChatSession('a', { ...session, id: 's2' });
+    useStore.getState().saveChatSession('a', { ...session, title: 'Renamed' });
+
+    let prompt = useStore.getState().prompts[0];
+    expect(prompt.chatSessions?.map(s => [s.id, s.title])).toEqual([['s1', 'Renamed'], ['s2', 'Hello']]);
+    expect(prompt.versions).toBeUndefined();
+
+    useStore.getState().deleteChatSession('a', 's1');
+    prompt = useStore.getState().prompts[0];
+    expect(prompt.chatSessions?.map(s => s.id)).toEqual(['s2']);
+
+    for (let i = 0; i < MAX_CHAT_SESSIONS + 5; i++) useStore.getState().saveChatSession('a', { ...session, id: `n${i}` });
+    expect(useStore.getState().prompts[0].chatSessions).toHaveLength(MAX_CHAT_SESSIONS);
+  });
+
+  it('replaces the stored context of saved chat sessions with a fingerprint', async () => {
+    const session = { id: 's1', title: 'Hello', system: 'Long context', provider: 'mock', model: 'm', turns: [], createdAt: 1, updatedAt: 1 };
+    localStorage.setItem(STORE_KEY, JSON.stringify({ state: { prompts: [{ ...makePrompt('p'), chatSessions: [session] }] }, version: 3 }));
+
+    await useStore.persist.rehydrate();
+
+    const [saved] = useStore.getState().prompts[0].chatSessions!;
+    expect(saved).not.toHaveProperty('system');
+    expect(saved.contextHash).toBe(contextFingerprint('Long context'));
+  });
+
+  it('records a comparison vote on every narrative involved, once each', () => {
+    useStore.getState().addPrompt(makePrompt('a'));
+    useStore.getState().addPrompt(makePrompt('b'));
+    useStore.getState().addPrompt(makePrompt('c'));
+    const side = (promptId: string, model: string) => ({ promptId, promptTitle: promptId, provider: 'mock' as const, model });
+    useStore.getState().recordVote({ id: 'v1', votedAt: 1, a: side('a', 'm1'), b: side('b', 'm1'), winner: 'b' });
+    useStore.getState().recordVote({ id: 'v2', votedAt: 2, a: side('a', 'm1'), b: side('a', 'm2'), winner: 'tie' });
+
+    const votesOf = (id: string) => useStore.getState().prompts.find(p => p.id === id)?.votes?.map(v => v.id);
+    expect(votesOf('a')).toEqual(['v2', 'v1']);
+    expect(votesOf('b')).toEqual(['v1']);
+    expect(votesOf('c')).toBeUndefined();
+    expect(useStore.getState().prompts.find(p => p.id === 'a')?.versions).toBeUndefined();
+  });
+
+  it('processes attachments in the background and writes results to the saved narrative', async () => {
+    const pending = { id: 'f', name: 'notes.txt', type: 'text' as const, mimeType: 'text/plain', content: '', status: 'processing' as const };
+    useStore.getState().addPrompt(makePrompt('a', { attachments: [pending] }));
+    const updatedAt = useStore.getState().prompts[0].updatedAt;
+
+    useStore.getState().enqueueAttachment(pending, new File(['Field notes'], 'notes.txt', { type: 'text/plain' }));
+    await vi.waitFor(() => expect(useStore.getState().processingJobs.f.status).toBe('done'));
+
+    const prompt = useStore.getState().prompts[0];
+    expect(prompt.attachments![0]).toMatchObject({ status: 'done', analysis: 'Field notes' });
+    expect(prompt.updatedAt).toBe(updatedAt);
+    expect(prompt.versions).toBeUndefined();
+    // The saved narrative holds the result now, so the job does not keep a second copy
+    expect(useStore.getState().processingJobs.f.result).toBeUndefined();
+    useStore.getState().releaseProcessingJobs(['f']);
+    expect(useStore.getState().processingJobs).toEqual({});
+  });
+
+  it('merges provider settings and tracks models per provider', () => {
+    useStore.getState().setProviderSettings({ openaiApiKey: 'secret' });
+    useStore.getState().setAvailableModels('mock', ['m1']);
+    const state = useStore.getState();
+    expect(state.providerSettings.openaiBaseUrl).toBe('http://localhost:11434/v1');
+    expect(state.providerSettings.openaiApiKey).toBe('secret');
+    expect(state.availableModels.mock).toEqual(['m1']);
+    expect(state.availableModels.gemini).toEqual([]);
+  });
+
+  it('migrates unversioned saved data and quarantines prompts it cannot open', async () => {
+    const legacy = { ...makePrompt('old'), description: undefined, sflTenor: { ...DEFAULT_TENOR, targetAudience: 'Kids, Parents' } };
+    const broken = { id: 'broken', title: 'No slots' };
+    const interrupted = makePrompt('busy', {
+      attachments: [{ id: 'f', name: 'a.mp3', type: 'audio', mimeType: 'audio/mpeg', content: '', status: 'processing' }]
+    });
+    localStorage.setItem(STORE_KEY, JSON.stringify({ state: { prompts: [legacy, broken, interrupted], theme: 'dark' }, version: 0 }));
+
+    await useStore.persist.rehydrate();
+    const state = useStore.getState();
+
+    expect(state.prompts.map(p => p.id)).toEqual(['old', 'busy']);
+    expect(state.prompts[0].description).toBe('');
+    expect(state.prompts[0].sflTenor.targetAudience).toEqual(['Kids', 'Parents']);
+    expect(state.prompts[1].attachments?.[0].status).toBe('error');
+    expect(state.theme).toBe('dark');
+    expect(state.quarantinedPrompts).toHaveLength(1);
+    expect(state.quarantinedPrompts[0].raw).toMatchObject(broken);
+    expect(state.quarantinedPrompts[0].reason).toContain('sflField is required');
+    expect(JSON.parse(localStorage.getItem(STORE_KEY)!).version).toBe(STORE_VERSION);
+  });
+
+  it('turns chunks that carried their own text into offsets, in versions too', async () => {
+    const analysis = 'Part one.\n\nPart two.';
+    const attachment = {
+      id: 'f', name: 'a.txt', type: 'text', mimeType: 'text/plain', content: '', status: 'done', analysis,
+      chunks: [{ text: 'Part one.\nPart two.', summary: 'Both parts.' }]
+    };
+    const prompt = { ...makePrompt('p'), attachments: [attachment], versions: [{ ...makePrompt('p'), id: 'v', savedAt: 1, attachments: [attachment] }] };
+    localStorage.setItem(STORE_KEY, JSON.stringify({ state: { prompts: [prompt] }, version: 1 }));
+
+    await useStore.persist.rehydrate();
+    const [loaded] = useStore.getState().prompts;
+
+    expect(loaded.attachments?.[0].chunks).toEqual([{ start: 0, end: analysis.length, summary: 'Both parts.' }]);
+    expect(loaded.versions?.[0].attachments?.[0].chunks).toEqual([{ start: 0, end: analysis.length, summary: 'Both parts.' }]);
+  });
+
+  it('stores outline text that repeats the analysis as offsets', async () => {
+    const attachment = {
+      id: 'f', name: 'a.md', type: 'text', mimeType: 'text/markdown', content: '', status: 'done', analysis: '# Intro\nHello',
+      structured: { kind: 'outline', sections: [{ heading: 'Intro', level: 1, content: 'Hello' }] }
+    };
+    localStorage.setItem(STORE_KEY, JSON.stringify({ state: { prompts: [{ ...makePrompt('p'), attachments: [attachment] }] }, version: 2 }));
+
+    await useStore.persist.rehydrate();
+
+    expect(useStore.getState().prompts[0].attachments?.[0].structured).toEqual({
+      kind: 'outline', sections: [{ heading: 'Intro', level: 1, start: 8, end: 13 }]
+    });
+  });
+
+  it('keeps working in memory and reports it when storage is full', async () => {
+    const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+    expect(() => useStore.getState().addPrompt(makePrompt('big'))).not.toThrow();
+    await Promise.resolve();
+    expect(useStore.getState().prompts.map(p => p.id)).toEqual(['big']);
+    expect(useStore.getState().storageError).toMatch(/storage is full/);
+
+    setItem.mockRestore();
+    useStore.getState().deletePrompt('big');
+    await Promise.resolve();
+    expect(useStore.getState().storageError).toBeNull();
+  });
+
+  it('keeps unreadable saved data in a backup instead of crashing', async () => {
+    localStorage.setItem(STORE_KEY, '{"state": {"prompts": [');
+
+    await useStore.persist.rehydrate();
+
+    expect(useStore.getState().hydrationError).toMatch(/not valid JSON/);
+    expect(useStore.getState().prompts).toEqual([]);
+    expect(localStorage.getItem(BACKUP_KEY)).toBe('{"state": {"prompts": [');
+
+    useStore.getState().clearQuarantine();
+    expect(useStore.getState().hydrationError).toBeNull();
+    expect(localStorage.getItem(BACKUP_KEY)).toBeNull();
+  });
+});
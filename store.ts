@@ -1,18 +1,145 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { AppState, PromptSFL } from './types';
+import { persist, PersistStorage } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { AppState, AttachmentAnalysis, ProcessingJob, PromptSFL, PromptVersion, DEFAULT_PROVIDER_SETTINGS } from './types';
+import { deleteBlobs, orphanedBlobIds, referencedBlobIds } from './services/blobStore';
+import { GeminiService } from './services/geminiService';
+import { DEFAULT_ANALYSIS_PROFILES, mediaKindOf } from './services/analysisProfiles';
+import { sanitizeGenerationConfig } from './services/generationConfig';
+import { MAX_CHAT_SESSIONS } from './services/chatSession';
+import { DEFAULT_PROCESSING_CONCURRENCY, JobUpdate, ProcessingQueue, analyzeAttachmentFile, applyJobToAttachment } from './services/attachmentProcessing';
+import { BACKUP_KEY, STORE_KEY, STORE_VERSION, migratePersistedState, quarantineInvalidPrompts } from './services/storeMigrations';
+
+const MAX_VERSIONS = 50;
+
+const snapshotPrompt = (prompt: PromptSFL): PromptVersion => ({
+  id: uuidv4(),
+  savedAt: prompt.updatedAt,
+  title: prompt.title,
+  description: prompt.description,
+  sflField: prompt.sflField,
+  sflTenor: prompt.sflTenor,
+  sflMode: prompt.sflMode,
+  attachments: prompt.attachments,
+  examples: prompt.examples,
+  compiledPrompt: prompt.compiledPrompt,
+  compileTarget: prompt.compileTarget,
+  variables: prompt.variables,
+  tags: prompt.tags,
+});
+
+const orNone = <T>(list?: T[]) => (list?.length ? list : undefined);
+
+// Only the authored content counts as a change worth a version; a missing list and
+// an empty one are the same content. Run settings and personas stay outside history.
+const contentKey = (p: Partial<PromptSFL>) =>
+  JSON.stringify([
+    p.title, p.description, p.sflField, p.sflTenor, p.sflMode, p.attachments, orNone(p.examples),
+    p.compileTarget ?? 'markdown', orNone(p.variables), orNone(p.tags)
+  ]);
+
+const withRevision = (prompt: PromptSFL, updates: Partial<PromptSFL>): PromptSFL => {
+  const next = { ...prompt, ...updates };
+  if (contentKey(prompt) === contentKey(next)) {
+    return { ...next, versions: prompt.versions, updatedAt: Date.now() };
+  }
+  const versions = [snapshotPrompt(prompt), ...(prompt.versions || [])].slice(0, MAX_VERSIONS);
+  return { ...next, versions, updatedAt: Date.now() };
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const STORAGE_FULL = 'Browser storage is full, so recent changes are only kept until this tab closes. Free space by deleting narratives, old versions or chat sessions, or export a bundle to keep a copy.';
+
+// Writes happen inside every set(), so a full storage must not throw out of store actions.
+// It is reported once as state, and cleared by the next write that fits.
+let storageFull = false;
+const writeState = (name: string, value: unknown) => {
+  let full = false;
+  try {
+    localStorage.setItem(name, JSON.stringify(value));
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    full = true;
+  }
+  if (full === storageFull) return;
+  storageFull = full;
+  // Deferred: a write can happen while the store is still being created
+  queueMicrotask(() => useStore.setState({ storageError: full ? STORAGE_FULL : null }));
+};
+
+// JSON storage that never throws on unreadable data. The raw text is copied to a
+// backup key before the next write can replace it, and the failure is surfaced as state.
+const safeStorage: PersistStorage<Partial<AppState>> = {
+  getItem: (name) => {
+    const raw = localStorage.getItem(name);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      localStorage.setItem(BACKUP_KEY, raw);
+      return { state: { hydrationError: `Saved data is not valid JSON (${(error as Error).message}).` }, version: STORE_VERSION };
+    }
+  },
+  setItem: writeState,
+  removeItem: (name) => localStorage.removeItem(name),
+};
+
+const isFinished = (job?: ProcessingJob) => job?.status === 'done' || job?.status === 'error' || job?.status === 'cancelled';
+
+// Merge a queue update into its job and write finished results back to saved narratives.
+// A finished re-analysis replaces the saved copy; a failure only marks attachments that
+// were still waiting, so a good earlier analysis is not thrown away. Once written back,
+// the job drops its result; an open draft reads it from the saved narrative instead.
+const withJobUpdate = (state: AppState, id: string, update: JobUpdate<AttachmentAnalysis>): Partial<AppState> => {
+  const previous = state.processingJobs[id];
+  if (!previous) return {};
+  const job: ProcessingJob = { ...previous, ...update };
+  if (!isFinished(job)) {
+    return { processingJobs: { ...state.processingJobs, [id]: job } };
+  }
+
+  let changed = false;
+  const prompts = state.prompts.map((p) => {
+    if (!p.attachments?.some((a) => a.id === id && (job.status === 'done' || a.status !== 'done'))) return p;
+    changed = true;
+    return { ...p, attachments: p.attachments.map((a) => (a.id === id ? applyJobToAttachment(a, job) : a)) };
+  });
+  const processingJobs = { ...state.processingJobs, [id]: changed ? { ...job, result: undefined } : job };
+  return changed ? { processingJobs, prompts } : { processingJobs };
+};
+
+// Lives outside React so uploads keep going when the Architect closes
+const attachmentQueue = new ProcessingQueue<AttachmentAnalysis>({
+  concurrency: DEFAULT_PROCESSING_CONCURRENCY,
+  onUpdate: (id, update) => useStore.setState((state) => withJobUpdate(state, id, update)),
+});
 
 export const useStore = create<AppState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       prompts: [],
+      workflows: [],
+      savedFilters: [],
+      personas: [],
+      quarantinedPrompts: [],
+      hydrationError: null,
+      storageError: null,
       activePromptId: null,
       theme: 'light',
       // Defaulting to gemini-3-pro-preview as requested for Primary
       // Defaulting to gemini-3-pro-preview for Persona (mapping 2.5-pro request to latest Pro)
       primaryModel: 'gemini-3-pro-preview',
+      primaryProvider: 'gemini',
       personaModel: 'gemini-3-pro-preview',
-      availableModels: [],
+      personaProvider: 'gemini',
+      providerSettings: DEFAULT_PROVIDER_SETTINGS,
+      availableModels: { 'gemini': [], 'openai-compatible': [], 'mock': [] },
+      processingJobs: {},
+      processingConcurrency: DEFAULT_PROCESSING_CONCURRENCY,
+      analysisProfiles: DEFAULT_ANALYSIS_PROFILES,
+      generationDefaults: {},
       
       addPrompt: (prompt) => set((state) => ({ prompts: [prompt, ...state.prompts] })),
       updatePrompt: (id, updates) =>
@@ -21,25 +148,225 @@ export const useStore = create<AppState>()(
             p.id === id ? { ...p, ...updates, updatedAt: Date.now() } : p
           ),
         })),
+      savePromptRevision: (id, updates) =>
+        set((state) => ({
+          prompts: state.prompts.map((p) => (p.id === id ? withRevision(p, updates) : p)),
+        })),
+      restorePromptVersion: (id, versionId) =>
+        set((state) => ({
+          prompts: state.prompts.map((p) => {
+            if (p.id !== id) return p;
+            const version = p.versions?.find((v) => v.id === versionId);
+            if (!version) return p;
+            const { id: _versionId, savedAt: _savedAt, ...content } = version;
+            return withRevision(p, content);
+          }),
+        })),
       setActivePrompt: (id) => set({ activePromptId: id }),
-      deletePrompt: (id) =>
+      deletePrompt: (id) => {
+        const { prompts } = get();
+        const removed = prompts.filter((p) => p.id === id);
+        // Stored originals nothing else points at go with the narrative
+        const staleBlobs = orphanedBlobIds(removed, prompts.filter((p) => p.id !== id), get().personas);
+        if (staleBlobs.length) deleteBlobs(staleBlobs).catch((e) => console.error('Failed to delete stored files', e));
         set((state) => ({
           prompts: state.prompts.filter((p) => p.id !== id),
           activePromptId: state.activePromptId === id ? null : state.activePromptId,
+          // Drop any Constellation nodes (and their edges) that referenced the deleted narrative
+          workflows: state.workflows.map((w) => {
+            const orphaned = w.nodes.filter((n) => n.promptId === id).map((n) => n.id);
+            if (orphaned.length === 0) return w;
+            return {
+              ...w,
+              nodes: w.nodes.filter((n) => !orphaned.includes(n.id)),
+              edges: w.edges.filter((e) => !orphaned.includes(e.source) && !orphaned.includes(e.target)),
+            };
+          }),
+        }));
+      },
+      // Replace narratives that share an id, add the rest at the top
+      importPrompts: (incoming) =>
+        set((state) => {
+          const byId = new Map(incoming.map((p) => [p.id, p]));
+          const replaced = state.prompts.map((p) => byId.get(p.id) || p);
+          const added = incoming.filter((p) => !state.prompts.some((existing) => existing.id === p.id));
+          return { prompts: [...added, ...replaced] };
+        }),
+      // Both narratives keep the verdict; a vote between two models of one narrative is stored once
+      recordVote: (vote) =>
+        set((state) => ({
+          prompts: state.prompts.map((p) =>
+            p.id === vote.a.promptId || p.id === vote.b.promptId
+              ? { ...p, votes: [vote, ...(p.votes || [])] }
+              : p
+          ),
+        })),
+      // Sessions are test records, not authored content, so they never start a revision.
+      // Only the newest MAX_CHAT_SESSIONS are kept.
+      saveChatSession: (promptId, session) =>
+        set((state) => ({
+          prompts: state.prompts.map((p) =>
+            p.id === promptId
+              ? { ...p, chatSessions: [session, ...(p.chatSessions || []).filter((s) => s.id !== session.id)].slice(0, MAX_CHAT_SESSIONS) }
+              : p
+          ),
+        })),
+      deleteChatSession: (promptId, sessionId) =>
+        set((state) => ({
+          prompts: state.prompts.map((p) =>
+            p.id === promptId ? { ...p, chatSessions: (p.chatSessions || []).filter((s) => s.id !== sessionId) } : p
+          ),
         })),
+      addWorkflow: (workflow) => set((state) => ({ workflows: [workflow, ...state.workflows] })),
+      updateWorkflow: (id, updates) =>
+        set((state) => ({
+          workflows: state.workflows.map((w) =>
+            w.id === id ? { ...w, ...updates, updatedAt: Date.now() } : w
+          ),
+        })),
+      deleteWorkflow: (id) =>
+        set((state) => ({
+          workflows: state.workflows.filter((w) => w.id !== id),
+        })),
+      addSavedFilter: (filter) => set((state) => ({ savedFilters: [...state.savedFilters, filter] })),
+      deleteSavedFilter: (id) =>
+        set((state) => ({
+          savedFilters: state.savedFilters.filter((f) => f.id !== id),
+        })),
+      addPersona: (persona) => set((state) => ({ personas: [persona, ...state.personas] })),
+      updatePersona: (id, updates) => {
+        const { prompts, personas } = get();
+        const previous = personas.find((p) => p.id === id);
+        if (!previous) return;
+        const next = { ...previous, ...updates, updatedAt: Date.now() };
+        const others = personas.filter((p) => p.id !== id);
+        // Source files dropped from the persona go unless something else still uses them
+        const kept = referencedBlobIds(prompts, [...others, next]);
+        const staleBlobs = previous.sourceFiles.flatMap((f) => (f.blobId && !kept.has(f.blobId) ? [f.blobId] : []));
+        if (staleBlobs.length) deleteBlobs(staleBlobs).catch((e) => console.error('Failed to delete stored files', e));
+        set({ personas: personas.map((p) => (p.id === id ? next : p)) });
+      },
+      // Narratives keep the Tenor they copied; only the link to the library goes
+      deletePersona: (id) => {
+        const { prompts, personas } = get();
+        const removed = personas.find((p) => p.id === id);
+        const kept = referencedBlobIds(prompts, personas.filter((p) => p.id !== id));
+        const staleBlobs = (removed?.sourceFiles || []).flatMap((f) => (f.blobId && !kept.has(f.blobId) ? [f.blobId] : []));
+        if (staleBlobs.length) deleteBlobs(staleBlobs).catch((e) => console.error('Failed to delete stored files', e));
+        set((state) => ({
+          personas: state.personas.filter((p) => p.id !== id),
+          prompts: state.prompts.map((p) => {
+            if (p.personaId !== id) return p;
+            const { personaId: _personaId, ...unlinked } = p;
+            return unlinked;
+          }),
+        }));
+      },
+      // Replace personas that share an id, add the rest at the top
+      importPersonas: (incoming) =>
+        set((state) => {
+          const byId = new Map(incoming.map((p) => [p.id, p]));
+          const replaced = state.personas.map((p) => byId.get(p.id) || p);
+          const added = incoming.filter((p) => !state.personas.some((existing) => existing.id === p.id));
+          return { personas: [...added, ...replaced] };
+        }),
       setTheme: (theme) => set({ theme }),
       setPrimaryModel: (model) => set({ primaryModel: model }),
+      setPrimaryProvider: (provider) => set({ primaryProvider: provider }),
       setPersonaModel: (model) => set({ personaModel: model }),
-      setAvailableModels: (models) => set({ availableModels: models }),
+      setPersonaProvider: (provider) => set({ personaProvider: provider }),
+      setProviderSettings: (settings) =>
+        set((state) => ({ providerSettings: { ...state.providerSettings, ...settings } })),
+      setAvailableModels: (provider, models) =>
+        set((state) => ({ availableModels: { ...state.availableModels, [provider]: models } })),
+      clearQuarantine: () => {
+        localStorage.removeItem(BACKUP_KEY);
+        set({ quarantinedPrompts: [], hydrationError: null });
+      },
+      enqueueAttachment: (attachment, file) => {
+        set((state) => ({
+          processingJobs: {
+            ...state.processingJobs,
+            [attachment.id]: { attachmentId: attachment.id, fileName: attachment.name, status: 'queued', progress: 0, attempt: 0 },
+          },
+        }));
+        attachmentQueue.enqueue(attachment.id, (signal, report) => {
+          // Read settings when the job starts, not when it was queued
+          const { providerSettings, primaryProvider, primaryModel, analysisProfiles } = get();
+          const target = { provider: primaryProvider, model: primaryModel };
+          const kind = mediaKindOf(attachment.mimeType);
+          const profile = attachment.analysisProfile ?? (kind ? analysisProfiles[kind] : undefined);
+          return analyzeAttachmentFile(new GeminiService(providerSettings), target, attachment, file, report, profile, signal);
+        });
+      },
+      cancelAttachmentProcessing: (attachmentId) => attachmentQueue.cancel(attachmentId),
+      releaseProcessingJobs: (attachmentIds) =>
+        set((state) => {
+          const finished = attachmentIds.filter((id) => isFinished(state.processingJobs[id]));
+          if (!finished.length) return {};
+          const processingJobs = { ...state.processingJobs };
+          finished.forEach((id) => delete processingJobs[id]);
+          return { processingJobs };
+        }),
+      setProcessingConcurrency: (concurrency) => {
+        const value = Math.min(8, Math.max(1, Math.floor(concurrency) || 1));
+        attachmentQueue.setConcurrency(value);
+        set({ processingConcurrency: value });
+      },
+      setAnalysisProfile: (kind, profile) =>
+        set((state) => ({ analysisProfiles: { ...state.analysisProfiles, [kind]: profile } })),
+      setGenerationDefaults: (config) => set({ generationDefaults: sanitizeGenerationConfig(config) }),
     }),
     {
-      name: 'sfl-narrative-storage',
+      name: STORE_KEY,
+      version: STORE_VERSION,
+      storage: safeStorage,
+      // A failed migration must not reach the default handler, which would start from an
+      // empty library and overwrite the saved one on the next write
+      migrate: (persisted, version) => {
+        try {
+          return migratePersistedState(persisted, version) as Partial<AppState>;
+        } catch (error) {
+          localStorage.setItem(BACKUP_KEY, JSON.stringify(persisted));
+          return { hydrationError: `Saved data from schema v${version} could not be upgraded (${(error as Error).message}).` };
+        }
+      },
+      // Load only the prompts that validate; quarantine the rest instead of crashing on them
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<AppState>;
+        const { prompts, quarantined } = quarantineInvalidPrompts(saved.prompts);
+        return {
+          ...current,
+          ...saved,
+          prompts,
+          workflows: Array.isArray(saved.workflows) ? saved.workflows : current.workflows,
+          savedFilters: Array.isArray(saved.savedFilters) ? saved.savedFilters : current.savedFilters,
+          personas: Array.isArray(saved.personas) ? saved.personas : current.personas,
+          providerSettings: { ...current.providerSettings, ...saved.providerSettings },
+          analysisProfiles: { ...current.analysisProfiles, ...saved.analysisProfiles },
+          generationDefaults: sanitizeGenerationConfig(saved.generationDefaults),
+          quarantinedPrompts: [...(saved.quarantinedPrompts || []), ...quarantined],
+        };
+      },
       partialize: (state) => ({
         prompts: state.prompts,
+        workflows: state.workflows,
+        savedFilters: state.savedFilters,
+        personas: state.personas,
+        quarantinedPrompts: state.quarantinedPrompts,
         theme: state.theme,
         primaryModel: state.primaryModel,
-        personaModel: state.personaModel
+        primaryProvider: state.primaryProvider,
+        personaModel: state.personaModel,
+        personaProvider: state.personaProvider,
+        providerSettings: state.providerSettings,
+        processingConcurrency: state.processingConcurrency,
+        analysisProfiles: state.analysisProfiles,
+        generationDefaults: state.generationDefaults
       }),
+      onRehydrateStorage: () => (state) => {
+        if (state) attachmentQueue.setConcurrency(state.processingConcurrency);
+      },
     }
   )
 );
\ No newline at end of file
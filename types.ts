@@ -10,6 +10,27 @@ export interface SFLTenor {
   targetAudience: string[];
   desiredTone: string;
   interpersonalStance: string;
+  voice?: VoiceProfile; // Set by voice analysis
+}
+
+// Words per sentence across a persona's text sources
+export interface SentenceLengthStats {
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+// How a voice sounds in detail: measured on the text sources where there is enough
+// text, combined with the model's reading of every source
+export interface VoiceProfile {
+  formality: number; // 0 = casual chat, 1 = formal prose
+  lexicalHabits: string[];
+  signaturePhrases: string[];
+  excerpts: string[];
+  sentenceLength?: SentenceLengthStats; // Only from text sources
+  wordCount?: number; // Words the measurements were taken from
 }
 
 export interface SFLMode {
@@ -19,15 +40,141 @@ export interface SFLMode {
   textualDirectives: string;
 }
 
+// A span of the attachment's analysis; the text itself is sliced from it when compiling
+export interface AttachmentChunk {
+  start: number;
+  end: number;
+  summary?: string;
+}
+
+// How much of an attachment the compiled prompt carries. 'summary' and 'relevant'
+// need chunks; 'cited' needs a structured analysis and a list of citations.
+export type AttachmentInclusion = 'full' | 'summary' | 'relevant' | 'cited';
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the beginning
+  end?: number;
+  speaker?: string;
+  text: string;
+}
+
+export interface DetectedObject {
+  label: string;
+  description?: string;
+}
+
+export interface OutlineSection {
+  heading: string;
+  level: number; // 1 is a top-level heading
+  page?: number;
+  content?: string; // Set when a model wrote the outline and the text is not in the analysis
+  start?: number; // Otherwise the body is this span of the attachment's analysis
+  end?: number;
+}
+
+// Typed analysis payloads; `analysis` holds the same content rendered as text
+export type StructuredAnalysis =
+  | { kind: 'transcript'; segments: TranscriptSegment[] }
+  | { kind: 'image'; caption?: string; text: string[]; objects: DetectedObject[] }
+  | { kind: 'outline'; sections: OutlineSection[] };
+
 export interface Attachment {
   id: string;
   name: string;
   type: 'audio' | 'video' | 'image' | 'text' | 'pdf' | 'document' | 'other';
   mimeType: string;
   content: string; // Base64 or Text content
+  blobId?: string; // Original file in the IndexedDB blob store
+  size?: number;
   analysis?: string; // Transcribed text, image description, or summary
   status: 'pending' | 'processing' | 'done' | 'error';
   errorMessage?: string;
+  chunks?: AttachmentChunk[]; // Set for long text analyses
+  inclusion?: AttachmentInclusion; // Defaults to 'full'
+  analysisProfile?: AnalysisProfile; // Overrides the workspace profile for its media type
+  structured?: StructuredAnalysis;
+  citations?: string[]; // Unit ids (e.g. S3, §2) included in 'cited' mode
+}
+
+// Media the model has to analyze, each with its own configurable profile
+export type MediaKind = 'audio' | 'video' | 'image' | 'pdf';
+
+// Layout asked of the analysis, on top of the profile's instruction
+export type AnalysisOutputShape = 'structured' | 'prose' | 'transcript' | 'text-only' | 'table';
+
+export interface AnalysisProfile extends ModelTarget {
+  instruction: string;
+  useTextLayer?: boolean; // PDFs only: read an existing text layer locally instead of asking the model (default)
+  outputShape: AnalysisOutputShape;
+}
+
+export type AnalysisProfiles = Record<MediaKind, AnalysisProfile>;
+
+// What background processing produces for an attachment
+export type AttachmentAnalysis = Pick<Attachment, 'analysis' | 'chunks' | 'structured'>;
+
+export type ProcessingStatus = 'queued' | 'running' | 'retrying' | 'done' | 'error' | 'cancelled';
+
+// One attachment in the background processing queue. Held in memory only;
+// results are written back to any saved narrative holding the attachment.
+export interface ProcessingJob {
+  attachmentId: string;
+  fileName: string;
+  status: ProcessingStatus;
+  stage?: string;
+  progress: number;
+  attempt: number;
+  error?: string;
+  result?: AttachmentAnalysis;
+}
+
+export type CompileTargetId = 'markdown' | 'xml' | 'chat-split' | 'chat-json';
+
+// A {{placeholder}} found in the SFL slots, filled in at run time
+export interface PromptVariable {
+  name: string;
+  type: 'text' | 'number' | 'multiline';
+  required: boolean;
+  defaultValue?: string;
+}
+
+// A few-shot exemplar: an optional input and the ideal output for it
+export interface PromptExample {
+  id: string;
+  input?: string;
+  output: string;
+}
+
+// Sampling and safety settings sent with every execution. Unset keys fall back to the
+// workspace defaults, then to the provider's own.
+export type HarmCategoryId = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  thinkingBudget?: number; // Tokens; 0 turns thinking off, -1 lets the model decide
+  safety?: Partial<Record<HarmCategoryId, SafetyThreshold>>;
+}
+
+// A frozen copy of a narrative as it stood before a save overwrote it
+export interface PromptVersion {
+  id: string;
+  savedAt: number;
+  title: string;
+  description: string;
+  sflField: SFLField;
+  sflTenor: SFLTenor;
+  sflMode: SFLMode;
+  attachments?: Attachment[];
+  examples?: PromptExample[];
+  compiledPrompt?: string;
+  compileTarget?: CompileTargetId;
+  variables?: PromptVariable[];
+  tags?: string[];
 }
 
 export interface PromptSFL {
@@ -40,27 +187,193 @@ export interface PromptSFL {
   sflTenor: SFLTenor;
   sflMode: SFLMode;
   attachments?: Attachment[];
+  examples?: PromptExample[]; // In the order they are compiled
   compiledPrompt?: string;
-  versions?: PromptSFL[];
+  compileTarget?: CompileTargetId; // Defaults to 'markdown'
+  generationConfig?: GenerationConfig; // Overrides the workspace defaults key by key
+  responseSchema?: string; // JSON Schema text; when set, runs ask for JSON that matches it
+  variables?: PromptVariable[];
+  versions?: PromptVersion[]; // Newest first
+  votes?: ComparisonVote[]; // A/B comparisons this narrative took part in
+  chatSessions?: ChatSession[]; // Saved test conversations, newest first
+  tags?: string[];
+  personaId?: string; // Library persona the Tenor was picked from
+}
+
+// A file a persona's voice was analyzed from; the original is kept in the blob store
+export interface PersonaSourceFile {
+  name: string;
+  mimeType: string;
+  size?: number;
+  blobId?: string;
+}
+
+// A reusable Tenor profile, with the material it was built from
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  tenor: SFLTenor;
+  sampleUtterances: string[];
+  sourceFiles: PersonaSourceFile[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export type Theme = 'light' | 'dark';
 
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Which provider and model serve a given role (generation, persona analysis)
+export interface ModelTarget {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ProviderSettings {
+  openaiBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  openaiApiKey: string;
+}
+
+// A persisted narrative that failed validation on load, kept verbatim for recovery
+export interface QuarantinedPrompt {
+  raw: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+// Library search
+export type LibrarySort = 'updated' | 'created' | 'title';
+
+export interface LibraryFilter {
+  query: string;
+  tags: string[]; // A narrative must carry every selected tag
+  taskType?: string;
+  outputFormat?: string;
+  persona?: string;
+  sort: LibrarySort;
+}
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filter: LibraryFilter;
+}
+
+// A/B comparison: one side of the match-up and the recorded verdict
+export interface ComparisonSide {
+  promptId: string;
+  promptTitle: string;
+  draft?: boolean; // Unsaved Architect edits rather than the saved narrative
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ComparisonVote {
+  id: string;
+  votedAt: number;
+  a: ComparisonSide;
+  b: ComparisonSide;
+  winner: 'a' | 'b' | 'tie';
+  inputs?: Record<string, string>;
+}
+
+// Chat console: a test conversation held under a narrative's compiled SFL
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  at: number;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  contextHash: string; // Fingerprint of the compiled context the conversation ran under
+  provider: ProviderId;
+  model: string;
+  turns: ChatTurn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Constellation (Lab) workflow graph
+export type WorkflowSlot = keyof SFLField | 'reference';
+
+export interface WorkflowNode {
+  id: string;
+  promptId: string;
+  position: { x: number; y: number };
+}
+
+export interface WorkflowEdge {
+  id: string;
+  source: string; // WorkflowNode id whose output is piped
+  target: string; // WorkflowNode id receiving the output
+  slot: WorkflowSlot;
+}
+
+export interface Workflow {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+}
+
 export interface AppState {
   prompts: PromptSFL[];
+  workflows: Workflow[];
+  savedFilters: SavedFilter[];
+  personas: Persona[];
+  quarantinedPrompts: QuarantinedPrompt[];
+  hydrationError: string | null; // Set when saved data could not be read at all
+  storageError: string | null; // Set while changes cannot be written because storage is full
   activePromptId: string | null;
   theme: Theme;
   primaryModel: string;
+  primaryProvider: ProviderId;
   personaModel: string;
-  availableModels: string[];
+  personaProvider: ProviderId;
+  providerSettings: ProviderSettings;
+  availableModels: Record<ProviderId, string[]>;
+  processingJobs: Record<string, ProcessingJob>; // Keyed by attachment id
+  processingConcurrency: number;
+  analysisProfiles: AnalysisProfiles;
+  generationDefaults: GenerationConfig;
   addPrompt: (prompt: PromptSFL) => void;
   updatePrompt: (id: string, updates: Partial<PromptSFL>) => void;
+  savePromptRevision: (id: string, updates: Partial<PromptSFL>) => void;
+  restorePromptVersion: (id: string, versionId: string) => void;
   setActivePrompt: (id: string | null) => void;
   deletePrompt: (id: string) => void;
+  importPrompts: (prompts: PromptSFL[]) => void;
+  recordVote: (vote: ComparisonVote) => void;
+  saveChatSession: (promptId: string, session: ChatSession) => void;
+  deleteChatSession: (promptId: string, sessionId: string) => void;
+  addWorkflow: (workflow: Workflow) => void;
+  updateWorkflow: (id: string, updates: Partial<Workflow>) => void;
+  deleteWorkflow: (id: string) => void;
+  addSavedFilter: (filter: SavedFilter) => void;
+  deleteSavedFilter: (id: string) => void;
+  addPersona: (persona: Persona) => void;
+  updatePersona: (id: string, updates: Partial<Persona>) => void;
+  deletePersona: (id: string) => void;
+  importPersonas: (personas: Persona[]) => void;
   setTheme: (theme: Theme) => void;
   setPrimaryModel: (model: string) => void;
+  setPrimaryProvider: (provider: ProviderId) => void;
   setPersonaModel: (model: string) => void;
-  setAvailableModels: (models: string[]) => void;
+  setPersonaProvider: (provider: ProviderId) => void;
+  setProviderSettings: (settings: Partial<ProviderSettings>) => void;
+  setAvailableModels: (provider: ProviderId, models: string[]) => void;
+  clearQuarantine: () => void;
+  enqueueAttachment: (attachment: Attachment, file: File) => void;
+  cancelAttachmentProcessing: (attachmentId: string) => void;
+  releaseProcessingJobs: (attachmentIds: string[]) => void; // Forget finished jobs once their results are applied
+  setProcessingConcurrency: (concurrency: number) => void;
+  setAnalysisProfile: (kind: MediaKind, profile: AnalysisProfile) => void;
+  setGenerationDefaults: (config: GenerationConfig) => void;
 }
 
 export const DEFAULT_FIELD: SFLField = {
@@ -82,4 +395,9 @@ export const DEFAULT_MODE: SFLMode = {
   rhetoricalStructure: 'Standard',
   lengthConstraint: 'Moderate',
   textualDirectives: ''
-};
\ No newline at end of file
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiApiKey: ''
+};